@@ -1,32 +1,98 @@
 import express from 'express';
 import cors from 'cors';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
 
 const app = express();
 const port = 3000;
 
-app.use(cors());
-app.use(express.json());
+// Where saved rooms and projects live. Override with ROOMSPECKER_DATA_DIR
+const dataDir = process.env.ROOMSPECKER_DATA_DIR
+  ? path.resolve(process.env.ROOMSPECKER_DATA_DIR)
+  : path.join(path.dirname(fileURLToPath(import.meta.url)), 'data');
 
-// In-memory storage for rooms
-const rooms = [];
+// Expose ETag so the browser client can read project versions
+app.use(cors({ exposedHeaders: ['ETag'] }));
+// Whole projects are sent as one document, so allow more than the 100kb default
+app.use(express.json({ limit: '10mb' }));
 
-app.post('/api/rooms', (req, res) => {
-  const room = {
-    id: rooms.length + 1,
-    ...req.body,
-    created_at: new Date(),
-    updated_at: new Date()
+// File-backed collection. Ids come from a persisted counter so they are never reused after deletions
+const createCollection = (name) => {
+  const filePath = path.join(dataDir, `${name}.json`);
+  let state = { nextId: 1, items: [] };
+
+  if (fs.existsSync(filePath)) {
+    state = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  }
+
+  const persist = () => {
+    fs.mkdirSync(dataDir, { recursive: true });
+    // Write to a temp file first so a crash can't leave a half-written store
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(state, null, 2));
+    fs.renameSync(tempPath, filePath);
+  };
+
+  return {
+    all() {
+      return state.items;
+    },
+    find(id) {
+      return state.items.find(item => item.id === id);
+    },
+    insert(fields) {
+      const now = new Date().toISOString();
+      const item = {
+        ...fields,
+        id: state.nextId,
+        created_at: now,
+        updated_at: now
+      };
+      state.nextId += 1;
+      state.items.push(item);
+      persist();
+      return item;
+    },
+    update(id, fields) {
+      const index = state.items.findIndex(item => item.id === id);
+      if (index === -1) return null;
+
+      const item = {
+        ...state.items[index],
+        ...fields,
+        id,
+        created_at: state.items[index].created_at,
+        updated_at: new Date().toISOString()
+      };
+      state.items[index] = item;
+      persist();
+      return item;
+    },
+    remove(id) {
+      const index = state.items.findIndex(item => item.id === id);
+      if (index === -1) return false;
+
+      state.items.splice(index, 1);
+      persist();
+      return true;
+    }
   };
-  rooms.push(room);
-  res.json(room);
+};
+
+const rooms = createCollection('rooms');
+const projects = createCollection('projects');
+
+app.post('/api/rooms', (req, res) => {
+  res.json(rooms.insert(req.body));
 });
 
 app.get('/api/rooms', (req, res) => {
-  res.json(rooms);
+  res.json(rooms.all());
 });
 
 app.get('/api/rooms/:id', (req, res) => {
-  const room = rooms.find(r => r.id === parseInt(req.params.id));
+  const room = rooms.find(parseInt(req.params.id));
   if (room) {
     res.json(room);
   } else {
@@ -34,6 +100,166 @@ app.get('/api/rooms/:id', (req, res) => {
   }
 });
 
+// Projects store the full projectData document built by the designer's export.
+// Every change bumps `version`, which is also sent as the ETag for optimistic concurrency
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const toProjectSummary = (project) => ({
+  id: project.id,
+  name: project.name,
+  address: project.address,
+  thumbnail: project.thumbnail || null,
+  version: project.version,
+  created_at: project.created_at,
+  updated_at: project.updated_at
+});
+
+const isProjectData = (data) => !!data && typeof data === 'object' && !Array.isArray(data);
+
+const sendProject = (res, project, status = 200) => {
+  res.set('ETag', `"${project.version}"`);
+  res.status(status).json(project);
+};
+
+// Find the project and check the client's version (If-Match header or `version` in the body).
+// Sends the error response and returns null when the request can't go ahead
+const findProjectForWrite = (req, res) => {
+  const project = projects.find(parseInt(req.params.id));
+  if (!project) {
+    res.status(404).json({ error: 'Project not found' });
+    return null;
+  }
+
+  const ifMatch = req.get('If-Match');
+  const expectedVersion = ifMatch !== undefined
+    ? parseInt(ifMatch.replace(/^W\//, '').replace(/"/g, ''))
+    : req.body?.version;
+
+  if (expectedVersion === undefined || expectedVersion === null) {
+    res.status(428).json({ error: 'Project version is required (If-Match header or version field)' });
+    return null;
+  }
+
+  if (Number(expectedVersion) !== project.version) {
+    res.status(412).json({
+      error: 'Project has been modified by someone else',
+      currentVersion: project.version
+    });
+    return null;
+  }
+
+  return project;
+};
+
+app.post('/api/projects', (req, res) => {
+  const { name, data, thumbnail } = req.body;
+  if (!isProjectData(data)) {
+    return res.status(400).json({ error: 'Project data is required' });
+  }
+
+  const project = projects.insert({
+    name: name || data.address || `Project ${new Date().toLocaleString()}`,
+    address: data.address || '',
+    thumbnail: thumbnail || null,
+    version: 1,
+    data
+  });
+  sendProject(res, project, 201);
+});
+
+// GET /api/projects?page=1&pageSize=20&search=main+st
+app.get('/api/projects', (req, res) => {
+  const page = Math.max(1, parseInt(req.query.page) || 1);
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(req.query.pageSize) || DEFAULT_PAGE_SIZE));
+  const search = String(req.query.search || '').trim().toLowerCase();
+
+  const matches = projects.all()
+    .filter(project => !search ||
+      String(project.name || '').toLowerCase().includes(search) ||
+      String(project.address || '').toLowerCase().includes(search))
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+
+  res.json({
+    items: matches.slice((page - 1) * pageSize, page * pageSize).map(toProjectSummary),
+    total: matches.length,
+    page,
+    pageSize
+  });
+});
+
+app.get('/api/projects/:id', (req, res) => {
+  const project = projects.find(parseInt(req.params.id));
+  if (project) {
+    sendProject(res, project);
+  } else {
+    res.status(404).json({ error: 'Project not found' });
+  }
+});
+
+// Replace the whole project document
+app.put('/api/projects/:id', (req, res) => {
+  const { name, data, thumbnail } = req.body;
+  if (!isProjectData(data)) {
+    return res.status(400).json({ error: 'Project data is required' });
+  }
+
+  const project = findProjectForWrite(req, res);
+  if (!project) return;
+
+  const updated = projects.update(project.id, {
+    name: name || data.address || project.name,
+    address: data.address || '',
+    thumbnail: thumbnail || null,
+    version: project.version + 1,
+    data
+  });
+  sendProject(res, updated);
+});
+
+// Update only the given fields. `data` is merged into the stored document at the top level
+app.patch('/api/projects/:id', (req, res) => {
+  const { name, data, thumbnail } = req.body;
+  if (data !== undefined && !isProjectData(data)) {
+    return res.status(400).json({ error: 'Project data must be an object' });
+  }
+
+  const project = findProjectForWrite(req, res);
+  if (!project) return;
+
+  const mergedData = data ? { ...project.data, ...data } : project.data;
+  const updated = projects.update(project.id, {
+    name: name || project.name,
+    address: mergedData.address || '',
+    thumbnail: thumbnail !== undefined ? thumbnail : project.thumbnail,
+    version: project.version + 1,
+    data: mergedData
+  });
+  sendProject(res, updated);
+});
+
+app.delete('/api/projects/:id', (req, res) => {
+  const project = findProjectForWrite(req, res);
+  if (!project) return;
+
+  projects.remove(project.id);
+  res.status(204).end();
+});
+
+// A shop's own cabinet catalog, if one has been put in the data directory. Without it the
+// designer uses the catalog it ships with
+app.get('/api/cabinet-catalog', (req, res) => {
+  const catalogPath = path.join(dataDir, 'cabinet-catalog.json');
+  if (!fs.existsSync(catalogPath)) {
+    return res.status(404).json({ error: 'No cabinet catalog' });
+  }
+  try {
+    res.json(JSON.parse(fs.readFileSync(catalogPath, 'utf8')));
+  } catch (error) {
+    res.status(500).json({ error: `Cabinet catalog is not valid JSON: ${error.message}` });
+  }
+});
+
 app.post('/api/process-room', (req, res) => {
   try {
     const roomData = req.body;
@@ -75,4 +301,5 @@ app.post('/api/process-room', (req, res) => {
 
 app.listen(port, () => {
   console.log(`Server running at http://localhost:${port}`);
+  console.log(`Storing data in ${dataDir}`);
 });
\ No newline at end of file
@@ -0,0 +1,85 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import {
+  drawRunElevation,
+  getElevationCanvasSize,
+  getElevationFitScale,
+  RunElevation
+} from '../services/cabinetElevation';
+import { VectorRecorder } from '../services/vectorRecorder';
+import { buildSvg } from '../services/svgExport';
+
+interface CabinetElevationPanelProps {
+  elevations: RunElevation[];
+  selectedRunId: number | null;
+  onExportSvg: (elevation: RunElevation, svg: string) => void;
+}
+
+const PANEL_WIDTH_px = 1000;
+const MAX_SCALE = 0.25; // px per mm, keeps short runs from being blown up
+
+const CabinetElevationPanel: React.FC<CabinetElevationPanelProps> = ({ elevations, selectedRunId, onExportSvg }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [runId, setRunId] = useState<number | null>(selectedRunId);
+
+  // Follow the run selected in the designer
+  useEffect(() => {
+    if (selectedRunId !== null) setRunId(selectedRunId);
+  }, [selectedRunId]);
+
+  const elevation = elevations.find(e => e.runId === runId) ?? elevations[0];
+  const scale = elevation ? Math.min(MAX_SCALE, getElevationFitScale(elevation, PANEL_WIDTH_px)) : MAX_SCALE;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !elevation) return;
+
+    const size = getElevationCanvasSize(elevation, scale);
+    canvas.width = size.width;
+    canvas.height = size.height;
+    ctx.clearRect(0, 0, size.width, size.height);
+    drawRunElevation(ctx, elevation, scale);
+  }, [elevation, scale]);
+
+  const exportSvg = () => {
+    if (!elevation) return;
+    const size = getElevationCanvasSize(elevation, scale);
+    const recorder = new VectorRecorder(size.width, size.height);
+    drawRunElevation(recorder as unknown as CanvasRenderingContext2D, elevation, scale);
+    onExportSvg(elevation, buildSvg(recorder.shapes, elevation.title));
+  };
+
+  if (!elevation) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Cabinet Elevations</h2>
+        <div className="flex items-center gap-2">
+          <select
+            value={elevation.runId}
+            onChange={(e) => setRunId(Number(e.target.value))}
+            className="px-3 py-1 border border-gray-300 rounded"
+          >
+            {elevations.map(e => (
+              <option key={e.runId} value={e.runId}>{e.title}</option>
+            ))}
+          </select>
+          <button
+            onClick={exportSvg}
+            className="flex items-center gap-2 px-4 py-1 bg-gray-700 text-white rounded hover:bg-gray-800"
+          >
+            <Download size={16} />
+            Export SVG
+          </button>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <canvas ref={canvasRef} className="border border-gray-200" />
+      </div>
+    </div>
+  );
+};
+
+export default CabinetElevationPanel;
@@ -0,0 +1,209 @@
+import React from 'react';
+import { CameraKeyframe, CameraPath, getFrameCount, sortKeyframes } from '../services/cameraPath';
+
+interface CameraPathPanelProps {
+  path: CameraPath;
+  previewTime: number | null; // null when the preview is off
+  onChange: (path: CameraPath) => void;
+  onPreviewTimeChange: (time: number | null) => void;
+}
+
+const CameraPathPanel: React.FC<CameraPathPanelProps> = ({ path, previewTime, onChange, onPreviewTimeChange }) => {
+  // Keyframes are sorted by time once a time edit is done, so the row doesn't move while typing
+  const updateKeyframe = (index: number, changes: Partial<CameraKeyframe>) => {
+    const keyframes = path.keyframes.map((keyframe, i) => i === index ? { ...keyframe, ...changes } : keyframe);
+    const lastTime = Math.max(...keyframes.map(keyframe => keyframe.time));
+    onChange({ ...path, keyframes, duration: Math.max(path.duration, lastTime) });
+  };
+
+  const sortByTime = () => {
+    const sorted = sortKeyframes(path.keyframes);
+    if (sorted.some((keyframe, i) => keyframe !== path.keyframes[i])) onChange({ ...path, keyframes: sorted });
+  };
+
+  const removeKeyframe = (index: number) => {
+    onChange({ ...path, keyframes: path.keyframes.filter((_, i) => i !== index) });
+  };
+
+  const lastTime = Math.max(0, ...path.keyframes.map(keyframe => keyframe.time));
+  const frameCount = getFrameCount(path);
+  const cellClass = 'px-3 py-2 whitespace-nowrap text-sm text-gray-500';
+  const inputClass = 'w-20 px-2 py-1 border border-gray-300 rounded';
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Camera Path</h2>
+        <div className="flex items-center gap-2 text-sm">
+          <span>Frame rate (fps)</span>
+          <input
+            type="number"
+            value={path.frameRate}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (value > 0) onChange({ ...path, frameRate: value });
+            }}
+            className="w-16 px-2 py-1 border border-gray-300 rounded"
+            min="1"
+          />
+          <span>Duration (s)</span>
+          <input
+            type="number"
+            value={path.duration}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (value >= lastTime) onChange({ ...path, duration: value });
+            }}
+            className="w-20 px-2 py-1 border border-gray-300 rounded"
+            min={lastTime}
+            step="0.5"
+          />
+          <span className="text-gray-500">{frameCount} frames</span>
+          <button
+            onClick={() => {
+              onChange({ ...path, keyframes: [], duration: 0 });
+              onPreviewTimeChange(null);
+            }}
+            disabled={path.keyframes.length === 0}
+            className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Clear Path
+          </button>
+        </div>
+      </div>
+
+      {path.keyframes.length === 0 ? (
+        <p className="text-sm text-gray-500">Use "Add Path Keyframes" and click on the plan to place keyframes.</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr>
+                  {['#', 'Time (s)', 'X (mm)', 'Y (mm)', 'Height (mm)', 'Rotation (°)', 'Focal Length (mm)', ''].map(title => (
+                    <th key={title} className="px-3 py-2 bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {title}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {path.keyframes.map((keyframe, index) => (
+                  <tr key={index}>
+                    <td className={cellClass}>{index + 1}</td>
+                    <td className={cellClass}>
+                      <input
+                        type="number"
+                        value={keyframe.time}
+                        onChange={(e) => {
+                          const value = Number(e.target.value);
+                          if (value >= 0) updateKeyframe(index, { time: value });
+                        }}
+                        onBlur={sortByTime}
+                        className={inputClass}
+                        min="0"
+                        step="0.5"
+                      />
+                    </td>
+                    <td className={cellClass}>
+                      <input
+                        type="number"
+                        value={Math.round(keyframe.position.x)}
+                        onChange={(e) => updateKeyframe(index, { position: { ...keyframe.position, x: Number(e.target.value) } })}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className={cellClass}>
+                      <input
+                        type="number"
+                        value={Math.round(keyframe.position.y)}
+                        onChange={(e) => updateKeyframe(index, { position: { ...keyframe.position, y: Number(e.target.value) } })}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className={cellClass}>
+                      <input
+                        type="number"
+                        value={Math.round(keyframe.height)}
+                        onChange={(e) => {
+                          const value = Number(e.target.value);
+                          if (value > 0) updateKeyframe(index, { height: value });
+                        }}
+                        className={inputClass}
+                        min="0"
+                      />
+                    </td>
+                    <td className={cellClass}>
+                      <input
+                        type="number"
+                        value={Math.round(keyframe.rotation)}
+                        onChange={(e) => updateKeyframe(index, { rotation: ((Number(e.target.value) % 360) + 360) % 360 })}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className={cellClass}>
+                      <input
+                        type="number"
+                        value={Math.round(keyframe.focalLength)}
+                        onChange={(e) => {
+                          const value = Number(e.target.value);
+                          if (value > 0) updateKeyframe(index, { focalLength: value });
+                        }}
+                        className={inputClass}
+                        min="1"
+                      />
+                    </td>
+                    <td className={cellClass}>
+                      <button
+                        onClick={() => removeKeyframe(index)}
+                        className="px-2 py-1 bg-red-600 text-white rounded hover:bg-red-700"
+                        title="Delete this keyframe"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Timeline */}
+          <div className="flex items-center gap-4 mt-4 text-sm">
+            {previewTime === null ? (
+              <button
+                onClick={() => onPreviewTimeChange(0)}
+                className="px-3 py-1 bg-gray-700 text-white rounded hover:bg-gray-800"
+              >
+                Preview Path
+              </button>
+            ) : (
+              <>
+                <input
+                  type="range"
+                  min={0}
+                  max={path.duration}
+                  step={1 / path.frameRate}
+                  value={previewTime}
+                  onChange={(e) => onPreviewTimeChange(Number(e.target.value))}
+                  className="flex-1"
+                />
+                <span className="w-40 text-gray-500">
+                  {previewTime.toFixed(2)}s, frame {Math.min(Math.round(previewTime * path.frameRate) + 1, frameCount)} of {frameCount}
+                </span>
+                <button
+                  onClick={() => onPreviewTimeChange(null)}
+                  className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300"
+                >
+                  Close Preview
+                </button>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CameraPathPanel;
@@ -0,0 +1,136 @@
+import React from 'react';
+import { CountertopSettings, CountertopSlab } from '../services/countertops';
+import { WallBacksplash } from '../services/backsplash';
+
+interface CountertopPanelProps {
+  slabs: CountertopSlab[];
+  backsplashWalls: (WallBacksplash & { label: string })[];
+  settings: CountertopSettings;
+  showOnPlan: boolean;
+  onSettingsChange: (settings: CountertopSettings) => void;
+  onShowOnPlanChange: (show: boolean) => void;
+}
+
+const SETTING_FIELDS: { field: Exclude<keyof CountertopSettings, 'backsplashToUppers'>, label: string }[] = [
+  { field: 'frontOverhang', label: 'Front overhang (mm)' },
+  { field: 'endOverhang', label: 'Open end overhang (mm)' },
+  { field: 'seatingOverhang', label: 'Island seating overhang (mm)' },
+  { field: 'thickness', label: 'Thickness (mm)' },
+  { field: 'backsplashHeight', label: 'Backsplash height (mm)' }
+];
+
+const CountertopPanel: React.FC<CountertopPanelProps> = ({ slabs, backsplashWalls, settings, showOnPlan, onSettingsChange, onShowOnPlanChange }) => {
+  const cellClass = 'px-3 py-2 whitespace-nowrap text-sm text-gray-500';
+  const totalArea = slabs.reduce((sum, slab) => sum + slab.netArea, 0);
+  const totalBacksplashArea = backsplashWalls.reduce((sum, wall) => sum + wall.area, 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Countertops</h2>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={showOnPlan} onChange={(e) => onShowOnPlanChange(e.target.checked)} />
+          Show on plan
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+        {SETTING_FIELDS.map(({ field, label }) => (
+          <label key={field} className="flex items-center gap-2">
+            {label}
+            <input
+              type="number"
+              value={settings[field]}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (value >= 0) onSettingsChange({ ...settings, [field]: value });
+              }}
+              className="w-20 px-2 py-1 border border-gray-300 rounded"
+              min="0"
+            />
+          </label>
+        ))}
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.backsplashToUppers}
+            onChange={(e) => onSettingsChange({ ...settings, backsplashToUppers: e.target.checked })}
+          />
+          Backsplash up to upper cabinets
+        </label>
+      </div>
+
+      {slabs.length === 0 ? (
+        <p className="text-sm text-gray-500">Add cabinets to a base run to get a countertop.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                {['Top', 'Runs', 'Pieces (L x W mm)', 'Cutouts (W x D mm)', 'Area (m²)'].map(title => (
+                  <th key={title} className="px-3 py-2 bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {title}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {slabs.map(slab => (
+                <tr key={slab.id}>
+                  <td className={cellClass}>{slab.id}</td>
+                  <td className={cellClass}>{slab.runIds.join(', ')}</td>
+                  <td className={cellClass}>
+                    {slab.pieces.map((piece, index) => (
+                      <div key={index}>Run {piece.runId}: {Math.round(piece.length)} x {Math.round(piece.width)}</div>
+                    ))}
+                  </td>
+                  <td className={cellClass}>
+                    {slab.cutouts.length === 0 ? '-' : slab.cutouts.map(cutout => (
+                      <div key={cutout.cabinetId}>{cutout.kind} ({cutout.cabinetId}): {Math.round(cutout.width)} x {Math.round(cutout.depth)}</div>
+                    ))}
+                  </td>
+                  <td className={cellClass}>
+                    {slab.netArea.toFixed(2)}
+                    {slab.cutouts.length > 0 && <span className="text-gray-400"> ({slab.grossArea.toFixed(2)} before cutouts)</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-sm text-gray-500">Total {totalArea.toFixed(2)} m²</p>
+        </div>
+      )}
+
+      <h3 className="mt-4 mb-2 text-sm font-medium text-gray-700">Backsplash</h3>
+      {backsplashWalls.length === 0 ? (
+        <p className="text-sm text-gray-500">Snap a base run to a wall to get a backsplash.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                {['Wall', 'Runs', 'Area (m²)'].map(title => (
+                  <th key={title} className="px-3 py-2 bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {title}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {backsplashWalls.map(wall => (
+                <tr key={`${wall.roomId}-${wall.wallIndex}`}>
+                  <td className={cellClass}>{wall.label}</td>
+                  <td className={cellClass}>{wall.runIds.join(', ')}</td>
+                  <td className={cellClass}>{wall.area.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-sm text-gray-500">Total {totalBacksplashArea.toFixed(2)} m², windows left out</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CountertopPanel;
@@ -0,0 +1,433 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import {
+  CabinetCatalog,
+  CabinetCategory,
+  CabinetTypeDefinition,
+  FrontSection,
+  getFrontPlanTemplate
+} from '../services/cabinetCatalog';
+import { getCabinetFaces } from '../services/cabinetElevation';
+
+interface CustomCabinetDialogProps {
+  catalog: CabinetCatalog; // Including the custom types
+  customTypes: CabinetTypeDefinition[];
+  onSave: (originalName: string | null, definition: CabinetTypeDefinition) => void;
+  onDelete: (name: string) => void;
+  onClose: () => void;
+}
+
+// Form state. Lengths in mm
+interface CabinetDraft {
+  name: string;
+  category: CabinetCategory;
+  fixedWidth: boolean;
+  width: number; // The fixed width, or the minimum
+  maxWidth: number | null;
+  mountHeight: number;
+  height: number;
+  toeKick: boolean;
+  front: FrontSection[];
+}
+
+// Where each kind of cabinet sits and how tall it is until the user says otherwise
+const CATEGORY_DEFAULTS: Record<CabinetCategory, { label: string, mountHeight: number, height: number, toeKick: boolean }> = {
+  Base: { label: 'Base (base run)', mountHeight: 0, height: 900, toeKick: true },
+  Tall: { label: 'Tall (base run)', mountHeight: 0, height: 2200, toeKick: true },
+  Wall: { label: 'Wall (upper run)', mountHeight: 1500, height: 700, toeKick: false },
+  CounterTop: { label: 'Counter top (upper run)', mountHeight: 900, height: 1300, toeKick: false }
+};
+
+const SECTION_KINDS: { kind: FrontSection['kind'], label: string }[] = [
+  { kind: 'door', label: 'Door' },
+  { kind: 'drawers', label: 'Drawers' },
+  { kind: 'open', label: 'Open shelves' }
+];
+
+const PREVIEW_HEIGHT_px = 160;
+
+const EMPTY_DRAFT: CabinetDraft = {
+  name: '',
+  category: 'Base',
+  fixedWidth: false,
+  width: 250,
+  maxWidth: null,
+  mountHeight: 0,
+  height: 900,
+  toeKick: true,
+  front: [{ kind: 'door', count: 1 }]
+};
+
+const toDraft = (definition: CabinetTypeDefinition): CabinetDraft => ({
+  name: definition.name,
+  category: definition.category,
+  fixedWidth: definition.width.fixed !== undefined,
+  width: definition.width.fixed ?? definition.width.min,
+  maxWidth: definition.width.max ?? null,
+  mountHeight: definition.mountHeight,
+  height: definition.defaultHeight,
+  toeKick: definition.template.toeKick,
+  front: definition.template.front
+});
+
+const toDefinition = (draft: CabinetDraft): CabinetTypeDefinition => ({
+  name: draft.name.trim(),
+  category: draft.category,
+  runType: draft.category === 'Base' || draft.category === 'Tall' ? 'Base' : 'Upper',
+  width: draft.fixedWidth
+    ? { fixed: draft.width, min: draft.width }
+    : { min: draft.width, ...(draft.maxWidth !== null ? { max: draft.maxWidth } : {}) },
+  mountHeight: draft.mountHeight,
+  defaultHeight: draft.height,
+  template: { plan: getFrontPlanTemplate(draft.front), front: draft.front, toeKick: draft.toeKick }
+});
+
+const CustomCabinetDialog: React.FC<CustomCabinetDialogProps> = ({ catalog, customTypes, onSave, onDelete, onClose }) => {
+  const [editingName, setEditingName] = useState<string | null>(null); // null while creating a new type
+  const [draft, setDraft] = useState<CabinetDraft>(EMPTY_DRAFT);
+
+  const updateDraft = (changes: Partial<CabinetDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const updateSection = (index: number, changes: Partial<FrontSection>) => {
+    setDraft(prev => ({
+      ...prev,
+      front: prev.front.map((section, i) => i === index ? { ...section, ...changes } : section)
+    }));
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    setDraft(prev => {
+      const front = [...prev.front];
+      const [section] = front.splice(index, 1);
+      front.splice(index + offset, 0, section);
+      return { ...prev, front };
+    });
+  };
+
+  const startNew = () => {
+    setEditingName(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const handleSave = () => {
+    const name = draft.name.trim();
+    if (!name) {
+      alert('Please give the cabinet type a name');
+      return;
+    }
+    if (name !== editingName && catalog.types.some(type => type.name === name)) {
+      alert(`There is already a cabinet type called "${name}"`);
+      return;
+    }
+    if (!(draft.width > 0) || !(draft.height > 0) || draft.mountHeight < 0) {
+      alert('Widths and heights must be positive numbers');
+      return;
+    }
+    if (draft.maxWidth !== null && draft.maxWidth < draft.width) {
+      alert('The maximum width must not be smaller than the minimum width');
+      return;
+    }
+    if (draft.front.length === 0) {
+      alert('Please add at least one front section');
+      return;
+    }
+    onSave(editingName, toDefinition(draft));
+    setEditingName(name);
+  };
+
+  // Front preview, drawn with the same layout as the elevations
+  const previewDefinition = toDefinition(draft);
+  const previewWidth = Math.max(1, draft.fixedWidth ? draft.width : draft.maxWidth ?? Math.max(draft.width, 600));
+  const pxPerMm = PREVIEW_HEIGHT_px / Math.max(1, draft.height);
+  const previewFaces = getCabinetFaces({
+    id: 'preview',
+    type: previewDefinition.name,
+    category: previewDefinition.category,
+    toeKick: previewDefinition.template.toeKick,
+    front: previewDefinition.template.front,
+    position: 0,
+    width: previewWidth,
+    bottom: 0,
+    top: Math.max(1, draft.height),
+    hingeRight: false
+  });
+
+  const inputClass = 'w-full mt-1 px-2 py-1 border border-gray-300 rounded';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg p-4 w-full max-w-4xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Custom Cabinet Types</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex gap-4">
+          {/* Types defined in this project */}
+          <div className="w-56 shrink-0">
+            <button
+              onClick={startNew}
+              className="w-full mb-2 px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700"
+            >
+              New Type
+            </button>
+            {customTypes.length === 0 && <p className="text-sm text-gray-500">No custom types yet</p>}
+            {customTypes.map(type => (
+              <div
+                key={type.name}
+                className={`flex items-center justify-between gap-1 px-2 py-1 mb-1 rounded text-sm ${type.name === editingName ? 'bg-blue-50' : ''}`}
+              >
+                <button
+                  onClick={() => {
+                    setEditingName(type.name);
+                    setDraft(toDraft(type));
+                  }}
+                  className="text-left truncate hover:underline"
+                  title={`Edit ${type.name}`}
+                >
+                  {type.name}
+                </button>
+                <button
+                  onClick={() => {
+                    onDelete(type.name);
+                    if (type.name === editingName) startNew();
+                  }}
+                  className="px-2 py-0.5 bg-red-600 text-white rounded hover:bg-red-700"
+                  title="Delete this type"
+                >
+                  Delete
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Type definition */}
+          <div className="flex-1">
+            <div className="grid grid-cols-3 gap-2 mb-2">
+              <label className="text-sm font-medium text-gray-700 col-span-2">
+                Name
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                  className={inputClass}
+                  placeholder="e.g. Base - Wine Rack"
+                />
+              </label>
+              <label className="text-sm font-medium text-gray-700">
+                Kind
+                <select
+                  value={draft.category}
+                  onChange={(e) => {
+                    const category = e.target.value as CabinetCategory;
+                    const defaults = CATEGORY_DEFAULTS[category];
+                    updateDraft({ category, mountHeight: defaults.mountHeight, height: defaults.height, toeKick: defaults.toeKick });
+                  }}
+                  className={inputClass}
+                >
+                  {(Object.keys(CATEGORY_DEFAULTS) as CabinetCategory[]).map(category => (
+                    <option key={category} value={category}>{CATEGORY_DEFAULTS[category].label}</option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="text-sm font-medium text-gray-700">
+                {draft.fixedWidth ? 'Width (mm)' : 'Min width (mm)'}
+                <input
+                  type="number"
+                  value={draft.width}
+                  onChange={(e) => updateDraft({ width: Number(e.target.value) })}
+                  className={inputClass}
+                  min="1"
+                />
+              </label>
+              <label className="text-sm font-medium text-gray-700">
+                Max width (mm)
+                <input
+                  type="number"
+                  value={draft.maxWidth ?? ''}
+                  onChange={(e) => updateDraft({ maxWidth: e.target.value === '' ? null : Number(e.target.value) })}
+                  className={inputClass}
+                  disabled={draft.fixedWidth}
+                  placeholder="No limit"
+                />
+              </label>
+              <label className="flex items-end gap-2 pb-1 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={draft.fixedWidth}
+                  onChange={(e) => updateDraft({ fixedWidth: e.target.checked })}
+                />
+                Fixed width
+              </label>
+
+              <label className="text-sm font-medium text-gray-700">
+                Height (mm)
+                <input
+                  type="number"
+                  value={draft.height}
+                  onChange={(e) => updateDraft({ height: Number(e.target.value) })}
+                  className={inputClass}
+                  min="1"
+                />
+              </label>
+              <label className="text-sm font-medium text-gray-700">
+                Mounted at (mm)
+                <input
+                  type="number"
+                  value={draft.mountHeight}
+                  onChange={(e) => updateDraft({ mountHeight: Number(e.target.value) })}
+                  className={inputClass}
+                  min="0"
+                />
+              </label>
+              <label className="flex items-end gap-2 pb-1 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={draft.toeKick}
+                  onChange={(e) => updateDraft({ toeKick: e.target.checked })}
+                />
+                Toe kick
+              </label>
+            </div>
+
+            <div className="flex justify-between items-center mt-4 mb-1">
+              <h3 className="text-sm font-medium text-gray-700">Front, from the bottom up</h3>
+              <button
+                onClick={() => updateDraft({ front: [...draft.front, { kind: 'door', count: 1 }] })}
+                className="px-2 py-0.5 text-sm bg-gray-200 rounded hover:bg-gray-300"
+              >
+                Add Section
+              </button>
+            </div>
+            <p className="mb-2 text-xs text-gray-500">Sections without a height share the height that's left.</p>
+
+            <div className="flex gap-4">
+              <div className="flex-1">
+                {draft.front.map((section, index) => (
+                  <div key={index} className="flex items-center gap-2 mb-1 text-sm">
+                    <select
+                      value={section.kind}
+                      onChange={(e) => {
+                        const kind = e.target.value as FrontSection['kind'];
+                        updateSection(index, { kind, count: kind === 'open' ? undefined : 1 });
+                      }}
+                      className="px-2 py-1 border border-gray-300 rounded"
+                    >
+                      {SECTION_KINDS.map(option => (
+                        <option key={option.kind} value={option.kind}>{option.label}</option>
+                      ))}
+                    </select>
+                    {section.kind === 'door' && (
+                      <select
+                        value={section.count === 2 ? 2 : 1}
+                        onChange={(e) => updateSection(index, { count: Number(e.target.value) })}
+                        className="px-2 py-1 border border-gray-300 rounded"
+                      >
+                        <option value={1}>Single</option>
+                        <option value={2}>Pair</option>
+                      </select>
+                    )}
+                    {section.kind === 'drawers' && (
+                      <input
+                        type="number"
+                        value={section.count ?? 1}
+                        onChange={(e) => {
+                          const count = Math.round(Number(e.target.value));
+                          if (count > 0) updateSection(index, { count });
+                        }}
+                        className="w-16 px-2 py-1 border border-gray-300 rounded"
+                        min="1"
+                        title="Number of drawers"
+                      />
+                    )}
+                    <input
+                      type="number"
+                      value={section.height ?? ''}
+                      onChange={(e) => updateSection(index, { height: Number(e.target.value) > 0 ? Number(e.target.value) : undefined })}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded"
+                      placeholder="Height"
+                      title="Height in mm, leave empty to share the free height"
+                    />
+                    <input
+                      type="text"
+                      value={section.label ?? ''}
+                      onChange={(e) => updateSection(index, { label: e.target.value || undefined })}
+                      className="w-28 px-2 py-1 border border-gray-300 rounded"
+                      placeholder="Label"
+                    />
+                    <button
+                      onClick={() => moveSection(index, -1)}
+                      disabled={index === 0}
+                      className="px-2 py-0.5 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+                      title="Move down"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      onClick={() => moveSection(index, 1)}
+                      disabled={index === draft.front.length - 1}
+                      className="px-2 py-0.5 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+                      title="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => updateDraft({ front: draft.front.filter((_, i) => i !== index) })}
+                      className="px-2 py-0.5 bg-red-600 text-white rounded hover:bg-red-700"
+                      title="Remove this section"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <svg
+                width={previewWidth * pxPerMm}
+                height={PREVIEW_HEIGHT_px}
+                className="shrink-0 border border-gray-200"
+              >
+                {previewFaces.map((face, i) => (
+                  <rect
+                    key={i}
+                    x={face.x * pxPerMm + 1}
+                    y={PREVIEW_HEIGHT_px - (face.y + face.height) * pxPerMm + 1}
+                    width={Math.max(0, face.width * pxPerMm - 2)}
+                    height={Math.max(0, face.height * pxPerMm - 2)}
+                    fill={face.kind === 'open' ? '#f3f4f6' : '#ffffff'}
+                    stroke="#374151"
+                  />
+                ))}
+              </svg>
+            </div>
+
+            <div className="flex justify-end gap-2 mt-4">
+              <button
+                onClick={onClose}
+                className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300"
+              >
+                Close
+              </button>
+              <button
+                onClick={handleSave}
+                className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+              >
+                {editingName === null ? 'Add Type' : 'Save Type'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomCabinetDialog;
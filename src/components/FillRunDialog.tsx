@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { CabinetCatalog, CabinetRunType, getCabinetDefinition, getCatalogTypeNames, getCountertopCutout } from '../services/cabinetCatalog';
+import { LayoutCabinet, proposeRunLayouts } from '../services/runLayout';
+
+interface FillRunDialogProps {
+  catalog: CabinetCatalog;
+  runId: number;
+  runType: CabinetRunType;
+  span: { start: number, end: number }; // The run between its fillers
+  windowCentre: number | null; // Along the run, null if there's no window behind it
+  hasCabinets: boolean;
+  onApply: (cabinets: LayoutCabinet[]) => void;
+  onClose: () => void;
+}
+
+const DEFAULT_MODULE_WIDTHS = '450, 600, 900';
+
+const FillRunDialog: React.FC<FillRunDialogProps> = ({ catalog, runId, runType, span, windowCentre, hasCabinets, onApply, onClose }) => {
+  const typeNames = getCatalogTypeNames(catalog, runType);
+  const sinkTypes = typeNames.filter(name => getCountertopCutout(getCabinetDefinition(catalog, name)) === 'sink');
+  const dishwasherTypes = typeNames.filter(name => getCabinetDefinition(catalog, name).template.appliance === 'dishwasher');
+
+  const [moduleText, setModuleText] = useState(DEFAULT_MODULE_WIDTHS);
+  const [fillType, setFillType] = useState(
+    typeNames.find(name => getCabinetDefinition(catalog, name).width.fixed === undefined) ?? typeNames[0] ?? ''
+  );
+  const [sinkType, setSinkType] = useState<string | null>(sinkTypes[0] ?? null);
+  const [sinkUnderWindow, setSinkUnderWindow] = useState(windowCentre !== null);
+  const [dishwasherType, setDishwasherType] = useState<string | null>(dishwasherTypes[0] ?? null);
+
+  const moduleWidths = useMemo(() => moduleText
+    .split(/[\s,;]+/)
+    .map(Number)
+    .filter(width => Number.isFinite(width) && width > 0), [moduleText]);
+
+  const proposals = useMemo(
+    () => fillType === '' ? [] : proposeRunLayouts(catalog, { moduleWidths, fillType, sinkType, sinkUnderWindow, dishwasherType }, span, windowCentre),
+    [catalog, moduleWidths, fillType, sinkType, sinkUnderWindow, dishwasherType, span, windowCentre]
+  );
+
+  const apply = (cabinets: LayoutCabinet[]) => {
+    if (hasCabinets && !window.confirm(`Replace the cabinets in run ${runId} with this layout?`)) return;
+    onApply(cabinets);
+  };
+
+  const spanLength = span.end - span.start;
+  const inputClass = 'w-full mt-1 px-2 py-1 border border-gray-300 rounded';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg p-4 w-full max-w-4xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Fill Run {runId}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <p className="mb-4 text-sm text-gray-500">
+          {Math.round(spanLength)}mm between the fillers{windowCentre !== null ? `, window centred at ${Math.round(windowCentre)}mm` : ''}
+        </p>
+
+        <div className="grid grid-cols-3 gap-2 mb-4">
+          <label className="text-sm font-medium text-gray-700">
+            Preferred widths (mm)
+            <input
+              type="text"
+              value={moduleText}
+              onChange={(e) => setModuleText(e.target.value)}
+              className={inputClass}
+              placeholder={DEFAULT_MODULE_WIDTHS}
+            />
+          </label>
+          <label className="text-sm font-medium text-gray-700 col-span-2">
+            Fill with
+            <select value={fillType} onChange={(e) => setFillType(e.target.value)} className={inputClass}>
+              {typeNames.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="text-sm font-medium text-gray-700">
+            Sink
+            <select
+              value={sinkType ?? ''}
+              onChange={(e) => setSinkType(e.target.value === '' ? null : e.target.value)}
+              className={inputClass}
+              disabled={sinkTypes.length === 0}
+            >
+              <option value="">No sink</option>
+              {sinkTypes.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm font-medium text-gray-700">
+            Dishwasher next to the sink
+            <select
+              value={dishwasherType ?? ''}
+              onChange={(e) => setDishwasherType(e.target.value === '' ? null : e.target.value)}
+              className={inputClass}
+              disabled={sinkType === null || dishwasherTypes.length === 0}
+            >
+              <option value="">No dishwasher</option>
+              {dishwasherTypes.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-end gap-2 pb-1 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={sinkUnderWindow}
+              onChange={(e) => setSinkUnderWindow(e.target.checked)}
+              disabled={sinkType === null}
+            />
+            Centre the sink under the window
+          </label>
+        </div>
+
+        <h3 className="mb-2 text-sm font-medium text-gray-700">Layouts</h3>
+        {proposals.length === 0 && <p className="text-sm text-gray-500">Pick a cabinet type to fill the run with.</p>}
+        {proposals.map(proposal => (
+          <div key={proposal.label} className="mb-3 p-2 border border-gray-200 rounded">
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-sm font-medium">
+                {proposal.label}
+                {proposal.gap >= 1 && <span className="ml-2 text-yellow-700">{Math.round(proposal.gap)}mm left over</span>}
+              </span>
+              <button
+                onClick={() => apply(proposal.cabinets)}
+                className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+              >
+                Use Layout
+              </button>
+            </div>
+
+            {/* The cabinets to scale along the run */}
+            <div className="flex h-10 border border-gray-300 bg-gray-50">
+              {proposal.cabinets.map((cabinet, index) => (
+                <div
+                  key={index}
+                  className={`flex items-center justify-center border-r border-gray-400 text-xs overflow-hidden ${cabinet.type === fillType ? 'bg-white' : 'bg-blue-100'}`}
+                  style={{ width: `${(cabinet.width / spanLength) * 100}%` }}
+                  title={`${cabinet.type}, ${cabinet.width}mm`}
+                >
+                  {cabinet.width}
+                </div>
+              ))}
+            </div>
+
+            {proposal.notes.map(note => (
+              <p key={note} className="mt-1 text-xs text-gray-500">{note}</p>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FillRunDialog;
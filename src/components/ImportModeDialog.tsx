@@ -0,0 +1,56 @@
+import React from 'react';
+import { X } from 'lucide-react';
+
+export type ImportMode = 'replace' | 'merge';
+
+interface ImportModeDialogProps {
+  fileName: string;
+  onChoose: (mode: ImportMode) => void;
+  onClose: () => void;
+}
+
+const ImportModeDialog: React.FC<ImportModeDialogProps> = ({ fileName, onChoose, onClose }) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg p-4 w-full max-w-md"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Import Project</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <p className="mb-4 text-sm text-gray-600">
+          The current design isn't empty. Replace it with "{fileName}", or add the rooms, cabinet runs
+          and cabinets from the file to it?
+        </p>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onChoose('merge')}
+            className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Merge
+          </button>
+          <button
+            onClick={() => onChoose('replace')}
+            className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700"
+          >
+            Replace
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportModeDialog;
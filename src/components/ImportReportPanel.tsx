@@ -0,0 +1,85 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { IssueSeverity, ValidationIssue } from '../services/projectValidation';
+
+interface ImportReportPanelProps {
+  issues: ValidationIssue[];
+  canImport: boolean;
+  onImport: () => void;
+  onClose: () => void;
+}
+
+const SEVERITY_STYLES: Record<IssueSeverity, string> = {
+  error: 'bg-red-100 text-red-800',
+  warning: 'bg-amber-100 text-amber-800',
+  info: 'bg-blue-100 text-blue-800'
+};
+
+const ImportReportPanel: React.FC<ImportReportPanelProps> = ({ issues, canImport, onImport, onClose }) => {
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.filter(issue => issue.severity === 'warning').length;
+
+  return (
+    <div className="mb-4 p-4 border border-gray-200 rounded-lg bg-gray-50">
+      <div className="flex justify-between items-start mb-2">
+        <div>
+          <h3 className="text-lg font-medium text-gray-800">Import Report</h3>
+          <p className="text-sm text-gray-600">
+            {!canImport
+              ? 'This file cannot be imported.'
+              : errorCount > 0
+                ? `${errorCount} error(s) and ${warningCount} warning(s). Entities with errors will be skipped.`
+                : warningCount > 0
+                  ? `${warningCount} warning(s). Affected values will be repaired on import.`
+                  : 'The file can be imported without changes to your data.'}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="Close">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto max-h-64 mb-4">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr>
+              <th className="px-4 py-2 bg-gray-100 text-left text-xs font-medium text-gray-500 uppercase">Severity</th>
+              <th className="px-4 py-2 bg-gray-100 text-left text-xs font-medium text-gray-500 uppercase">Path</th>
+              <th className="px-4 py-2 bg-gray-100 text-left text-xs font-medium text-gray-500 uppercase">Issue</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {issues.map((issue, index) => (
+              <tr key={index}>
+                <td className="px-4 py-2 whitespace-nowrap text-sm">
+                  <span className={`px-2 py-0.5 rounded ${SEVERITY_STYLES[issue.severity]}`}>{issue.severity}</span>
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm font-mono text-gray-600">{issue.path}</td>
+                <td className="px-4 py-2 text-sm text-gray-900">{issue.message}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onClose}
+          className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300"
+        >
+          Cancel
+        </button>
+        {canImport && (
+          <button
+            onClick={onImport}
+            className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            {errorCount > 0 ? 'Import Valid Data' : 'Import'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportReportPanel;
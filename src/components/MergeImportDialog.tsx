@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { ProjectData } from '../services/api';
+import { getDefaultMergeOptions, MergeOptions } from '../services/projectMerge';
+
+interface MergeImportDialogProps {
+  projectData: ProjectData;
+  onMerge: (options: MergeOptions) => void;
+  onClose: () => void;
+}
+
+const MergeImportDialog: React.FC<MergeImportDialogProps> = ({ projectData, onMerge, onClose }) => {
+  const [options, setOptions] = useState<MergeOptions>(() => getDefaultMergeOptions(projectData));
+  // Kept as text so the fields can be cleared or hold a lone "-" while typing
+  const [offsetX, setOffsetX] = useState('0');
+  const [offsetY, setOffsetY] = useState('0');
+  const [rotation, setRotation] = useState('0');
+
+  const toggleRoom = (id: number) => {
+    setOptions(prev => ({
+      ...prev,
+      roomIds: prev.roomIds.includes(id) ? prev.roomIds.filter(roomId => roomId !== id) : [...prev.roomIds, id]
+    }));
+  };
+
+  const toggleRun = (id: number) => {
+    setOptions(prev => ({
+      ...prev,
+      runIds: prev.runIds.includes(id) ? prev.runIds.filter(runId => runId !== id) : [...prev.runIds, id]
+    }));
+  };
+
+  const toggleCamera = (index: number) => {
+    setOptions(prev => ({
+      ...prev,
+      cameraIndices: prev.cameraIndices.includes(index)
+        ? prev.cameraIndices.filter(i => i !== index)
+        : [...prev.cameraIndices, index]
+    }));
+  };
+
+  const handleMerge = () => {
+    onMerge({
+      ...options,
+      offset: { x: parseFloat(offsetX) || 0, y: parseFloat(offsetY) || 0 },
+      rotation: parseFloat(rotation) || 0
+    });
+  };
+
+  const isEmpty = options.roomIds.length === 0 && options.runIds.length === 0 &&
+    options.cameraIndices.length === 0 && !options.cameraPath;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg p-4 w-full max-w-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Merge Into Current Design</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto max-h-80 mb-4">
+          <h3 className="text-sm font-medium text-gray-700 mb-1">Rooms</h3>
+          {projectData.rooms.length === 0 && <p className="text-sm text-gray-500 mb-2">No rooms in this file</p>}
+          {projectData.rooms.map(room => (
+            <label key={room.id} className="flex items-center gap-2 text-sm mb-1">
+              <input
+                type="checkbox"
+                checked={options.roomIds.includes(room.id)}
+                onChange={() => toggleRoom(room.id)}
+              />
+              {room.isMain ? 'Main room' : `Room ${room.id}`}
+              <span className="text-gray-500">({room.points.x.length} corners)</span>
+            </label>
+          ))}
+
+          <h3 className="text-sm font-medium text-gray-700 mt-3 mb-1">Cabinet Runs</h3>
+          {projectData.cabinetRuns.length === 0 && <p className="text-sm text-gray-500 mb-2">No cabinet runs in this file</p>}
+          {projectData.cabinetRuns.map(run => (
+            <label key={run.id} className="flex items-center gap-2 text-sm mb-1">
+              <input
+                type="checkbox"
+                checked={options.runIds.includes(run.id)}
+                onChange={() => toggleRun(run.id)}
+              />
+              Run {run.id} - {run.type}, {Math.round(run.dimensions.length)}mm
+              <span className="text-gray-500">
+                ({projectData.cabinets.filter(cabinet => cabinet.cabinet_run_id === run.id).length} cabinets)
+              </span>
+            </label>
+          ))}
+
+          {(projectData.cameras.length > 0 || projectData.cameraPath) && (
+            <h3 className="text-sm font-medium text-gray-700 mt-3 mb-1">Cameras</h3>
+          )}
+          {projectData.cameras.map((shot, index) => (
+            <label key={index} className="flex items-center gap-2 text-sm mb-1">
+              <input
+                type="checkbox"
+                checked={options.cameraIndices.includes(index)}
+                onChange={() => toggleCamera(index)}
+              />
+              {shot.name}
+            </label>
+          ))}
+          {projectData.cameraPath && (
+            <label className="flex items-center gap-2 text-sm mb-1">
+              <input
+                type="checkbox"
+                checked={options.cameraPath}
+                onChange={(e) => setOptions(prev => ({ ...prev, cameraPath: e.target.checked }))}
+              />
+              Camera path
+              <span className="text-gray-500">({projectData.cameraPath.keyframes.length} keyframes, only used if this design has none)</span>
+            </label>
+          )}
+        </div>
+
+        <p className="mb-2 text-sm text-gray-600">
+          Imported rooms are added as secondary rooms. Runs lose their wall snap if that room isn't imported.
+        </p>
+
+        <div className="grid grid-cols-3 gap-2 mb-4">
+          <label className="text-sm font-medium text-gray-700">
+            Offset X (mm)
+            <input
+              type="number"
+              value={offsetX}
+              onChange={(e) => setOffsetX(e.target.value)}
+              className="w-full mt-1 px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <label className="text-sm font-medium text-gray-700">
+            Offset Y (mm)
+            <input
+              type="number"
+              value={offsetY}
+              onChange={(e) => setOffsetY(e.target.value)}
+              className="w-full mt-1 px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <label className="text-sm font-medium text-gray-700">
+            Rotation (°)
+            <input
+              type="number"
+              step={90}
+              value={rotation}
+              onChange={(e) => setRotation(e.target.value)}
+              className="w-full mt-1 px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={isEmpty}
+            className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeImportDialog;
@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { Point } from '../services/api';
+import { convertPlanOutlines, ParsedPlan, PLAN_UNIT_TO_MM, PlanUnit } from '../services/planImport';
+
+type OutlineRole = 'ignore' | 'main' | 'secondary';
+
+interface PlanImportDialogProps {
+  fileName: string;
+  plan: ParsedPlan;
+  hasMainRoom: boolean; // Secondary rooms can only be added to a completed main room
+  onImport: (mainRoom: Point[] | null, secondaryRooms: Point[][]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_SIZE_px = 320;
+
+const ROLE_COLORS: Record<OutlineRole, string> = {
+  ignore: '#cbd5e1',
+  main: '#2563eb',
+  secondary: '#10b981'
+};
+
+const PlanImportDialog: React.FC<PlanImportDialogProps> = ({ fileName, plan, hasMainRoom, onImport, onClose }) => {
+  const [unit, setUnit] = useState<PlanUnit>(plan.unit ?? 'mm');
+  const [scale, setScale] = useState('1');
+  const [moveToOrigin, setMoveToOrigin] = useState(true);
+  const [roles, setRoles] = useState<Record<number, OutlineRole>>({});
+
+  const scaleValue = parseFloat(scale) > 0 ? parseFloat(scale) : 1;
+  const outlines = useMemo(
+    () => convertPlanOutlines(plan.outlines, unit, scaleValue, moveToOrigin),
+    [plan, unit, scaleValue, moveToOrigin]
+  );
+
+  const getRole = (id: number): OutlineRole => roles[id] ?? 'ignore';
+
+  // Only one outline can be the main room
+  const setRole = (id: number, role: OutlineRole) => {
+    setRoles(prev => {
+      const next = { ...prev };
+      if (role === 'main') {
+        Object.keys(next).forEach(key => {
+          if (next[Number(key)] === 'main') next[Number(key)] = 'secondary';
+        });
+      }
+      next[id] = role;
+      return next;
+    });
+  };
+
+  const mainOutline = outlines.find(outline => getRole(outline.id) === 'main');
+  const secondaryOutlines = outlines.filter(outline => getRole(outline.id) === 'secondary');
+  const canImport = Boolean(mainOutline) || (secondaryOutlines.length > 0 && hasMainRoom);
+
+  // Fit all outlines into the preview, y up
+  const allPoints = outlines.flatMap(outline => outline.points);
+  const minX = Math.min(...allPoints.map(p => p.x));
+  const maxX = Math.max(...allPoints.map(p => p.x));
+  const minY = Math.min(...allPoints.map(p => p.y));
+  const maxY = Math.max(...allPoints.map(p => p.y));
+  const previewScale = (PREVIEW_SIZE_px - 20) / Math.max(maxX - minX, maxY - minY, 1);
+  const toPreview = (point: Point) =>
+    `${10 + (point.x - minX) * previewScale},${PREVIEW_SIZE_px - 10 - (point.y - minY) * previewScale}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg p-4 w-full max-w-3xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Import Plan: {fileName}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex gap-4 mb-4">
+          <svg
+            width={PREVIEW_SIZE_px}
+            height={PREVIEW_SIZE_px}
+            className="border border-gray-300 rounded bg-gray-50 flex-shrink-0"
+          >
+            {outlines.map(outline => (
+              <polygon
+                key={outline.id}
+                points={outline.points.map(toPreview).join(' ')}
+                fill={getRole(outline.id) === 'ignore' ? 'none' : ROLE_COLORS[getRole(outline.id)]}
+                fillOpacity={0.2}
+                stroke={ROLE_COLORS[getRole(outline.id)]}
+                strokeWidth={2}
+                className="cursor-pointer"
+                onClick={() => setRole(outline.id, getRole(outline.id) === 'ignore' ? 'secondary' : 'ignore')}
+              />
+            ))}
+          </svg>
+
+          <div className="flex-1">
+            <div className="grid grid-cols-2 gap-2 mb-2">
+              <label className="text-sm font-medium text-gray-700">
+                File units
+                <select
+                  value={unit}
+                  onChange={(e) => setUnit(e.target.value as PlanUnit)}
+                  className="w-full mt-1 px-2 py-1 border border-gray-300 rounded"
+                >
+                  {Object.keys(PLAN_UNIT_TO_MM).map(key => (
+                    <option key={key} value={key}>{key}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm font-medium text-gray-700">
+                Scale factor
+                <input
+                  type="number"
+                  min={0}
+                  value={scale}
+                  onChange={(e) => setScale(e.target.value)}
+                  title="Multiplier for drawings at scale, e.g. 50 for a 1:50 drawing"
+                  className="w-full mt-1 px-2 py-1 border border-gray-300 rounded"
+                />
+              </label>
+            </div>
+            <label className="flex items-center gap-2 text-sm mb-3">
+              <input
+                type="checkbox"
+                checked={moveToOrigin}
+                onChange={(e) => setMoveToOrigin(e.target.checked)}
+              />
+              Move plan to the origin
+            </label>
+
+            <div className="overflow-y-auto max-h-48">
+              {outlines.map(outline => (
+                <div key={outline.id} className="flex items-center justify-between gap-2 text-sm mb-1">
+                  <span>
+                    <span className="inline-block w-3 h-3 mr-2 rounded" style={{ backgroundColor: ROLE_COLORS[getRole(outline.id)] }} />
+                    {outline.label}
+                    <span className="text-gray-500"> ({outline.points.length} corners)</span>
+                  </span>
+                  <select
+                    value={getRole(outline.id)}
+                    onChange={(e) => setRole(outline.id, e.target.value as OutlineRole)}
+                    className="px-2 py-0.5 border border-gray-300 rounded"
+                  >
+                    <option value="ignore">Ignore</option>
+                    <option value="main">Main room</option>
+                    <option value="secondary">Secondary room</option>
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <p className="mb-4 text-sm text-gray-600">
+          {mainOutline
+            ? 'The imported rooms replace the current design.'
+            : hasMainRoom
+              ? 'Secondary rooms are added to the current design.'
+              : 'Pick a main room. Secondary rooms need one to attach to.'}
+        </p>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport(mainOutline?.points ?? null, secondaryOutlines.map(outline => outline.points))}
+            disabled={!canImport}
+            className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlanImportDialog;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { PAPER_SIZES_MM, PaperSize, PLAN_SCALES } from '../services/pdfExport';
+
+export interface PlanPdfSettings {
+  paperSize: PaperSize;
+  orientation: 'portrait' | 'landscape';
+  scale: number | null; // null fits the plan on one sheet
+}
+
+interface PlanPdfDialogProps {
+  onExport: (settings: PlanPdfSettings) => void;
+  onClose: () => void;
+}
+
+const PlanPdfDialog: React.FC<PlanPdfDialogProps> = ({ onExport, onClose }) => {
+  const [settings, setSettings] = useState<PlanPdfSettings>({ paperSize: 'A3', orientation: 'landscape', scale: 50 });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg p-4 w-full max-w-md"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Export Plan as PDF</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 mb-2">
+          <label className="text-sm font-medium text-gray-700">
+            Paper size
+            <select
+              value={settings.paperSize}
+              onChange={(e) => setSettings(prev => ({ ...prev, paperSize: e.target.value as PaperSize }))}
+              className="w-full mt-1 px-2 py-1 border border-gray-300 rounded"
+            >
+              {Object.keys(PAPER_SIZES_MM).map(size => (
+                <option key={size} value={size}>{size}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm font-medium text-gray-700">
+            Orientation
+            <select
+              value={settings.orientation}
+              onChange={(e) => setSettings(prev => ({ ...prev, orientation: e.target.value as PlanPdfSettings['orientation'] }))}
+              className="w-full mt-1 px-2 py-1 border border-gray-300 rounded"
+            >
+              <option value="landscape">Landscape</option>
+              <option value="portrait">Portrait</option>
+            </select>
+          </label>
+        </div>
+
+        <label className="text-sm font-medium text-gray-700">
+          Scale
+          <select
+            value={settings.scale ?? 'fit'}
+            onChange={(e) => setSettings(prev => ({ ...prev, scale: e.target.value === 'fit' ? null : Number(e.target.value) }))}
+            className="w-full mt-1 mb-2 px-2 py-1 border border-gray-300 rounded"
+          >
+            <option value="fit">Fit to one sheet</option>
+            {PLAN_SCALES.map(scale => (
+              <option key={scale} value={scale}>1:{scale}</option>
+            ))}
+          </select>
+        </label>
+
+        <p className="mb-4 text-sm text-gray-600">
+          Plans that don't fit one sheet at the chosen scale are split over several sheets.
+        </p>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onExport(settings)}
+            className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Export PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlanPdfDialog;
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Image, Search, X } from 'lucide-react';
+import { projectApi, ProjectSummary } from '../services/api';
+
+interface ProjectBrowserProps {
+  onOpen: (projectId: number) => void;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 10;
+
+const ProjectBrowser: React.FC<ProjectBrowserProps> = ({ onOpen, onClose }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload the list whenever the page or search text changes
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    // Wait for a pause in typing before searching
+    const timeout = setTimeout(() => {
+      projectApi.listProjects({ page, pageSize: PAGE_SIZE, search })
+        .then(response => {
+          if (cancelled) return;
+          setProjects(response.items);
+          setTotal(response.total);
+        })
+        .catch(err => {
+          if (cancelled) return;
+          console.error('Error loading projects:', err);
+          setError('Could not load projects from the server.');
+        })
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [page, search]);
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg p-4 w-full max-w-3xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Open Project</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 mb-4 px-2 py-1 border border-gray-300 rounded">
+          <Search size={16} className="text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            placeholder="Search by name or address"
+            className="w-full focus:outline-none"
+            autoFocus
+          />
+        </div>
+
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+        <div className="overflow-y-auto max-h-[60vh]">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                <th className="px-4 py-2 bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase"></th>
+                <th className="px-4 py-2 bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                <th className="px-4 py-2 bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase">Address</th>
+                <th className="px-4 py-2 bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase">Last Modified</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {projects.map(project => (
+                <tr
+                  key={project.id}
+                  onClick={() => onOpen(project.id)}
+                  className="cursor-pointer hover:bg-amber-50"
+                >
+                  <td className="px-4 py-2">
+                    {project.thumbnail ? (
+                      <img src={project.thumbnail} alt="" className="w-24 h-12 object-contain border border-gray-200 rounded" />
+                    ) : (
+                      <div className="w-24 h-12 flex items-center justify-center border border-gray-200 rounded text-gray-300">
+                        <Image size={16} />
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-sm font-medium text-gray-900">{project.name}</td>
+                  <td className="px-4 py-2 text-sm text-gray-500">{project.address || '-'}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(project.updated_at).toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {!isLoading && !error && projects.length === 0 && (
+            <p className="py-4 text-center text-gray-500">
+              {search ? 'No projects match your search.' : 'No projects have been saved yet.'}
+            </p>
+          )}
+          {isLoading && <p className="py-4 text-center text-gray-500">Loading...</p>}
+        </div>
+
+        <div className="flex justify-between items-center mt-4 text-sm text-gray-600">
+          <span>{total} project{total === 1 ? '' : 's'}</span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <span>Page {page} of {pageCount}</span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pageCount}
+              className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronRight size={16} />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectBrowser;
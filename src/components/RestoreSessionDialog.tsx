@@ -0,0 +1,87 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { AutosaveSnapshot } from '../services/autosave';
+
+interface RestoreSessionDialogProps {
+  snapshots: AutosaveSnapshot[];
+  onRestore: (snapshot: AutosaveSnapshot) => void;
+  onDiscard: () => void;
+  onClose: () => void;
+}
+
+const RestoreSessionDialog: React.FC<RestoreSessionDialogProps> = ({ snapshots, onRestore, onDiscard, onClose }) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg p-4 w-full max-w-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-xl font-semibold">Restore Autosaved Design</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+        <p className="mb-4 text-sm text-gray-600">
+          Your design is saved in this browser while you work. Pick a snapshot to restore it.
+        </p>
+
+        <div className="overflow-y-auto max-h-[60vh]">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                <th className="px-4 py-2 bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase">Saved</th>
+                <th className="px-4 py-2 bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase">Project</th>
+                <th className="px-4 py-2 bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase">Contents</th>
+                <th className="px-4 py-2 bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {snapshots.map(snapshot => (
+                <tr key={snapshot.savedAt}>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                    {new Date(snapshot.savedAt).toLocaleString()}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-500">
+                    {snapshot.serverProject?.name || snapshot.data.address || 'Unsaved project'}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                    {snapshot.data.rooms.length} rooms, {snapshot.data.cabinetRuns.length} runs, {snapshot.data.cabinets.length} cabinets
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={() => onRestore(snapshot)}
+                      className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+                    >
+                      Restore
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {snapshots.length === 0 && (
+            <p className="py-4 text-center text-gray-500">Nothing has been autosaved yet.</p>
+          )}
+        </div>
+
+        <div className="flex justify-between mt-4">
+          <button
+            onClick={onDiscard}
+            className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700"
+          >
+            Delete Autosaves
+          </button>
+          <button
+            onClick={onClose}
+            className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300"
+          >
+            Keep Current Design
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RestoreSessionDialog;
@@ -1,6 +1,71 @@
-import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { Copy, DoorOpen, Square, Save, BookmarkPlus } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { Copy, DoorOpen, Square, Save, BookmarkPlus, Undo2, Redo2, FolderOpen, UploadCloud, History, Download, FileInput, Route, Boxes } from 'lucide-react';
 import ContextMenu from './ContextMenu';
+import ProjectBrowser from './ProjectBrowser';
+import SaveProjectDialog, { SaveMode } from './SaveProjectDialog';
+import RestoreSessionDialog from './RestoreSessionDialog';
+import ImportReportPanel from './ImportReportPanel';
+import ImportModeDialog, { ImportMode } from './ImportModeDialog';
+import MergeImportDialog from './MergeImportDialog';
+import PlanImportDialog from './PlanImportDialog';
+import PlanPdfDialog, { PlanPdfSettings } from './PlanPdfDialog';
+import CabinetElevationPanel from './CabinetElevationPanel';
+import ScenePreviewPanel from './ScenePreviewPanel';
+import CameraPathPanel from './CameraPathPanel';
+import CustomCabinetDialog from './CustomCabinetDialog';
+import FillRunDialog from './FillRunDialog';
+import CountertopPanel from './CountertopPanel';
+import { catalogApi, projectApi, ExportedCabinet, ExportedCamera, ExportedCameraPath, ExportedBacksplash, ExportedCameraShot, ExportedCountertop, Project, ProjectConflictError, ProjectData } from '../services/api';
+import { AutosaveSnapshot, clearAutosaves, loadAutosaves, writeAutosave } from '../services/autosave';
+import { CURRENT_SCHEMA_VERSION, migrateProjectData, RawProjectData } from '../services/projectMigrations';
+import { validateProjectData, ValidationIssue, ValidationResult } from '../services/projectValidation';
+import { ExportTarget, parseProjectFile, serializeProjectFile } from '../services/projectFormat';
+import { MergeOptions, prepareMergeData } from '../services/projectMerge';
+import { buildPlanEntities, PlanSource } from '../services/planDrawing';
+import { buildDxf } from '../services/dxfExport';
+import { ParsedPlan, parsePlanFile } from '../services/planImport';
+import { VectorRecorder } from '../services/vectorRecorder';
+import { buildSvg } from '../services/svgExport';
+import { buildPlanPdf } from '../services/pdfExport';
+import { ElevationCabinet, ElevationOpening, getRunCabinetTop, RunElevation } from '../services/cabinetElevation';
+import { buildSceneFaces, SceneCamera } from '../services/scenePreview';
+import {
+  DEFAULT_SENSOR_WIDTH_mm,
+  FrameTarget,
+  getAimRotation,
+  getAutoFrame,
+  getHorizontalFov,
+  getViewBlockingWalls,
+  getViewPolygon,
+  isPointInView,
+  ViewCamera
+} from '../services/cameraView';
+import {
+  CameraPath,
+  DEFAULT_FRAME_RATE,
+  DEFAULT_KEYFRAME_SPACING_s,
+  getCameraAtTime,
+  samplePath,
+  sortKeyframes
+} from '../services/cameraPath';
+import {
+  CabinetCatalog,
+  CabinetPlanTemplate,
+  CabinetTypeDefinition,
+  clampCabinetWidth,
+  getCabinetDefinition,
+  getCabinetMaterials,
+  getCatalogTypeNames,
+  getCountertopCutout,
+  isSameCabinetType,
+  loadCabinetCatalog,
+  withCustomCabinetTypes
+} from '../services/cabinetCatalog';
+import { DEFAULT_CABINET_CATALOG } from '../services/defaultCabinetCatalog';
+import { buildCountertops, CountertopRun, CountertopSettings, CountertopSlab, DEFAULT_COUNTERTOP_SETTINGS } from '../services/countertops';
+import { Backsplash, BacksplashRun, buildBacksplashes, getBacksplashByWall } from '../services/backsplash';
+import { LayoutCabinet } from '../services/runLayout';
+import { FillerWidths, FitCabinet, getFittedFillers, getRunFitStatus, getScaledCabinetWidths, RUN_FIT_MODES, RunFitMode, RunFitStatus } from '../services/runFit';
 
 // Room management interfaces
 interface Room {
@@ -86,6 +151,8 @@ interface CabinetRun {
   omit_backsplash: boolean;
   start_connect?: number; // New property to connect to another run
   end_connect?: number;   // New property to connect to another run
+  fit_mode?: RunFitMode; // How a length change is fitted, 'flag' if not set
+  filler_widths?: FillerWidths; // Widened wall end fillers, set by the 'fillers' fit mode
   
   // Optional snap status for visual feedback only
   snapInfo?: {
@@ -171,6 +238,43 @@ interface Cabinet {
   floating_shelf_vert_spacing?: number;
 }
 
+interface CameraState {
+  position: Point; // X,Y coordinates
+  rotation: number;
+  isDragging: boolean;
+  isRotating: boolean;
+  focalLength: number; // Focal length in mm
+  height: number; // Z position in mm
+  shiftY: number; // New property for vertical shift
+}
+
+interface FocalPointState {
+  position: Point;
+  isDragging: boolean;
+  height: number;
+}
+
+// A named camera set up for one render, with the point it looks at
+interface CameraShot {
+  id: string;
+  name: string;
+  camera: CameraState;
+  focalPoint: FocalPointState | null;
+  aimAtFocalPoint: boolean; // Keep the camera turned toward the focal point
+}
+
+// Everything the undo/redo history restores
+interface HistorySnapshot {
+  rooms: Room[];
+  cabinetRuns: CabinetRun[];
+  cabinets: Cabinet[];
+  cameraShots: CameraShot[];
+  activeShotId: string | null;
+  cameraPath: CameraPath;
+  customCabinetTypes: CabinetTypeDefinition[];
+  countertopSettings: CountertopSettings;
+}
+
 const POINT_RADIUS = 5;
 const DOOR_POINT_RADIUS = 4;
 const WINDOW_POINT_RADIUS = 4;
@@ -184,6 +288,18 @@ const DEFAULT_WINDOW_WIDTH = 1000;
 const DEFAULT_WINDOW_HEIGHT = 1200;
 const DEFAULT_WINDOW_SILL_HEIGHT = 915;
 
+// Defaults for new rooms and doors, also used when a loaded file leaves a value out
+const DEFAULT_ROOM_HEIGHT = 2438;
+const DEFAULT_WALL_THICKNESS = 200;
+const DEFAULT_WALL_MATERIAL = "Simple Wall Material";
+const DEFAULT_FLOOR_MATERIAL = "Laminate_Standard";
+const DEFAULT_CEILING_MATERIAL = "Simple Wall Material";
+const DEFAULT_DOOR_HEIGHT = 2032;
+const DEFAULT_DOOR_FRAME_THICKNESS = 20;
+const DEFAULT_DOOR_FRAME_WIDTH = 100;
+const DEFAULT_DOOR_MATERIAL = "PaintGrade_Trim";
+const DEFAULT_CABINET_MATERIAL = "PaintGrade";
+
 const CANVAS_WIDTH_MM = 10000;
 const CANVAS_HEIGHT_MM = 6000;
 const CANVAS_WIDTH_px = 1200;
@@ -204,6 +320,77 @@ const SNAP_ROTATION_INCREMENT = 0.01; // Snap rotation to 90-degree increments
 
 const FILLER_WIDTH = 50; // 50mm filler width
 
+// Filler widths at the run's ends, 0 where the end isn't against a wall
+const getRunFillerWidths = (run: Pick<CabinetRun, 'start_type' | 'end_type' | 'filler_widths'>): FillerWidths => ({
+  start: run.start_type === 'Wall' ? run.filler_widths?.start ?? FILLER_WIDTH : 0,
+  end: run.end_type === 'Wall' ? run.filler_widths?.end ?? FILLER_WIDTH : 0
+});
+
+// Text and colours of a run's fit status badge
+const getFitBadge = (status: RunFitStatus) => {
+  switch (status.state) {
+    case 'fits':
+      return { text: 'fits', className: 'bg-green-100 text-green-800' };
+    case 'gap':
+      return { text: `gap ${Math.round(status.difference)}mm`, className: 'bg-yellow-100 text-yellow-800' };
+    case 'overLength':
+      return { text: `${Math.round(-status.difference)}mm over length`, className: 'bg-red-100 text-red-800' };
+    default:
+      return { text: 'no cabinets', className: 'bg-gray-100 text-gray-600' };
+  }
+};
+
+const MAX_VIEW_DISTANCE_MM = 20000; // How far the camera's view wedge reaches where no wall stops it
+
+const EMPTY_CAMERA_PATH: CameraPath = { keyframes: [], frameRate: DEFAULT_FRAME_RATE, duration: 0 };
+const PATH_SAMPLE_STEP_s = 0.1; // Spacing of the points drawn along the camera path
+
+// Auto-frame constants
+const DEFAULT_FRAME_MARGIN = 0.05; // Fraction of the image left free on each side
+const FRAME_MIN_FOCAL_LENGTH = 12;
+const FRAME_MAX_FOCAL_LENGTH = 50;
+const FRAME_WALL_CLEARANCE = 300; // mm between the camera and the wall behind it
+
+// Undo/redo history constants
+const MAX_HISTORY_ENTRIES = 100;
+const HISTORY_MERGE_WINDOW_MS = 500; // Changes closer together than this become one entry
+
+const THUMBNAIL_WIDTH_px = 240; // Width of the plan preview stored with server projects
+const AUTOSAVE_DELAY_MS = 3000; // Autosave once edits have paused this long
+
+
+// Serialize the undoable part of the design, leaving out transient drag flags
+const serializeHistorySnapshot = (snapshot: HistorySnapshot): string => {
+  return JSON.stringify({
+    ...snapshot,
+    cameraShots: snapshot.cameraShots.map(shot => ({
+      ...shot,
+      camera: { ...shot.camera, isDragging: false, isRotating: false },
+      focalPoint: shot.focalPoint ? { ...shot.focalPoint, isDragging: false } : null
+    }))
+  });
+};
+
+// Shot ids are "camera-N"
+const getNextShotId = (shots: CameraShot[]) =>
+  `camera-${Math.max(0, ...shots.map(shot => parseInt(shot.id.replace('camera-', '')) || 0)) + 1}`;
+
+// State compared against the last save to tell whether there are unsaved changes
+const serializeSavedProjectState = (address: string, snapshot: HistorySnapshot): string => {
+  return JSON.stringify([address, serializeHistorySnapshot(snapshot)]);
+};
+
+// Height range of a cabinet in front elevation, from the floor
+const getCabinetElevationExtent = (cabinet: Cabinet, definition: CabinetTypeDefinition): { bottom: number, top: number } => {
+  const bottom = definition.mountHeight;
+  if (definition.template.floatingShelf) {
+    const top = bottom +
+      ((cabinet.floating_shelf_num || 1) - 1) * (cabinet.floating_shelf_vert_spacing || 350) +
+      (cabinet.floating_shelf_height || 100);
+    return { bottom, top };
+  }
+  return { bottom, top: bottom + definition.defaultHeight };
+};
 
 const RoomDesigner: React.FC = () => {
   const [rooms, setRooms] = useState<Room[]>([]);
@@ -259,7 +446,18 @@ const RoomDesigner: React.FC = () => {
   const [newCabinetType, setNewCabinetType] = useState<string>('');
   const [newCabinetWidth, setNewCabinetWidth] = useState<number>(600); // Default width
   const [newCabinetHingeRight, setNewCabinetHingeRight] = useState<boolean>(true);
-  const [newCabinetMaterial, setNewCabinetMaterial] = useState<string>('PaintGrade');
+  const [newCabinetMaterial, setNewCabinetMaterial] = useState<string>(DEFAULT_CABINET_MATERIAL);
+  const [shopCatalog, setShopCatalog] = useState<CabinetCatalog>(DEFAULT_CABINET_CATALOG);
+  const [customCabinetTypes, setCustomCabinetTypes] = useState<CabinetTypeDefinition[]>([]);
+  const [isCustomCabinetDialogOpen, setIsCustomCabinetDialogOpen] = useState(false);
+  const [fillRunId, setFillRunId] = useState<number | null>(null); // Run the fill dialog is open for
+  const [countertopSettings, setCountertopSettings] = useState<CountertopSettings>(DEFAULT_COUNTERTOP_SETTINGS);
+  const [showCountertops, setShowCountertops] = useState(true);
+  // Everything the designer knows about cabinet types, including this project's own
+  const cabinetCatalog = useMemo(
+    () => withCustomCabinetTypes(shopCatalog, customCabinetTypes),
+    [shopCatalog, customCabinetTypes]
+  );
   const True = true;
   const False = false;
   const [editingRoomHeights, setEditingRoomHeights] = useState<{ [key: string]: string }>({});
@@ -269,27 +467,73 @@ const RoomDesigner: React.FC = () => {
   const [editingFloorMaterial, setEditingFloorMaterial] = useState<{ [key: string]: string }>({});
   const [editingCeilingMaterial, setEditingCeilingMaterial] = useState<{ [key: string]: string }>({});
   const [isAddingCamera, setIsAddingCamera] = useState(false);
-  const [camera, setCamera] = useState<{
-    position: Point; // X,Y coordinates
-    rotation: number;
-    isDragging: boolean;
-    isRotating: boolean;
-    focalLength: number; // Focal length in mm
-    height: number; // Z position in mm
-    shiftY: number; // New property for vertical shift
-  } | null>(null);
-  const [focalPoint, setFocalPoint] = useState<{
-    position: Point;
-    isDragging: boolean;
-    height: number;
-  } | null>(null);
+  const [cameraShots, setCameraShots] = useState<CameraShot[]>([]);
+  const [activeShotId, setActiveShotId] = useState<string | null>(null);
+  const [cameraPath, setCameraPath] = useState<CameraPath>(EMPTY_CAMERA_PATH);
+  const [isAddingKeyframes, setIsAddingKeyframes] = useState(false);
+  const [pathPreviewTime, setPathPreviewTime] = useState<number | null>(null);
+  const [sensorWidth, setSensorWidth] = useState(DEFAULT_SENSOR_WIDTH_mm); // Must match the renderer's camera sensor
+  const [frameTarget, setFrameTarget] = useState('room'); // 'room' or a cabinet run id
+  const [frameMargin, setFrameMargin] = useState(DEFAULT_FRAME_MARGIN);
   const [isAddingFocalPoint, setIsAddingFocalPoint] = useState(false);
   const [projectAddress, setProjectAddress] = useState<string>("");
   // const [editingCabinetWidths, setEditingCabinetWidths] = useState<{ [key: string]: string }>({});
   // const [editingNewCabinetWidth, setEditingNewCabinetWidth] = useState(null);
   const [editingNewCabinetWidth, setEditingNewCabinetWidth] = useState('');
   const [editingCabinetWidths, setEditingCabinetWidths] = useState<{ [key: string]: string }>({});
+  // Undo/redo history - snapshots are kept serialized so later edits can't leak into them
+  const undoStackRef = useRef<string[]>([]);
+  const redoStackRef = useRef<string[]>([]);
+  const historyBaselineRef = useRef<string | null>(null); // Snapshot of the design as last recorded
+  const lastHistoryChangeRef = useRef<number>(0);
+  const historyRestoreUntilRef = useRef<number>(0);
+  const [historyCounts, setHistoryCounts] = useState({ undo: 0, redo: 0 });
+  // Server project currently open, and whether the design changed since it was saved/opened
+  const [serverProject, setServerProject] = useState<{ id: number, name: string, version: number } | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const savedProjectStateRef = useRef<string | null>(null);
+  const currentProjectStateRef = useRef<string | null>(null); // The design as last compared against the saved state
+  const savedProjectStateResetUntilRef = useRef<number>(0);
+  const [isProjectBrowserOpen, setIsProjectBrowserOpen] = useState(false);
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+  const [isSavingProject, setIsSavingProject] = useState(false);
+  // Autosave snapshots offered for restore. Autosaving waits until this dialog is closed
+  const [restoreSnapshots, setRestoreSnapshots] = useState<AutosaveSnapshot[] | null>(() => {
+    const snapshots = loadAutosaves();
+    return snapshots.length > 0 ? snapshots : null;
+  });
+  const autosaveRef = useRef<() => void>(() => {});
+  const [exportTarget, setExportTarget] = useState<ExportTarget>('python'); // Format used by Export JSON
+  // Issues found in data being loaded, waiting for the user to import or cancel
+  const [importReport, setImportReport] = useState<{
+    issues: ValidationIssue[];
+    canImport: boolean;
+    onImport: () => void;
+  } | null>(null);
+  // Parsed file waiting for the user to choose between replacing and merging
+  const [pendingImport, setPendingImport] = useState<{ fileName: string, projectData: unknown } | null>(null);
+  // Validated data waiting in the merge dialog for the user to pick entities and placement
+  const [mergeCandidate, setMergeCandidate] = useState<{ projectData: ProjectData, onLoaded?: () => void } | null>(null);
+  // DXF/SVG plan waiting in the plan import dialog
+  const [planImport, setPlanImport] = useState<{ fileName: string, plan: ParsedPlan } | null>(null);
+  const [isPdfDialogOpen, setIsPdfDialogOpen] = useState(false);
+
+  // The camera and focal point on the plan are those of the active shot
+  const activeShot = cameraShots.find(shot => shot.id === activeShotId) ?? null;
+  const camera = activeShot ? activeShot.camera : null;
+  const focalPoint = activeShot ? activeShot.focalPoint : null;
+  const isAimLocked = !!focalPoint && !!activeShot?.aimAtFocalPoint;
+
+  // Passing null removes the active shot
+  const setCamera = (newCamera: CameraState | null) => {
+    setCameraShots(prev => newCamera
+      ? prev.map(shot => shot.id === activeShotId ? { ...shot, camera: newCamera } : shot)
+      : prev.filter(shot => shot.id !== activeShotId));
+  };
 
+  const setFocalPoint = (newFocalPoint: FocalPointState | null) => {
+    setCameraShots(prev => prev.map(shot => shot.id === activeShotId ? { ...shot, focalPoint: newFocalPoint } : shot));
+  };
 
 
 
@@ -306,17 +550,35 @@ const RoomDesigner: React.FC = () => {
         windows: [],
         isComplete: false,
         isMain: true,
-        height: 2438, // Default height in mm
-        wall_thickness: 200, // Default wall thickness in mm
-        wall_material: "Simple Wall Material", // Default wall material
-        floor_material: "Laminate_Standard", // Default floor material
-        ceiling_material: "Simple Wall Material" // Default ceiling material
+        height: DEFAULT_ROOM_HEIGHT, // Default height in mm
+        wall_thickness: DEFAULT_WALL_THICKNESS, // Default wall thickness in mm
+        wall_material: DEFAULT_WALL_MATERIAL, // Default wall material
+        floor_material: DEFAULT_FLOOR_MATERIAL, // Default floor material
+        ceiling_material: DEFAULT_CEILING_MATERIAL // Default ceiling material
       };
       setRooms([mainRoom]);
       setActiveRoomId('main');
     }
   }, []);
 
+  // Use the shop's cabinet catalog if the server has one
+  useEffect(() => {
+    catalogApi.getCatalog()
+      .then(rawCatalog => {
+        if (rawCatalog === null) return;
+        const { catalog, issues } = loadCabinetCatalog(rawCatalog);
+        issues.forEach(issue => console.warn(`Cabinet catalog ${issue.severity} at ${issue.path}: ${issue.message}`));
+        if (catalog) {
+          setShopCatalog(catalog);
+        } else {
+          alert('The cabinet catalog on the server could not be used, using the built-in cabinet types instead. See the console for details.');
+        }
+      })
+      .catch(error => {
+        console.error('Error loading cabinet catalog:', error);
+      });
+  }, []);
+
   useEffect(() => {
     if (!isDragging && lastDraggedPointRef.current) {
       const point = lastDraggedPointRef.current;
@@ -359,6 +621,150 @@ const RoomDesigner: React.FC = () => {
     };
   }, [canvasRef.current]); // Only re-run if the canvas ref changes
 
+  // Drags, resizes and camera moves are only recorded once they finish
+  const isInteracting = isDragging || isPanning || draggedRun !== null || resizingRun !== null ||
+    !!camera?.isDragging || !!camera?.isRotating || !!focalPoint?.isDragging;
+
+  // Record an undo entry whenever the design changes
+  useEffect(() => {
+    if (isInteracting) {
+      // Make sure the finished drag starts its own entry
+      lastHistoryChangeRef.current = 0;
+      return;
+    }
+    // Nothing worth undoing before the main room has been created
+    if (rooms.length === 0) return;
+
+    const current = serializeHistorySnapshot({ rooms, cabinetRuns, cabinets, cameraShots, activeShotId, cameraPath, customCabinetTypes, countertopSettings });
+    const baseline = historyBaselineRef.current;
+    if (current === baseline) return;
+    historyBaselineRef.current = current;
+
+    // Follow-up updates triggered by an undo/redo belong to that undo/redo
+    const now = Date.now();
+    if (baseline === null || now < historyRestoreUntilRef.current) return;
+
+    // Changes in quick succession (typing, effects reacting to an edit) merge into one entry
+    if (now - lastHistoryChangeRef.current > HISTORY_MERGE_WINDOW_MS) {
+      undoStackRef.current = [...undoStackRef.current, baseline].slice(-MAX_HISTORY_ENTRIES);
+    }
+    lastHistoryChangeRef.current = now;
+    redoStackRef.current = [];
+    setHistoryCounts({ undo: undoStackRef.current.length, redo: 0 });
+  }, [rooms, cabinetRuns, cabinets, cameraShots, activeShotId, cameraPath, customCabinetTypes, countertopSettings, isInteracting]);
+
+  const restoreHistorySnapshot = useCallback((serialized: string) => {
+    const snapshot: HistorySnapshot = JSON.parse(serialized);
+    historyBaselineRef.current = serialized;
+    historyRestoreUntilRef.current = Date.now() + HISTORY_MERGE_WINDOW_MS;
+    lastHistoryChangeRef.current = 0;
+
+    setRooms(snapshot.rooms);
+    setCabinetRuns(snapshot.cabinetRuns);
+    setCabinets(snapshot.cabinets);
+    setCameraShots(snapshot.cameraShots);
+    setActiveShotId(snapshot.activeShotId);
+    setCameraPath(snapshot.cameraPath);
+    setCustomCabinetTypes(snapshot.customCabinetTypes);
+    setCountertopSettings(snapshot.countertopSettings);
+
+    // Drop selections that refer to things which no longer exist
+    setActiveRoomId(prev => prev && snapshot.rooms.some(room => room.id === prev) ? prev : 'main');
+    setSelectedRun(prev => prev !== null && snapshot.cabinetRuns.some(run => run.id === prev) ? prev : null);
+    setSelectedCabinet(prev => prev && snapshot.cabinets.some(cabinet => cabinet.id === prev) ? prev : null);
+    setSelectedPoint(null);
+    setSelectedDoorPoint(null);
+    setSelectedWindowPoint(null);
+
+    setHistoryCounts({ undo: undoStackRef.current.length, redo: redoStackRef.current.length });
+  }, []);
+
+  const undo = useCallback(() => {
+    const current = historyBaselineRef.current;
+    const previous = undoStackRef.current.pop();
+    if (current === null || previous === undefined) return;
+    redoStackRef.current.push(current);
+    restoreHistorySnapshot(previous);
+  }, [restoreHistorySnapshot]);
+
+  const redo = useCallback(() => {
+    const current = historyBaselineRef.current;
+    const next = redoStackRef.current.pop();
+    if (current === null || next === undefined) return;
+    undoStackRef.current.push(current);
+    restoreHistorySnapshot(next);
+  }, [restoreHistorySnapshot]);
+
+  // Compare the design against the last saved/opened version
+  useEffect(() => {
+    if (isInteracting || rooms.length === 0) return;
+
+    const current = serializeSavedProjectState(projectAddress, { rooms, cabinetRuns, cabinets, cameraShots, activeShotId, cameraPath, customCabinetTypes, countertopSettings });
+    currentProjectStateRef.current = current;
+
+    // Updates that settle right after startup, a save or an open still count as the saved state
+    if (savedProjectStateRef.current === null) {
+      savedProjectStateResetUntilRef.current = Date.now() + HISTORY_MERGE_WINDOW_MS;
+    }
+    if (Date.now() < savedProjectStateResetUntilRef.current) {
+      savedProjectStateRef.current = current;
+    }
+
+    setIsDirty(current !== savedProjectStateRef.current);
+  }, [rooms, cabinetRuns, cabinets, cameraShots, activeShotId, cameraPath, customCabinetTypes, countertopSettings, projectAddress, isInteracting]);
+
+  // Autosave to the browser once edits pause
+  useEffect(() => {
+    if (isInteracting || restoreSnapshots !== null) return;
+    // Don't let an empty design push real work out of the snapshot list
+    if (!rooms.some(room => room.points.length > 0)) return;
+
+    const timeout = setTimeout(() => autosaveRef.current(), AUTOSAVE_DELAY_MS);
+    return () => {
+      clearTimeout(timeout);
+    };
+  }, [rooms, cabinetRuns, cabinets, cameraShots, activeShotId, cameraPath, customCabinetTypes, countertopSettings, projectAddress, isInteracting, restoreSnapshots]);
+
+  // Warn before leaving the page with unsaved changes
+  useEffect(() => {
+    if (!isDirty) return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => {
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+    };
+  }, [isDirty]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+
+      // Text fields keep their native undo
+      const target = e.target as HTMLElement;
+      const isTextField = target.tagName === 'TEXTAREA' || target.isContentEditable ||
+        (target instanceof HTMLInputElement && !['checkbox', 'radio', 'button'].includes(target.type));
+      if (isTextField) return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [undo, redo]);
+
   const ProjectAddressInput = () => {
     const [isEditing, setIsEditing] = useState<boolean>(false);
     const [tempAddress, setTempAddress] = useState<string>(projectAddress);
@@ -761,10 +1167,10 @@ const RoomDesigner: React.FC = () => {
         endPoint: safeEndPoint,
         width,
         position: startDist,
-        height: 2032,                      // Default height
-        frameThickness: 20,                // Default frame thickness
-        frameWidth: 100,                   // Default frame width
-        material: "PaintGrade_Trim"            // Changed default material
+        height: DEFAULT_DOOR_HEIGHT,
+        frameThickness: DEFAULT_DOOR_FRAME_THICKNESS,
+        frameWidth: DEFAULT_DOOR_FRAME_WIDTH,
+        material: DEFAULT_DOOR_MATERIAL
       };
       
       console.log("New door object:", JSON.stringify(newDoor));
@@ -1269,12 +1675,6 @@ const RoomDesigner: React.FC = () => {
       alert('Please complete the main room first');
       return;
     }
-  
-    // Add this check to prevent adding a camera if one already exists
-    if (camera !== null) {
-      alert('Camera already exists. You can adjust its properties below.');
-      return;
-    }
     
     setIsAddingCamera(true);
   };
@@ -1290,25 +1690,45 @@ const RoomDesigner: React.FC = () => {
       shiftY: -0.2 // Default value for shiftY
     };
     
-    setCamera(newCamera);
+    // Each placed camera is a new shot, which becomes the active one
+    const id = getNextShotId(cameraShots);
+    setCameraShots(prev => [...prev, { id, name: `Camera ${prev.length + 1}`, camera: newCamera, focalPoint: null, aimAtFocalPoint: true }]);
+    setActiveShotId(id);
     setIsAddingCamera(false);
     
     // Force immediate redraw
     drawRoom();
   };
 
+  const duplicateCameraShot = (shotId: string) => {
+    const shot = cameraShots.find(s => s.id === shotId);
+    if (!shot) return;
+    
+    const id = getNextShotId(cameraShots);
+    setCameraShots(prev => [...prev, { ...shot, id, name: `${shot.name} copy` }]);
+    setActiveShotId(id);
+  };
+
+  const deleteCameraShot = (shotId: string) => {
+    const remaining = cameraShots.filter(shot => shot.id !== shotId);
+    setCameraShots(remaining);
+    if (activeShotId === shotId) {
+      setActiveShotId(remaining.length > 0 ? remaining[0].id : null);
+    }
+  };
+
+  const renameCameraShot = (shotId: string, name: string) => {
+    setCameraShots(prev => prev.map(shot => shot.id === shotId ? { ...shot, name } : shot));
+  };
+
     
   const updateCameraPosition = (position: Point) => {
     if (camera) {
-      // If focal point exists, calculate rotation to point toward it
-      if (focalPoint) {
-        const dx = focalPoint.position.x - position.x;
-        const dy = focalPoint.position.y - position.y;
-        const angle = Math.atan2(dy, dx) * (180 / Math.PI);
-        
+      // If the camera is aimed at the focal point, keep it pointing toward it
+      if (focalPoint && isAimLocked) {
         setCamera({
           position: position,
-          rotation: ((angle % 360) + 360) % 360,
+          rotation: getAimRotation(position, focalPoint.position),
           isDragging: camera.isDragging,
           isRotating: camera.isRotating,
           focalLength: camera.focalLength !== undefined ? camera.focalLength : 24,
@@ -1316,7 +1736,7 @@ const RoomDesigner: React.FC = () => {
           shiftY: camera.shiftY !== undefined ? camera.shiftY : -0.2 // Preserve shiftY
         });
       } else {
-        // If no focal point, just update position
+        // Otherwise just update position
         setCamera({
           ...camera,
           position: position
@@ -1367,22 +1787,14 @@ const RoomDesigner: React.FC = () => {
   const updateCameraRotation = (rotation: number) => {
     if (camera) {
       // Instead of using the provided rotation parameter,
-      // calculate the angle between camera and focal point
-      if (focalPoint) {
-        // Calculate angle between camera position and focal point
-        const dx = focalPoint.position.x - camera.position.x;
-        const dy = focalPoint.position.y - camera.position.y;
-        const angle = Math.atan2(dy, dx) * (180 / Math.PI);
-        
-        // Normalize rotation to be between 0 and 360 degrees
-        const normalizedRotation = ((angle % 360) + 360) % 360;
-        
+      // keep the camera aimed at the focal point
+      if (focalPoint && isAimLocked) {
         setCamera({
           ...camera,
-          rotation: normalizedRotation
+          rotation: getAimRotation(camera.position, focalPoint.position)
         });
       } else {
-        // If no focal point exists, use the provided rotation
+        // If the camera isn't aimed, use the provided rotation
         // Normalize rotation to be between 0 and 360 degrees
         const normalizedRotation = ((rotation % 360) + 360) % 360;
         setCamera({
@@ -1468,16 +1880,12 @@ const RoomDesigner: React.FC = () => {
     setFocalPoint(newFocalPoint);
     setIsAddingFocalPoint(false);
     
-    // If camera exists, update its rotation to point toward the focal point
-    if (camera) {
-      const dx = position.x - camera.position.x;
-      const dy = position.y - camera.position.y;
-      const angle = Math.atan2(dy, dx) * (180 / Math.PI);
-      
+    // If camera exists and is aimed, update its rotation to point toward the focal point
+    if (camera && activeShot?.aimAtFocalPoint) {
       // Update camera with all required properties
       setCamera({
         position: camera.position,
-        rotation: ((angle % 360) + 360) % 360,
+        rotation: getAimRotation(camera.position, position),
         isDragging: camera.isDragging,
         isRotating: camera.isRotating,
         focalLength: camera.focalLength, // Preserve the focal length
@@ -1504,15 +1912,11 @@ const RoomDesigner: React.FC = () => {
       });
       
       // Update camera rotation to point toward the new focal point position
-      if (camera) {
-        const dx = position.x - camera.position.x;
-        const dy = position.y - camera.position.y;
-        const angle = Math.atan2(dy, dx) * (180 / Math.PI);
-        
+      if (camera && isAimLocked) {
         // Make sure to include all required properties and their correct types
         setCamera({
           position: camera.position, // Explicitly use the camera's existing position
-          rotation: ((angle % 360) + 360) % 360,
+          rotation: getAimRotation(camera.position, position),
           isDragging: camera.isDragging,
           isRotating: camera.isRotating,
           focalLength: camera.focalLength, // Preserve the focal length
@@ -1538,6 +1942,107 @@ const RoomDesigner: React.FC = () => {
     }
   };
 
+  const setAimAtFocalPoint = (aimAtFocalPoint: boolean) => {
+    setCameraShots(prev => prev.map(shot => {
+      if (shot.id !== activeShotId) return shot;
+      // Turn toward the focal point right away when the lock is switched on
+      const rotation = aimAtFocalPoint && shot.focalPoint
+        ? getAimRotation(shot.camera.position, shot.focalPoint.position)
+        : shot.camera.rotation;
+      return { ...shot, aimAtFocalPoint, camera: { ...shot.camera, rotation } };
+    }));
+  };
+
+  // Move the active camera so the whole room or a cabinet run fills the frame
+  const autoFrameCamera = () => {
+    if (!camera || !mainRoom) return;
+
+    let target: FrameTarget;
+    let rotation = camera.rotation;
+    if (frameTarget === 'room') {
+      target = { points: mainRoom.points, bottom: 0, top: mainRoom.height };
+    } else {
+      const run = cabinetRuns.find(r => r.id === Number(frameTarget));
+      const elevation = runElevations.find(e => e.runId === Number(frameTarget));
+      if (!run || !elevation) return;
+      
+      // Look straight at the front of the run
+      const corners = calculateRunCorners(run);
+      target = {
+        points: [corners.rearLeft, corners.rearRight, corners.frontRight, corners.frontLeft],
+        bottom: Math.min(elevation.bottom, ...elevation.cabinets.map(cabinet => cabinet.bottom)),
+        top: getRunCabinetTop(elevation)
+      };
+      rotation = (((run.rotation_z + 90) % 360) + 360) % 360;
+    }
+
+    const walls = getViewBlockingWalls(rooms.map(room => ({ ...room, doors: [], windows: [] })), 0);
+    const frame = getAutoFrame(target, rotation, walls, {
+      margin: frameMargin,
+      shiftY: camera.shiftY,
+      sensorWidth,
+      minFocalLength: FRAME_MIN_FOCAL_LENGTH,
+      maxFocalLength: FRAME_MAX_FOCAL_LENGTH,
+      wallClearance: FRAME_WALL_CLEARANCE,
+      maxDistance: MAX_VIEW_DISTANCE_MM
+    });
+
+    setCameraShots(prev => prev.map(shot => {
+      if (shot.id !== activeShotId) return shot;
+      const newCamera = {
+        ...shot.camera,
+        position: frame.position,
+        rotation,
+        height: Math.round(frame.height),
+        focalLength: Math.round(frame.focalLength)
+      };
+      // An aimed camera keeps looking at its focal point, so move that to the middle of the target
+      const newFocalPoint = shot.focalPoint && shot.aimAtFocalPoint
+        ? { ...shot.focalPoint, position: frame.center, height: Math.round(frame.height) }
+        : shot.focalPoint;
+      return { ...shot, camera: newCamera, focalPoint: newFocalPoint };
+    }));
+
+    if (!frame.fits) {
+      alert('The target does not fit with these margins, even with the widest lens. Try smaller margins or another camera direction.');
+    }
+  };
+
+  const toggleAddingKeyframes = () => {
+    if (!isAddingKeyframes && !rooms.some(room => room.isMain && room.isComplete)) {
+      alert('Please complete the main room first');
+      return;
+    }
+    // Keyframes take every click, so no other placement can be going on
+    if (!isAddingKeyframes) {
+      setIsAddingCamera(false);
+      setIsAddingFocalPoint(false);
+      setIsAddingRun(false);
+    }
+    setIsAddingKeyframes(prev => !prev);
+  };
+
+  // Append a keyframe to the camera path. It looks along the direction of travel and
+  // keeps the height and lens of the previous keyframe (or the active camera)
+  const addPathKeyframe = (position: Point) => {
+    setCameraPath(prev => {
+      const previous = prev.keyframes[prev.keyframes.length - 1];
+      const time = previous ? previous.time + DEFAULT_KEYFRAME_SPACING_s : 0;
+      const keyframe = {
+        time,
+        position,
+        rotation: previous ? getAimRotation(previous.position, position) : (camera?.rotation ?? 0),
+        height: previous ? previous.height : (camera?.height ?? 1700),
+        focalLength: previous ? previous.focalLength : (camera?.focalLength ?? 24)
+      };
+      return {
+        ...prev,
+        keyframes: sortKeyframes([...prev.keyframes, keyframe]),
+        duration: Math.max(prev.duration, time)
+      };
+    });
+  };
+
   
   const handleForceUpdateSecondaryRooms = () => {
     console.log("Starting force update of secondary rooms");
@@ -2834,6 +3339,13 @@ const createCabinetRun = (position: Point) => {
 
 // Update a cabinet run property
 const updateRunProperty = (id, property, value) => {
+  // A new fit mode is applied to the run straight away
+  if (property === 'fit_mode') {
+    const run = cabinetRuns.find(r => r.id === id);
+    if (run) fitRun({ ...run, fit_mode: value });
+    return;
+  }
+  
   // Handle special case for start_connect and end_connect
   if (property === 'start_connect' || property === 'end_connect') {
     // Convert empty string to null and "None" to null
@@ -2873,13 +3385,15 @@ const updateRunProperty = (id, property, value) => {
         
         // If changing from Open to Wall and cabinets start at position 0
         if (newStartType === 'Wall' && currentStartType === 'Open' && minPosition === 0) {
+          const addedFiller = getRunFillerWidths({ ...currentRun, start_type: 'Wall' }).start;
+          
           // Update the run first
           setCabinetRuns(prevRuns => prevRuns.map(run => 
             run.id === id 
               ? { 
                   ...run, 
                   start_type: newStartType,
-                  length: run.length + FILLER_WIDTH 
+                  length: run.length + addedFiller 
                 } 
               : run
           ));
@@ -2887,22 +3401,23 @@ const updateRunProperty = (id, property, value) => {
           // Then shift all cabinets right
           setCabinets(prevCabinets => prevCabinets.map(cab => 
             cab.cabinet_run_id === id
-              ? { ...cab, position: cab.position + FILLER_WIDTH }
+              ? { ...cab, position: cab.position + addedFiller }
               : cab
           ));
           
           return; // Exit early, we've handled the update
         }
         
-        // If changing from Wall to Open and cabinets start at FILLER_WIDTH
-        if (newStartType === 'Open' && currentStartType === 'Wall' && minPosition === FILLER_WIDTH) {
+        // If changing from Wall to Open and cabinets start right after the filler
+        const removedFiller = getRunFillerWidths(currentRun).start;
+        if (newStartType === 'Open' && currentStartType === 'Wall' && minPosition === removedFiller) {
           // Update the run first
           setCabinetRuns(prevRuns => prevRuns.map(run => 
             run.id === id 
               ? { 
                   ...run, 
                   start_type: newStartType,
-                  length: Math.max(0, run.length - FILLER_WIDTH)
+                  length: Math.max(0, run.length - removedFiller)
                 } 
               : run
           ));
@@ -2910,7 +3425,7 @@ const updateRunProperty = (id, property, value) => {
           // Then shift all cabinets left
           setCabinets(prevCabinets => prevCabinets.map(cab => 
             cab.cabinet_run_id === id
-              ? { ...cab, position: Math.max(0, cab.position - FILLER_WIDTH) }
+              ? { ...cab, position: Math.max(0, cab.position - removedFiller) }
               : cab
           ));
           
@@ -2938,7 +3453,7 @@ const updateRunProperty = (id, property, value) => {
       const totalCabinetWidth = runCabinets.reduce((sum, c) => sum + c.cabinet_width, 0);
       
       // Get start filler width (unchanged)
-      const startFillerWidth = currentRun.start_type === 'Wall' ? FILLER_WIDTH : 0;
+      const startFillerWidth = getRunFillerWidths(currentRun).start;
       
       // If changing from Open to Wall, add end filler
       if (newEndType === 'Wall' && currentEndType === 'Open') {
@@ -2948,7 +3463,7 @@ const updateRunProperty = (id, property, value) => {
             ? { 
                 ...run, 
                 end_type: newEndType,
-                length: totalCabinetWidth + startFillerWidth + FILLER_WIDTH 
+                length: totalCabinetWidth + startFillerWidth + getRunFillerWidths({ ...currentRun, end_type: 'Wall' }).end 
               } 
             : run
         ));
@@ -3073,7 +3588,7 @@ const debugCabinetPositions = (runId) => {
     .sort((a, b) => a.position - b.position);
   
   console.log(`Run ${runId} - Start Type: ${run.start_type}, Length: ${run.length}mm`);
-  console.log(`Filler Width: ${run.start_type === 'Wall' ? FILLER_WIDTH : 0}mm`);
+  console.log(`Filler Width: ${getRunFillerWidths(run).start}mm`);
   
   if (runCabinets.length === 0) {
     console.log('No cabinets in this run');
@@ -3083,7 +3598,7 @@ const debugCabinetPositions = (runId) => {
     });
     
     const calculatedLength = runCabinets.reduce((sum, cab) => sum + cab.cabinet_width, 0) + 
-                            (run.start_type === 'Wall' ? FILLER_WIDTH : 0);
+                            getRunFillerWidths(run).start;
     console.log(`Calculated run length: ${calculatedLength}mm, Stored run length: ${run.length}mm`);
   }
 };
@@ -3103,113 +3618,124 @@ const monitoredUpdateRunProperty = (id, property, value) => {
 
 // Get available cabinet types based on run type
 const getAvailableCabinetTypes = (runType: 'Base' | 'Upper'): string[] => {
-  if (runType === 'Base') {
-    return [
-      'Base - 2-Drawer',
-      'Base - 3-Drawer',
-      'Base - 4-Drawer',
-      'Base - Leaf Door & Shelves',
-      'Base - Double Leaf Door & Shelves',
-      'Base - Bookcase',
-      'Base - Sink & 3-Drawer',
-      'Base - Trash 2-Drawer',
-      'Base - Cooktop 30 & 3-Drawer',
-      'Base - Cooktop 36 & 3-Drawer',
-      'Base - Oven',
-      'Base - Oven & Cooktop 30',
-      'Base - Corner Left',
-      'Base - Corner Right',
-      'Base - Dishwasher',
-      'Tall - Bookcase',
-      'Tall - Single Leaf Door & Shelves',
-      'Tall - Double Leaf Door & Shelves',
-      'Tall - Warming & Oven & Micro & Leaf Door',
-      'Tall - Warming & Oven & Micro & Double Leaf Door',
-      'Tall - Integrated Fridge_Freezer 36 & Double Leaf Door'
-    ];
-  } else {
-    return [
-      'Wall - Leaf Door & Shelves', 
-      'Wall - Double Leaf Door & Shelves', 
-      'Wall - Bookcase',
-      'Wall - Leaf Door Corner Pie Left',
-      'Wall - Leaf Door Corner Pie Right',
-      'Wall - Floating Shelf',
-      'Wall - ExhaustFan - Integrated - 36x11 - Double Leaf Door',
-      'Wall - ExhaustFan - Integrated - 30x11 - Double Leaf Door',
-      'CounterTop - Leaf Door & Shelves'
-    ];
-  }
+  return getCatalogTypeNames(cabinetCatalog, runType);
 };
 
-// Helper function to get fixed widths for specific cabinet types
-const getFixedCabinetWidth = (cabinetType) => {
-  // Cabinet types with fixed 763mm width
-  if ([
-    'Base - Oven', 
-    'Base - Oven & Cooktop 30', 
-    'Base - Cooktop 30 & 3-Drawer', 
-    'Base - Sink & 3-Drawer',
-    'Tall - Warming & Oven & Micro & Leaf Door',
-    'Tall - Warming & Oven & Micro & Double Leaf Door',
-    'Wall - ExhaustFan - Integrated - 30x11 - Double Leaf Door'
-  ].includes(cabinetType)) {
-    return 763;
-  }
-
-  // Cabinet types with fixed 642mm width
-  if ([
-    'Base - Dishwasher'    
-  ].includes(cabinetType)) {
-    return 642;
-  }
-  
-  // Cabinet types with fixed 950mm width
-  if ([
-    'Base - Cooktop 36 & 3-Drawer',
-    'Tall - Integrated Fridge_Freezer 36 & Double Leaf Door',
-    'Wall - ExhaustFan - Integrated - 36x11 - Double Leaf Door'
-  ].includes(cabinetType)) {
-    return 950;
-  }
-  
-  return null; // No fixed width
+// Fixed width of a cabinet type, or null if it can be resized
+const getFixedCabinetWidth = (cabinetType: string): number | null => {
+  return getCabinetDefinition(cabinetCatalog, cabinetType).width.fixed ?? null;
 };
 
-// Helper function to get minimum width for specific cabinet types
-const getMinCabinetWidth = (cabinetType) => {
-  // Cabinet types with minimum 1200mm width for corner cabinets
-  if ([
-    'Base - Corner Left',
-    'Base - Corner Right'
-  ].includes(cabinetType)) {
-    return 1200;
-  }
-  
-  // Cabinet types with minimum 600mm width
-  if ([
-    'Wall - Leaf Door Corner Pie Left',
-    'Wall - Leaf Door Corner Pie Right'
-  ].includes(cabinetType)) {
-    return 600;
+const getMinCabinetWidth = (cabinetType: string): number => {
+  return getCabinetDefinition(cabinetCatalog, cabinetType).width.min;
+};
+
+// Helper function to check if a cabinet type has fixed width
+const hasFixedWidth = (cabinetType: string) => {
+  return getFixedCabinetWidth(cabinetType) !== null;
+};
+
+// Width the cabinet type allows that is closest to the given one
+const clampWidthForType = (cabinetType: string, width: number) => {
+  return clampCabinetWidth(getCabinetDefinition(cabinetCatalog, cabinetType), width);
+};
+
+// Fit the run's cabinets to its length according to its fit mode. 'flag' leaves them as they are.
+// allCabinets is the cabinet list after an edit that hasn't reached the state yet, and
+// keptCabinetId a cabinet whose width was just set, which scaling leaves alone
+const fitRun = (run: CabinetRun, allCabinets = cabinets, keptCabinetId: string | null = null) => {
+  const mode = run.fit_mode ?? 'flag';
+  const runCabinets = allCabinets
+    .filter(c => c.cabinet_run_id === run.id)
+    .sort((a, b) => a.position - b.position);
+  if (mode === 'flag' || runCabinets.length === 0) {
+    setCabinetRuns(prev => prev.map(r => r.id === run.id ? (mode === 'flag' ? run : { ...run, filler_widths: undefined }) : r));
+    return;
   }
 
-  // Cabinet types with minimum 450mm width
-  if ([
-    'Base - Trash 2-Drawer'
-  ].includes(cabinetType)) {
-    return 450;
+  // Both modes start again from standard fillers
+  const standardFillers = getRunFillerWidths({ ...run, filler_widths: undefined });
+  let fittedRun: CabinetRun = { ...run, filler_widths: undefined };
+  let widths = new Map(runCabinets.map(c => [c.id, c.cabinet_width]));
+
+  if (mode === 'fillers') {
+    const fillers = getFittedFillers(
+      run.length,
+      standardFillers,
+      { start: run.start_type === 'Wall', end: run.end_type === 'Wall' },
+      runCabinets.map(c => c.cabinet_width)
+    );
+    if (fillers) fittedRun = { ...fittedRun, filler_widths: fillers };
+  } else {
+    const fitCabinets: FitCabinet[] = runCabinets.map(c => ({
+      id: c.id,
+      width: c.cabinet_width,
+      minWidth: getMinCabinetWidth(c.cabinet_type),
+      maxWidth: getCabinetDefinition(cabinetCatalog, c.cabinet_type).width.max ?? Infinity,
+      fixed: hasFixedWidth(c.cabinet_type) || c.id === keptCabinetId
+    }));
+    widths = getScaledCabinetWidths(run.length - standardFillers.start - standardFillers.end, fitCabinets);
   }
 
-  
-  
-  // Default minimum width
-  return 250;
+  // Pack the cabinets again from the start filler
+  let position = getRunFillerWidths(fittedRun).start;
+  const positions = new Map<string, number>();
+  runCabinets.forEach(c => {
+    positions.set(c.id, position);
+    position += widths.get(c.id) as number;
+  });
+
+  setCabinetRuns(prev => prev.map(r => r.id === run.id ? fittedRun : r));
+  setCabinets(prev => prev.map(c => positions.has(c.id)
+    ? { ...c, position: positions.get(c.id) as number, cabinet_width: widths.get(c.id) as number }
+    : c));
 };
 
-// Helper function to check if a cabinet type has fixed width
-const hasFixedWidth = (cabinetType) => {
-  return getFixedCabinetWidth(cabinetType) !== null;
+// Runs with a fit mode keep their length when their cabinets change, and are fitted again instead
+const keepsLength = (run: CabinetRun) => (run.fit_mode ?? 'flag') !== 'flag';
+
+// Add or change one of the project's own cabinet types
+const saveCustomCabinetType = (originalName: string | null, definition: CabinetTypeDefinition) => {
+  setCustomCabinetTypes(prev => originalName === null
+    ? [...prev, definition]
+    : prev.map(type => type.name === originalName ? definition : type));
+  if (originalName === null) return;
+
+  // Cabinets of this type take the new name and width rules, and their runs are packed again
+  const changedCabinets = cabinets.filter(c => c.cabinet_type === originalName);
+  if (changedCabinets.length === 0) return;
+  const updatedCabinets = cabinets.map(c => c.cabinet_type === originalName
+    ? { ...c, cabinet_type: definition.name, cabinet_width: clampCabinetWidth(definition, c.cabinet_width) }
+    : c);
+
+  const positions = new Map<string, number>();
+  const lengths = new Map<number, number>();
+  const changedRunIds = new Set(changedCabinets.map(c => c.cabinet_run_id));
+  const changedRuns = cabinetRuns.filter(run => changedRunIds.has(run.id));
+  changedRuns.filter(run => !keepsLength(run)).forEach(run => {
+    let position = getRunFillerWidths(run).start;
+    updatedCabinets
+      .filter(c => c.cabinet_run_id === run.id)
+      .sort((a, b) => a.position - b.position)
+      .forEach(c => {
+        positions.set(c.id, position);
+        position += c.cabinet_width;
+      });
+    lengths.set(run.id, position + getRunFillerWidths(run).end);
+  });
+
+  setCabinets(updatedCabinets.map(c => positions.has(c.id) ? { ...c, position: positions.get(c.id) as number } : c));
+  setCabinetRuns(prev => prev.map(run => lengths.has(run.id) ? { ...run, length: lengths.get(run.id) as number } : run));
+  changedRuns.filter(keepsLength).forEach(run => fitRun(run, updatedCabinets));
+};
+
+// Cabinets of a deleted type stay where they are and are drawn as plain panels
+const deleteCustomCabinetType = (name: string) => {
+  const usedBy = cabinets.filter(c => c.cabinet_type === name).length;
+  if (usedBy > 0 && !window.confirm(`${usedBy} cabinet(s) use "${name}". They will be drawn as plain panels. Delete the type anyway?`)) {
+    return;
+  }
+  setCustomCabinetTypes(prev => prev.filter(type => type.name !== name));
 };
 
 // Add a cabinet to a run
@@ -3229,7 +3755,7 @@ const addCabinetToRun = (runId) => {
   
   if (existingCabinets.length === 0) {
     // First cabinet - position directly depends on start_type
-    position = run.start_type === 'Wall' ? FILLER_WIDTH : 0;
+    position = getRunFillerWidths(run).start;
   } else {
     // Find the rightmost cabinet and place after it
     const rightmostCabinet = existingCabinets.reduce((rightmost, current) => {
@@ -3244,14 +3770,8 @@ const addCabinetToRun = (runId) => {
   // Get the selected cabinet type or use the first available type
   const cabinetType = newCabinetType || getAvailableCabinetTypes(run.type)[0];
   
-  // Determine the appropriate width based on cabinet type
-  const fixedWidth = getFixedCabinetWidth(cabinetType);
-  const minWidth = getMinCabinetWidth(cabinetType);
-  
-  // If editingNewCabinetWidth has a value and the cabinet type doesn't have a fixed width,
-  // use that value (subject to minimum constraints). Otherwise use the current newCabinetWidth.
-  const width = fixedWidth !== null ? fixedWidth : 
-                Math.max(minWidth, newCabinetWidth);
+  // Fixed-width types ignore the requested width, the rest are kept within their limits
+  const width = clampWidthForType(cabinetType, newCabinetWidth);
   
   // Create a new cabinet with cab prefix and numeric suffix
   const highestId = cabinets.length > 0 
@@ -3265,7 +3785,7 @@ const addCabinetToRun = (runId) => {
     cabinet_type: cabinetType,
     cabinet_width: width,
     hinge_right: newCabinetHingeRight,
-    material_doors: newCabinetMaterial || "PaintGrade",  // Changed default material
+    material_doors: newCabinetMaterial || DEFAULT_CABINET_MATERIAL,
     position: position,
     // Add default values for floating shelf parameters
     floating_shelf_depth: 200,
@@ -3274,6 +3794,13 @@ const addCabinetToRun = (runId) => {
     floating_shelf_vert_spacing: 350
   };
   
+  if (keepsLength(run)) {
+    setCabinets(prevCabinets => [...prevCabinets, newCabinet]);
+    fitRun(run, [...cabinets, newCabinet]);
+    setIsAddingCabinet(false);
+    return;
+  }
+  
   // First update the cabinets state
   setCabinets(prevCabinets => {
     const newCabinets = [...prevCabinets, newCabinet];
@@ -3281,8 +3808,7 @@ const addCabinetToRun = (runId) => {
     // Calculate the new run length immediately after updating cabinets
     const runCabinets = newCabinets.filter(c => c.cabinet_run_id === numericRunId);
     const totalCabinetWidth = runCabinets.reduce((sum, c) => sum + c.cabinet_width, 0);
-    const startFillerWidth = run.start_type === 'Wall' ? FILLER_WIDTH : 0;
-    const endFillerWidth = run.end_type === 'Wall' ? FILLER_WIDTH : 0;
+    const { start: startFillerWidth, end: endFillerWidth } = getRunFillerWidths(run);
     const newRunLength = totalCabinetWidth + startFillerWidth + endFillerWidth;
     
     // Update the run length directly in the same operation
@@ -3310,8 +3836,7 @@ const updateRunLength = (runId) => {
     const totalCabinetWidth = runCabinets.reduce((sum, c) => sum + c.cabinet_width, 0);
     
     // Add filler width if start_type or end_type is 'Wall'
-    const startFillerWidth = run.start_type === 'Wall' ? FILLER_WIDTH : 0;
-    const endFillerWidth = run.end_type === 'Wall' ? FILLER_WIDTH : 0;
+    const { start: startFillerWidth, end: endFillerWidth } = getRunFillerWidths(run);
     
     // Update run length to match total cabinet width plus fillers
     setCabinetRuns(prevRuns => prevRuns.map(r => 
@@ -3330,7 +3855,7 @@ const reorderCabinets = (runId) => {
   if (!run) return;
   
   // Start position depends on start_type
-  const startPos = run.start_type === 'Wall' ? FILLER_WIDTH : 0;
+  const startPos = getRunFillerWidths(run).start;
   
   // Get and sort cabinets in this run
   const runCabinets = cabinets
@@ -3369,7 +3894,7 @@ const reorderCabinets = (runId) => {
   
   // Calculate and update run length
   const totalCabinetWidth = runCabinets.reduce((sum, c) => sum + c.cabinet_width, 0);
-  const fillerWidthToAdd = run.start_type === 'Wall' ? FILLER_WIDTH : 0;
+  const fillerWidthToAdd = getRunFillerWidths(run).start;
   
   setCabinetRuns(prevRuns => prevRuns.map(r => 
     r.id === runId ? { ...r, length: totalCabinetWidth + fillerWidthToAdd } : r
@@ -3377,6 +3902,43 @@ const reorderCabinets = (runId) => {
 };
 
 
+// Replace the run's cabinets with a proposed layout, packed from the start filler
+const applyRunLayout = (runId: number, layout: LayoutCabinet[]) => {
+  const run = cabinetRuns.find(r => r.id === runId);
+  if (!run) return;
+  
+  const highestId = cabinets.length > 0
+    ? Math.max(...cabinets.map(cab => parseInt(cab.id.substring(3))))
+    : 0;
+  let position = getRunFillerWidths(run).start;
+  const newCabinets = layout.map((cabinet, index) => {
+    const newCabinet = {
+      id: `cab${highestId + index + 1}`,
+      cabinet_run_id: runId,
+      cabinet_type: cabinet.type,
+      cabinet_width: cabinet.width,
+      hinge_right: newCabinetHingeRight,
+      material_doors: DEFAULT_CABINET_MATERIAL,
+      position,
+      floating_shelf_depth: 200,
+      floating_shelf_height: 100,
+      floating_shelf_num: 1,
+      floating_shelf_vert_spacing: 350
+    };
+    position += cabinet.width;
+    return newCabinet;
+  });
+  
+  setCabinets(prevCabinets => [...prevCabinets.filter(c => c.cabinet_run_id !== runId), ...newCabinets]);
+  if (keepsLength(run)) {
+    fitRun(run, [...cabinets.filter(c => c.cabinet_run_id !== runId), ...newCabinets]);
+  }
+  if (cabinets.some(c => c.id === selectedCabinet && c.cabinet_run_id === runId)) {
+    setSelectedCabinet(null);
+  }
+  setFillRunId(null);
+};
+
 // Remove a cabinet
 const removeCabinet = (cabinetId, event) => {
   // Stop event propagation to prevent selecting the cabinet row
@@ -3391,6 +3953,15 @@ const removeCabinet = (cabinetId, event) => {
   const run = cabinetRuns.find(r => r.id === runId);
   if (!run) return;
   
+  if (keepsLength(run)) {
+    setCabinets(prevCabinets => prevCabinets.filter(c => c.id !== cabinetId));
+    fitRun(run, cabinets.filter(c => c.id !== cabinetId));
+    if (selectedCabinet === cabinetId) {
+      setSelectedCabinet(null);
+    }
+    return;
+  }
+  
   // Remove the cabinet
   setCabinets(prevCabinets => {
     const updatedCabinets = prevCabinets.filter(c => c.id !== cabinetId);
@@ -3400,7 +3971,7 @@ const removeCabinet = (cabinetId, event) => {
       .sort((a, b) => a.position - b.position);
     
     // Reposition all remaining cabinets
-    let currentPosition = run.start_type === 'Wall' ? FILLER_WIDTH : 0;
+    let currentPosition = getRunFillerWidths(run).start;
     
     const repositionedCabinets = updatedCabinets.map(c => {
       if (c.cabinet_run_id !== runId) return c;
@@ -3412,8 +3983,7 @@ const removeCabinet = (cabinetId, event) => {
     
     // Calculate new total width
     const totalCabinetWidth = remainingCabinets.reduce((sum, c) => sum + c.cabinet_width, 0);
-    const startFillerWidth = run.start_type === 'Wall' ? FILLER_WIDTH : 0;
-    const endFillerWidth = run.end_type === 'Wall' ? FILLER_WIDTH : 0;
+    const { start: startFillerWidth, end: endFillerWidth } = getRunFillerWidths(run);
     
     // Update run length immediately
     setCabinetRuns(prevRuns => prevRuns.map(r => 
@@ -3443,7 +4013,7 @@ const updateCabinetProperty = (cabinetId, property, value) => {
   // Handle special case for floating shelf properties
   if (property.startsWith('floating_shelf_')) {
     // Only update if this is a floating shelf cabinet or if enabling a property on a floating shelf cabinet
-    if (cabinet.cabinet_type === 'Wall - Floating Shelf') {
+    if (getCabinetDefinition(cabinetCatalog, cabinet.cabinet_type).template.floatingShelf) {
       setCabinets(prevCabinets => {
         return prevCabinets.map(c => 
           c.id === cabinetId ? { ...c, [property]: value } : c
@@ -3461,26 +4031,18 @@ const updateCabinetProperty = (cabinetId, property, value) => {
     let newWidth = cabinet.cabinet_width;
     
     if (property === 'cabinet_type') {
-      // When changing cabinet type, apply fixed width if needed
-      const fixedWidth = getFixedCabinetWidth(cabinetType);
-      if (fixedWidth !== null) {
-        newWidth = fixedWidth;
-      } else {
-        // Apply minimum width constraints when switching to a type with minimum width
-        const minWidth = getMinCabinetWidth(cabinetType);
-        newWidth = Math.max(minWidth, cabinet.cabinet_width);
-      }
+      // When changing cabinet type, apply the new type's width rules
+      newWidth = clampWidthForType(cabinetType, cabinet.cabinet_width);
     } else if (property === 'cabinet_width') {
-      // When manually changing width
-      const fixedWidth = getFixedCabinetWidth(cabinet.cabinet_type);
-      if (fixedWidth !== null) {
-        // Don't allow width changes for fixed-width cabinets
-        newWidth = fixedWidth;
-      } else {
-        // Apply minimum width constraint
-        const minWidth = getMinCabinetWidth(cabinet.cabinet_type);
-        newWidth = Math.max(minWidth, value);
-      }
+      // When manually changing width. Fixed-width cabinets keep their width
+      newWidth = clampWidthForType(cabinet.cabinet_type, value);
+    }
+    
+    if (keepsLength(run)) {
+      const updatedCabinets = cabinets.map(c => c.id === cabinetId ? { ...c, [property]: value, cabinet_width: newWidth } : c);
+      setCabinets(updatedCabinets);
+      fitRun(run, updatedCabinets, cabinetId);
+      return;
     }
     
     // Update the cabinets state with the new width
@@ -3499,6 +4061,7 @@ const updateCabinetProperty = (cabinetId, property, value) => {
       
       // Get the latest run data to ensure we have current start_type and end_type
       const currentRun = cabinetRuns.find(r => r.id === runId);
+      if (!currentRun) return updatedCabinets;
       
       // Reposition all cabinets in the run
       const runCabinets = updatedCabinets
@@ -3506,7 +4069,7 @@ const updateCabinetProperty = (cabinetId, property, value) => {
         .sort((a, b) => a.position - b.position);
       
       // Start position depends on run's start_type
-      let currentPosition = currentRun.start_type === 'Wall' ? FILLER_WIDTH : 0;
+      let currentPosition = getRunFillerWidths(currentRun).start;
       
       // Update the positions of all cabinets in the run
       const repositionedCabinets = updatedCabinets.map(c => {
@@ -3518,7 +4081,7 @@ const updateCabinetProperty = (cabinetId, property, value) => {
         
         // If this is not the first cabinet, position it after all previous cabinets
         if (index > 0) {
-          currentPosition = currentRun.start_type === 'Wall' ? FILLER_WIDTH : 0;
+          currentPosition = getRunFillerWidths(currentRun).start;
           for (let i = 0; i < index; i++) {
             currentPosition += runCabinets[i].cabinet_width;
           }
@@ -3531,8 +4094,7 @@ const updateCabinetProperty = (cabinetId, property, value) => {
       const newTotalWidth = runCabinets.reduce((sum, c) => sum + c.cabinet_width, 0);
       
       // Get filler widths
-      const startFillerWidth = currentRun.start_type === 'Wall' ? FILLER_WIDTH : 0;
-      const endFillerWidth = currentRun.end_type === 'Wall' ? FILLER_WIDTH : 0;
+      const { start: startFillerWidth, end: endFillerWidth } = getRunFillerWidths(currentRun);
       
       // Update the run length immediately
       setCabinetRuns(prevRuns => prevRuns.map(r => 
@@ -3803,10 +4365,10 @@ const formatRoomData = (room: Room, mappedId: number): any => {
       wallIndices: remappedDoors.map(door => door.wallIndex),
       widths: remappedDoors.map(door => Math.round(door.width)),
       positions: remappedDoors.map(door => Math.round(door.position)),
-      heights: remappedDoors.map(door => Math.round(door.height || 2032)),
-      frameThicknesses: remappedDoors.map(door => Math.round(door.frameThickness || 20)),
-      frameWidths: remappedDoors.map(door => Math.round(door.frameWidth || 100)),
-      materials: remappedDoors.map(door => door.material || "PaintGrade_Trim")
+      heights: remappedDoors.map(door => Math.round(door.height || DEFAULT_DOOR_HEIGHT)),
+      frameThicknesses: remappedDoors.map(door => Math.round(door.frameThickness || DEFAULT_DOOR_FRAME_THICKNESS)),
+      frameWidths: remappedDoors.map(door => Math.round(door.frameWidth || DEFAULT_DOOR_FRAME_WIDTH)),
+      materials: remappedDoors.map(door => door.material || DEFAULT_DOOR_MATERIAL)
     },
     windows: {
       count: remappedWindows.length,
@@ -3844,7 +4406,9 @@ const formatCabinetRunData = (run, roomIdMap) => {
       is_island: run.is_island,
       omit_backsplash: run.omit_backsplash,
       start_connect: run.start_connect || "None",
-      end_connect: run.end_connect || "None"
+      end_connect: run.end_connect || "None",
+      fit_mode: run.fit_mode ?? 'flag',
+      ...(run.filler_widths ? { filler_widths: run.filler_widths } : {})
     }
   };
   
@@ -3881,8 +4445,8 @@ const formatCameraData = (camera) => {
 };
 
 // Format cabinet data for export
-const formatCabinetData = (cabinet) => {
-  const exportCabinet = {
+const formatCabinetData = (cabinet): ExportedCabinet => {
+  const exportCabinet: ExportedCabinet = {
     id: cabinet.id,
     cabinet_run_id: cabinet.cabinet_run_id, // Already an integer
     cabinet_type: cabinet.cabinet_type,
@@ -3893,13 +4457,19 @@ const formatCabinetData = (cabinet) => {
   };
   
   // Only include floating shelf properties if this is a floating shelf
-  if (cabinet.cabinet_type === 'Wall - Floating Shelf') {
+  if (getCabinetDefinition(cabinetCatalog, cabinet.cabinet_type).template.floatingShelf) {
     exportCabinet.floating_shelf_depth = Math.round(cabinet.floating_shelf_depth || 200);
     exportCabinet.floating_shelf_height = Math.round(cabinet.floating_shelf_height || 100);
     exportCabinet.floating_shelf_num = Math.round(cabinet.floating_shelf_num || 1);
     exportCabinet.floating_shelf_vert_spacing = Math.round(cabinet.floating_shelf_vert_spacing || 350);
   }
   
+  // The renderer doesn't know the project's own types, so their definition comes along
+  const customDefinition = customCabinetTypes.find(type => type.name === cabinet.cabinet_type);
+  if (customDefinition) {
+    exportCabinet.custom_definition = customDefinition;
+  }
+  
   return exportCabinet;
 };
 
@@ -3932,8 +4502,79 @@ const formatFocalPointData = (focalPoint) => {
   };
 };
 
-// The main export function, now using the helper functions
-const exportRoomData = () => {
+// Format the camera path for export, null if it has no keyframes
+const formatCameraPathData = (path: CameraPath): ExportedCameraPath | null => {
+  if (path.keyframes.length === 0) return null;
+  
+  return {
+    frameRate: path.frameRate,
+    duration: path.duration,
+    keyframes: path.keyframes.map(keyframe => ({
+      time: keyframe.time,
+      position: {
+        x: Math.round(keyframe.position.x),
+        y: Math.round(keyframe.position.y),
+        z: Math.round(keyframe.height)
+      },
+      rotation: Math.round(keyframe.rotation),
+      focalLength: Math.round(keyframe.focalLength)
+    }))
+  };
+};
+
+// Format the countertops for fabricators: whole mm, areas in m² to 3 decimals
+const formatCountertopData = (slab: CountertopSlab): ExportedCountertop => {
+  const roundPoint = (point: Point) => ({ x: Math.round(point.x), y: Math.round(point.y) });
+  const roundArea = (area: number) => Math.round(area * 1000) / 1000;
+  
+  return {
+    id: slab.id,
+    runIds: slab.runIds,
+    pieces: slab.pieces.map(piece => ({
+      runId: piece.runId,
+      length: Math.round(piece.length),
+      width: Math.round(piece.width),
+      area: roundArea(piece.area),
+      outline: piece.outline.map(roundPoint)
+    })),
+    cutouts: slab.cutouts.map(cutout => ({
+      kind: cutout.kind,
+      runId: cutout.runId,
+      cabinetId: cutout.cabinetId,
+      width: Math.round(cutout.width),
+      depth: Math.round(cutout.depth),
+      outline: cutout.outline.map(roundPoint)
+    })),
+    grossArea: roundArea(slab.grossArea),
+    netArea: roundArea(slab.netArea)
+  };
+};
+
+// Format the backsplashes for tiling quotes: whole mm, areas in m² to 3 decimals
+const formatBacksplashData = (backsplash: Backsplash, roomIdMap: Map<string, number>): ExportedBacksplash => {
+  const roundArea = (area: number) => Math.round(area * 1000) / 1000;
+  
+  return {
+    runId: backsplash.runId,
+    roomId: roomIdMap.get(backsplash.wall.roomId) ?? 0,
+    wallIndex: backsplash.wall.wallIndex,
+    outlines: backsplash.outlines.map(outline => outline.map(point => ({
+      along: Math.round(point.along),
+      height: Math.round(point.height)
+    }))),
+    windowCutouts: backsplash.windowCutouts.map(cutout => ({
+      start: Math.round(cutout.start),
+      end: Math.round(cutout.end),
+      bottom: Math.round(cutout.bottom),
+      top: Math.round(cutout.top)
+    })),
+    grossArea: roundArea(backsplash.grossArea),
+    netArea: roundArea(backsplash.netArea)
+  };
+};
+
+// Build the projectData document shared by the JSON export and server saves
+const buildProjectData = (): ProjectData => {
   // Step 1: Create room ID mapping
   const roomIdMap = createRoomIdMapping(rooms);
 
@@ -3955,29 +4596,408 @@ const exportRoomData = () => {
   // Step 6: Add focal point data to the export object
   const focalPointData = formatFocalPointData(focalPoint);
 
-  // Step 7: Create final export object
+  // Step 7: All named cameras. camera and focalPoint above repeat the active one
+  const cameraShotData = cameraShots.map(shot => ({
+    name: shot.name,
+    camera: formatCameraData(shot.camera) as ExportedCamera, // A shot always has a camera
+    focalPoint: formatFocalPointData(shot.focalPoint),
+    aimAtFocalPoint: shot.aimAtFocalPoint
+  }));
+
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    address: projectAddress, // Include project address
+    rooms: exportData,
+    cabinetRuns: cabinetRunData,
+    cabinets: cabinetData,
+    camera: cameraData, // Add camera data to export
+    focalPoint: focalPointData, 
+    cameras: cameraShotData,
+    activeCamera: activeShot ? cameraShots.indexOf(activeShot) : null,
+    cameraPath: formatCameraPathData(cameraPath),
+    customCabinetTypes,
+    countertopSettings,
+    countertops: countertopSlabs.map(formatCountertopData),
+    backsplashes: backsplashes.map(backsplash => formatBacksplashData(backsplash, roomIdMap)),
+    exportDate: new Date().toISOString()
+  };
+};
+
+// The main export function, now using the helper functions
+const exportRoomData = () => {
   const exportObject = {
-    projectData: {
-      address: projectAddress, // Include project address
-      rooms: exportData,
-      cabinetRuns: cabinetRunData,
-      cabinets: cabinetData,
-      camera: cameraData, // Add camera data to export
-      focalPoint: focalPointData, 
-      exportDate: new Date().toISOString()
-    }
+    projectData: buildProjectData()
   };
 
-  // Step 7: Convert to JSON string and replace "true"/"false" with True/False
-  let jsonData = JSON.stringify(exportObject, null, 2);
-  jsonData = jsonData.replace(/true/g, 'True').replace(/false/g, 'False');
+  // Convert to text in the selected format (strict JSON or Python-style True/False)
+  const jsonData = serializeProjectFile(exportObject, exportTarget);
   
-  // Step 8: Copy to clipboard
+  // Copy to clipboard
   copyToClipboard(jsonData);
 
   return jsonData;
 };
 
+// File name for downloads, e.g. "12_main_street_2024-05-01.json" or "12_main_street_run1_elevation_2024-05-01.svg"
+const getProjectFileName = (extension: string, suffix?: string) => {
+  const slug = projectAddress
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  const date = new Date().toISOString().slice(0, 10);
+  return `${slug || 'project'}${suffix ? `_${suffix}` : ''}_${date}.${extension}`;
+};
+
+const downloadTextFile = (content: string, fileName: string, mimeType: string) => {
+  downloadBlob(new Blob([content], { type: mimeType }), fileName);
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Save the export as a file instead of copying it to the clipboard
+const downloadProjectFile = () => {
+  try {
+    const exportObject = {
+      projectData: buildProjectData()
+    };
+    downloadTextFile(serializeProjectFile(exportObject, exportTarget), getProjectFileName('json'), 'application/json');
+  } catch (error) {
+    console.error('Error downloading project file:', error);
+    alert('Failed to download project file');
+  }
+};
+
+// Footprint corners of a cabinet, in the run's rear-left based frame (see calculateRunCorners)
+const calculateCabinetCorners = (cabinet: Cabinet, run: CabinetRun): Point[] => {
+  const rotationRad = (run.rotation_z * Math.PI) / 180;
+  const along = { x: Math.cos(rotationRad), y: Math.sin(rotationRad) };
+  const toFront = { x: Math.sin(rotationRad) * run.depth, y: -Math.cos(rotationRad) * run.depth };
+  
+  const rearStart = {
+    x: run.start_pos_x + along.x * cabinet.position,
+    y: run.start_pos_y + along.y * cabinet.position
+  };
+  const rearEnd = {
+    x: rearStart.x + along.x * cabinet.cabinet_width,
+    y: rearStart.y + along.y * cabinet.cabinet_width
+  };
+  
+  return [
+    rearStart,
+    rearEnd,
+    { x: rearEnd.x + toFront.x, y: rearEnd.y + toFront.y },
+    { x: rearStart.x + toFront.x, y: rearStart.y + toFront.y }
+  ];
+};
+
+// The plan as drawing entities, shared by the CAD/vector exports
+const buildPlanSource = (): PlanSource => ({
+  rooms: rooms.map(room => ({
+    points: room.points,
+    isComplete: room.isComplete,
+    noClosingWall: room.noClosingWall,
+    wallThickness: room.wall_thickness,
+    doors: room.doors,
+    windows: room.windows
+  })),
+  cabinetRuns: cabinetRuns.map(run => {
+    const corners = calculateRunCorners(run);
+    return [corners.rearLeft, corners.rearRight, corners.frontRight, corners.frontLeft];
+  }),
+  cabinets: cabinets.flatMap(cabinet => {
+    const run = cabinetRuns.find(r => r.id === cabinet.cabinet_run_id);
+    return run ? [calculateCabinetCorners(cabinet, run)] : [];
+  }),
+  countertops: countertopSlabs.flatMap(slab => [
+    ...slab.pieces.map(piece => piece.outline),
+    ...slab.cutouts.map(cutout => cutout.outline)
+  ]),
+  camera: camera ? { position: camera.position, rotation: camera.rotation } : null
+});
+
+// Replay the canvas drawing into a recorder to get the plan as vector shapes
+const recordPlanShapes = () => {
+  const canvas = canvasRef.current;
+  const recorder = new VectorRecorder(canvas?.width ?? CANVAS_WIDTH_px, canvas?.height ?? CANVAS_HEIGHT_px);
+  drawPlan(recorder as unknown as CanvasRenderingContext2D);
+  return recorder.shapes;
+};
+
+const downloadSvgFile = () => {
+  try {
+    const svg = buildSvg(recordPlanShapes(), projectAddress || 'Floor plan');
+    downloadTextFile(svg, getProjectFileName('svg'), 'image/svg+xml');
+  } catch (error) {
+    console.error('Error exporting SVG:', error);
+    alert('Failed to export SVG file');
+  }
+};
+
+const downloadPdfFile = (settings: PlanPdfSettings) => {
+  try {
+    const pdf = buildPlanPdf(recordPlanShapes(), {
+      ...settings,
+      address: projectAddress,
+      date: new Date().toLocaleDateString(),
+      toWorld: point => screenToWorld(point.x, point.y)
+    });
+    downloadBlob(new Blob([pdf], { type: 'application/pdf' }), getProjectFileName('pdf'));
+    setIsPdfDialogOpen(false);
+  } catch (error) {
+    console.error('Error exporting PDF:', error);
+    alert('Failed to export PDF file');
+  }
+};
+
+const downloadDxfFile = () => {
+  try {
+    const dxf = buildDxf(buildPlanEntities(buildPlanSource()));
+    downloadTextFile(dxf, getProjectFileName('dxf'), 'application/dxf');
+  } catch (error) {
+    console.error('Error exporting DXF:', error);
+    alert('Failed to export DXF file');
+  }
+};
+
+// How each run's cabinets and fillers fill its length
+const runFitStatuses = useMemo(() => new Map<number, RunFitStatus>(cabinetRuns.map(run => [
+  run.id,
+  getRunFitStatus(
+    run.length,
+    getRunFillerWidths(run),
+    cabinets.filter(c => c.cabinet_run_id === run.id).map(c => c.cabinet_width)
+  )
+])), [cabinetRuns, cabinets]);
+
+// Countertops over the base runs that have cabinets. Tall cabinets interrupt the counter
+const countertopSlabs = useMemo((): CountertopSlab[] => {
+  const countertopRuns: CountertopRun[] = cabinetRuns
+    .filter(run => run.type === 'Base' && cabinets.some(c => c.cabinet_run_id === run.id))
+    .map(run => {
+      const runCabinets = cabinets.filter(c => c.cabinet_run_id === run.id);
+      const definitions = new Map(runCabinets.map(c => [c.id, getCabinetDefinition(cabinetCatalog, c.cabinet_type)]));
+      return {
+        id: run.id,
+        origin: { x: run.start_pos_x, y: run.start_pos_y },
+        rotation: run.rotation_z,
+        length: run.length,
+        depth: run.depth,
+        startOpen: run.start_type === 'Open',
+        endOpen: run.end_type === 'Open',
+        isIsland: run.is_island,
+        startConnect: run.start_connect ?? undefined,
+        endConnect: run.end_connect ?? undefined,
+        breaks: runCabinets
+          .filter(c => definitions.get(c.id)?.category === 'Tall')
+          .map(c => ({ start: c.position, end: c.position + c.cabinet_width })),
+        cutouts: runCabinets.flatMap(c => {
+          const kind = getCountertopCutout(definitions.get(c.id) as CabinetTypeDefinition);
+          return kind ? [{ kind, cabinetId: c.id, start: c.position, width: c.cabinet_width }] : [];
+        })
+      };
+    });
+  return buildCountertops(countertopRuns, countertopSettings);
+}, [cabinetRuns, cabinets, cabinetCatalog, countertopSettings]);
+
+const runElevations = useMemo((): RunElevation[] => {
+  // Doors and windows in the wall the run is snapped to, projected onto the run
+  const getRunWallOpenings = (run: CabinetRun): ElevationOpening[] => {
+    const snappedWall = run.snapInfo?.snappedToWall;
+    const room = snappedWall ? rooms.find(r => r.id === snappedWall.roomId) : undefined;
+    if (!snappedWall || !room) return [];
+    
+    const rotationRad = (run.rotation_z * Math.PI) / 180;
+    const project = (point: Point) =>
+      (point.x - run.start_pos_x) * Math.cos(rotationRad) + (point.y - run.start_pos_y) * Math.sin(rotationRad);
+    const span = (startPoint: Point, endPoint: Point) => ({
+      start: Math.min(project(startPoint), project(endPoint)),
+      end: Math.max(project(startPoint), project(endPoint))
+    });
+    
+    return [
+      ...room.doors
+        .filter(door => door.wallIndex === snappedWall.wallIndex)
+        .map(door => ({ kind: 'door' as const, ...span(door.startPoint, door.endPoint), bottom: 0, top: door.height || DEFAULT_DOOR_HEIGHT })),
+      ...room.windows
+        .filter(window => window.wallIndex === snappedWall.wallIndex)
+        .map(window => ({
+          kind: 'window' as const,
+          ...span(window.startPoint, window.endPoint),
+          bottom: window.sillHeight,
+          top: window.sillHeight + window.height
+        }))
+    ];
+  };
+  
+  return cabinetRuns.map(run => {
+    const snappedRoom = rooms.find(r => r.id === run.snapInfo?.snappedToWall?.roomId);
+    const runCabinets: ElevationCabinet[] = cabinets
+      .filter(cabinet => cabinet.cabinet_run_id === run.id)
+      .sort((a, b) => a.position - b.position)
+      .map(cabinet => {
+        const definition = getCabinetDefinition(cabinetCatalog, cabinet.cabinet_type);
+        return {
+          id: cabinet.id,
+          type: cabinet.cabinet_type,
+          category: definition.category,
+          toeKick: definition.template.toeKick,
+          front: definition.template.front,
+          position: cabinet.position,
+          width: cabinet.cabinet_width,
+          ...getCabinetElevationExtent(cabinet, definition),
+          hingeRight: cabinet.hinge_right,
+          floatingShelf: definition.template.floatingShelf
+            ? {
+              depth: cabinet.floating_shelf_depth || 200,
+              thickness: cabinet.floating_shelf_height || 100,
+              count: cabinet.floating_shelf_num || 1,
+              spacing: cabinet.floating_shelf_vert_spacing || 350
+            }
+            : undefined
+        };
+      });
+  
+    return {
+      runId: run.id,
+      title: `Run ${run.id} (${run.is_island ? 'Island' : run.type})` +
+        (run.snapInfo?.snappedToWall ? ` - wall ${run.snapInfo.snappedToWall.wallIndex + 1}` : ''),
+      length: run.length,
+      bottom: run.type === 'Base' ? 0 : DEFAULT_UPPER_OFFSET,
+      top: run.type === 'Base' ? DEFAULT_BASE_HEIGHT : DEFAULT_UPPER_OFFSET + DEFAULT_UPPER_HEIGHT,
+      startFillerWidth: getRunFillerWidths(run).start,
+      endFillerWidth: getRunFillerWidths(run).end,
+      topFiller: run.top_filler,
+      ceilingHeight: (snappedRoom ?? mainRoom)?.height || DEFAULT_ROOM_HEIGHT,
+      cabinets: runCabinets,
+      openings: getRunWallOpenings(run)
+    };
+  });
+}, [cabinetRuns, cabinets, rooms, mainRoom, cabinetCatalog]);
+
+// Backsplash behind the base runs snapped to walls, from the countertop up to the upper
+// cabinets on the same wall or the set height. Nothing goes behind tall cabinets
+const backsplashes = useMemo((): Backsplash[] => {
+  const backsplashRuns: BacksplashRun[] = cabinetRuns.flatMap(run => {
+    const wall = run.snapInfo?.snappedToWall;
+    const elevation = runElevations.find(e => e.runId === run.id);
+    if (run.type !== 'Base' || run.is_island || run.omit_backsplash || !wall || !elevation || elevation.cabinets.length === 0) return [];
+    
+    // Upper cabinets on the same wall, projected onto this run
+    const rotationRad = (run.rotation_z * Math.PI) / 180;
+    const project = (point: Point) =>
+      (point.x - run.start_pos_x) * Math.cos(rotationRad) + (point.y - run.start_pos_y) * Math.sin(rotationRad);
+    const uppers = cabinetRuns
+      .filter(other => other.type === 'Upper' &&
+        other.snapInfo?.snappedToWall?.roomId === wall.roomId &&
+        other.snapInfo.snappedToWall.wallIndex === wall.wallIndex)
+      .flatMap(other => {
+        const otherRad = (other.rotation_z * Math.PI) / 180;
+        const at = (along: number) => project({
+          x: other.start_pos_x + along * Math.cos(otherRad),
+          y: other.start_pos_y + along * Math.sin(otherRad)
+        });
+        return (runElevations.find(e => e.runId === other.id)?.cabinets ?? [])
+          .filter(cabinet => cabinet.category === 'Wall')
+          .map(cabinet => {
+            const ends = [at(cabinet.position), at(cabinet.position + cabinet.width)];
+            return { start: Math.min(...ends), end: Math.max(...ends), bottom: cabinet.bottom };
+          });
+      });
+    
+    return [{
+      id: run.id,
+      wall: { roomId: wall.roomId, wallIndex: wall.wallIndex },
+      length: run.length,
+      counterHeight: elevation.top + countertopSettings.thickness,
+      breaks: elevation.cabinets
+        .filter(cabinet => cabinet.category === 'Tall')
+        .map(cabinet => ({ start: cabinet.position, end: cabinet.position + cabinet.width })),
+      uppers,
+      windows: elevation.openings.filter(opening => opening.kind === 'window')
+    }];
+  });
+  return buildBacksplashes(backsplashRuns, {
+    height: countertopSettings.backsplashHeight,
+    toUppers: countertopSettings.backsplashToUppers
+  });
+}, [cabinetRuns, runElevations, countertopSettings]);
+
+const backsplashWalls = useMemo(() => getBacksplashByWall(backsplashes).map(wall => {
+  const room = rooms.find(r => r.id === wall.roomId);
+  return { ...wall, label: `${room?.isMain ? 'Main Room' : `Room ${wall.roomId}`} - wall ${wall.wallIndex + 1}` };
+}), [backsplashes, rooms]);
+
+// What the fill dialog needs to know about its run: where the cabinets can go and
+// where the widest window behind the run is centred
+const fillRunContext = useMemo(() => {
+  const run = cabinetRuns.find(r => r.id === fillRunId);
+  if (!run) return null;
+  
+  const fillers = getRunFillerWidths(run);
+  const span = { start: fillers.start, end: run.length - fillers.end };
+  const windows = (runElevations.find(elevation => elevation.runId === run.id)?.openings ?? [])
+    .filter(opening => opening.kind === 'window' && opening.end > span.start && opening.start < span.end);
+  const widest = windows.reduce<ElevationOpening | null>(
+    (best, opening) => !best || opening.end - opening.start > best.end - best.start ? opening : best, null);
+  return { run, span, windowCentre: widest ? (widest.start + widest.end) / 2 : null };
+}, [cabinetRuns, fillRunId, runElevations]);
+
+// Extruded rooms and cabinet boxes for the camera preview
+const sceneFaces = useMemo(() => buildSceneFaces(
+  rooms.map(room => ({
+    points: room.points,
+    isComplete: room.isComplete,
+    noClosingWall: room.noClosingWall,
+    height: room.height || DEFAULT_ROOM_HEIGHT,
+    wallThickness: room.wall_thickness,
+    doors: room.doors.map(door => ({ ...door, height: door.height || DEFAULT_DOOR_HEIGHT })),
+    windows: room.windows
+  })),
+  runElevations.flatMap(elevation => {
+    const run = cabinetRuns.find(r => r.id === elevation.runId);
+    return run
+      ? [{ start: { x: run.start_pos_x, y: run.start_pos_y }, rotation: run.rotation_z, depth: run.depth, elevation }]
+      : [];
+  })
+), [rooms, cabinetRuns, runElevations]);
+
+const sceneCamera = useMemo((): SceneCamera | null => camera && {
+  position: camera.position,
+  rotation: camera.rotation,
+  height: camera.height !== undefined ? camera.height : 1700,
+  focalLength: camera.focalLength || 24,
+  shiftY: camera.shiftY !== undefined ? camera.shiftY : -0.2,
+  sensorWidth
+}, [camera, sensorWidth]);
+
+// Camera on the walkthrough path at the scrubbed time
+const pathPreviewCamera = useMemo((): SceneCamera | null => {
+  if (pathPreviewTime === null) return null;
+  const state = getCameraAtTime(cameraPath, pathPreviewTime);
+  return state && {
+    position: state.position,
+    rotation: state.rotation,
+    height: state.height,
+    focalLength: state.focalLength,
+    shiftY: 0,
+    sensorWidth
+  };
+}, [cameraPath, pathPreviewTime, sensorWidth]);
+
+const downloadElevationSvg = (elevation: RunElevation, svg: string) => {
+  downloadTextFile(svg, getProjectFileName('svg', `run${elevation.runId}_elevation`), 'image/svg+xml');
+};
+
 // Add this helper function to handle clipboard copying as a fallback
 const fallbackCopyTextToClipboard = (text: string) => {
   const textArea = document.createElement('textarea');
@@ -4011,21 +5031,112 @@ const fallbackCopyTextToClipboard = (text: string) => {
   document.body.removeChild(textArea);
 };
 
-const handleLoadJSON = () => {
-  // Only allow loading when no rooms or elements have been created
-  if (rooms.length > 0 && rooms.some(room => room.points.length > 0)) {
-    alert('Cannot load JSON when elements already exist. Please reset first.');
+// Small PNG of the current plan view, shown in the project browser
+const createProjectThumbnail = (): string | null => {
+  const canvas = canvasRef.current;
+  if (!canvas) return null;
+
+  const thumbnail = document.createElement('canvas');
+  thumbnail.width = THUMBNAIL_WIDTH_px;
+  thumbnail.height = Math.round(THUMBNAIL_WIDTH_px * canvas.height / canvas.width);
+  const ctx = thumbnail.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, thumbnail.width, thumbnail.height);
+  ctx.drawImage(canvas, 0, 0, thumbnail.width, thumbnail.height);
+  return thumbnail.toDataURL('image/png');
+};
+
+// Record the design as it was sent to the server as the saved state. Edits made while the
+// save was under way keep the project dirty
+const markProjectSaved = (savedState: string) => {
+  savedProjectStateRef.current = savedState;
+  const isUnchanged = currentProjectStateRef.current === savedState;
+  if (isUnchanged) savedProjectStateResetUntilRef.current = Date.now() + HISTORY_MERGE_WINDOW_MS;
+  setIsDirty(!isUnchanged);
+};
+
+const saveProjectToServer = async (mode: SaveMode, name: string) => {
+  const data = buildProjectData();
+  const savedState = serializeSavedProjectState(projectAddress, { rooms, cabinetRuns, cabinets, cameraShots, activeShotId, cameraPath, customCabinetTypes, countertopSettings });
+  const details = { name: name.trim(), thumbnail: createProjectThumbnail() };
+
+  setIsSavingProject(true);
+  try {
+    let saved: Project;
+    if (mode === 'overwrite' && serverProject) {
+      try {
+        saved = await projectApi.updateProject(serverProject.id, serverProject.version, data, details);
+      } catch (error) {
+        if (!(error instanceof ProjectConflictError)) throw error;
+        // Someone else saved this project since we opened it
+        if (!window.confirm('This project was changed on the server since you opened it. Overwrite those changes?')) {
+          return;
+        }
+        saved = await projectApi.updateProject(serverProject.id, error.currentVersion, data, details);
+      }
+    } else {
+      saved = await projectApi.createProject(data, details);
+    }
+
+    setServerProject({ id: saved.id, name: saved.name, version: saved.version });
+    markProjectSaved(savedState);
+    setIsSaveDialogOpen(false);
+  } catch (error) {
+    console.error('Error saving project:', error);
+    alert('Error saving project: ' + (error instanceof Error ? error.message : String(error)));
+  } finally {
+    setIsSavingProject(false);
+  }
+};
+
+const openProjectFromServer = async (projectId: number) => {
+  if (isDirty && !window.confirm('You have unsaved changes. Discard them and open another project?')) {
     return;
   }
-  
+
+  try {
+    const project = await projectApi.getProject(projectId);
+    setIsProjectBrowserOpen(false);
+    loadProjectData(project.data, () => {
+      setServerProject({ id: project.id, name: project.name, version: project.version });
+      // The loaded design becomes the saved state once it has settled
+      savedProjectStateRef.current = null;
+    });
+  } catch (error) {
+    console.error('Error opening project:', error);
+    alert('Error opening project: ' + (error instanceof Error ? error.message : String(error)));
+  }
+};
+
+// Called by the autosave timer. Reassigned every render so it always sees the latest state
+autosaveRef.current = () => {
+  writeAutosave({
+    savedAt: new Date().toISOString(),
+    data: buildProjectData(),
+    serverProject
+  });
+};
+
+const restoreAutosave = (snapshot: AutosaveSnapshot) => {
+  setRestoreSnapshots(null);
+  loadProjectData(snapshot.data, () => setServerProject(snapshot.serverProject));
+};
+
+const discardAutosaves = () => {
+  if (!window.confirm('Delete all autosaved snapshots? This cannot be undone.')) return;
+  clearAutosaves();
+  setRestoreSnapshots(null);
+};
+
+const handleLoadJSON = () => {
   // Trigger the hidden file input
   document.getElementById('jsonFileInput').click();
 };
 
-const handleFileSelect = (event) => {
-  const file = event.target.files[0];
-  if (!file) return;
-  
+// Read a project file picked from disk or dropped onto the canvas
+const importProjectFile = (file: File) => {
   // Only accept JSON files
   if (!file.name.endsWith('.json')) {
     alert('Please select a JSON file (.json)');
@@ -4036,19 +5147,17 @@ const handleFileSelect = (event) => {
   reader.onload = (e) => {
     try {
       // Parse the JSON content
-      const jsonContent = e.target.result;
+      const jsonContent = e.target.result as string;
       console.log("Raw JSON content length:", jsonContent.length);
       
       // Log a preview of the content for debugging
       console.log("JSON preview:", jsonContent.substring(0, 1000) + "...");
       
-      // Ensure True/False are properly converted to true/false for JavaScript
-      const fixedContent = jsonContent.replace(/True/g, 'true').replace(/False/g, 'false');
-      
-      const parsedData = JSON.parse(fixedContent);
+      // Accepts both strict JSON and the Python-style True/False export
+      const parsedData = parseProjectFile(jsonContent) as { projectData?: ProjectData };
       
       if (!parsedData.projectData) {
-        alert('Invalid JSON format: missing projectData');
+        showImportError('Invalid JSON format: missing projectData');
         return;
       }
       
@@ -4063,27 +5172,211 @@ const handleFileSelect = (event) => {
         console.log("First cabinet:", parsedData.projectData.cabinets[0]);
       }
       
-      // Load the data into the application
-      loadProjectData(parsedData.projectData);
+      // Ask what to do with the current design before touching it
+      if (rooms.some(room => room.points.length > 0)) {
+        setPendingImport({ fileName: file.name, projectData: parsedData.projectData });
+        return;
+      }
+      
+      // Load the data into the application. A file import is not tied to a server project
+      loadProjectData(parsedData.projectData, () => setServerProject(null));
     } catch (error) {
       console.error('Error parsing JSON:', error);
-      alert('Error loading JSON file: ' + error.message);
+      showImportError('Error loading JSON file: ' + error.message);
     }
   };
   
   reader.readAsText(file);
+};
+
+const handleFileSelect = (event) => {
+  const file = event.target.files[0];
+  if (!file) return;
+  
+  importProjectFile(file);
   
   // Reset the file input so the same file can be selected again
   event.target.value = '';
 };
 
+const handleImportModeChoice = (mode: ImportMode) => {
+  if (!pendingImport) return;
+  const { projectData } = pendingImport;
+  setPendingImport(null);
+  
+  if (mode === 'replace') {
+    loadProjectData(projectData, () => setServerProject(null));
+  } else {
+    // Merged data becomes part of the current (server) project
+    loadProjectData(projectData, undefined, 'merge');
+  }
+};
+
+const handleCanvasDragOver = (e: React.DragEvent<HTMLCanvasElement>) => {
+  // Required for the canvas to accept drops
+  if (e.dataTransfer.types.includes('Files')) {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  }
+};
+
+const handleCanvasDrop = (e: React.DragEvent<HTMLCanvasElement>) => {
+  e.preventDefault();
+  const file = e.dataTransfer.files[0];
+  if (file) {
+    importProjectFile(file);
+  }
+};
 
-const loadProjectData = (projectData) => {
+// Read closed outlines from a DXF/SVG survey plan and let the user trace them into rooms
+const handlePlanFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const file = event.target.files?.[0];
+  if (!file) return;
+  
+  const reader = new FileReader();
+  reader.onload = () => {
+    try {
+      const plan = parsePlanFile(file.name, reader.result as string);
+      if (plan.outlines.length === 0) {
+        alert('No closed polylines or paths found in this file');
+        return;
+      }
+      setPlanImport({ fileName: file.name, plan });
+    } catch (error) {
+      console.error('Error reading plan file:', error);
+      alert('Error reading plan file: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+  reader.readAsText(file);
+  
+  // Reset the file input so the same file can be selected again
+  event.target.value = '';
+};
+
+const importPlanRooms = (mainOutline: Point[] | null, secondaryOutlines: Point[][]) => {
+  if (mainOutline && rooms.some(room => room.points.length > 0) &&
+      !window.confirm('The imported main room replaces the current design. Continue?')) {
+    return;
+  }
+  setPlanImport(null);
+  
+  const createRoom = (id: string, points: Point[], isMain: boolean): Room => ({
+    id,
+    points: points.map(point => ({ x: point.x, y: point.y })),
+    doors: [],
+    windows: [],
+    isComplete: true,
+    isMain,
+    height: DEFAULT_ROOM_HEIGHT,
+    wall_thickness: DEFAULT_WALL_THICKNESS,
+    wall_material: DEFAULT_WALL_MATERIAL,
+    floor_material: DEFAULT_FLOOR_MATERIAL,
+    ceiling_material: DEFAULT_CEILING_MATERIAL
+  });
+  
+  // Either start over from the imported main room, or add to the current rooms.
+  // Work on copies, since the attachment check updates points in place
+  const baseRooms = mainOutline
+    ? [createRoom('main', mainOutline, true)]
+    : rooms.map(room => ({ ...room, points: room.points.map(point => ({ ...point })) }));
+  
+  const usedNumbers = baseRooms.map(room => room.isMain ? 0 : parseInt(room.id.replace('room-', '')) || 0);
+  let nextNumber = Math.max(0, ...usedNumbers) + 1;
+  const newRooms = secondaryOutlines.map(points => createRoom(`room-${nextNumber++}`, points, false));
+  
+  // Secondary room points on a main room wall get attached, like when loading a project
+  const verifiedRooms = verifyAndUpdateAttachments([...baseRooms, ...newRooms]);
+  
+  // Starting over is a new project, like opening a file: nothing of the old one carries over
+  if (mainOutline) {
+    setProjectAddress('');
+    setServerProject(null);
+    setCustomCabinetTypes([]);
+    setCountertopSettings(DEFAULT_COUNTERTOP_SETTINGS);
+    setCabinetRuns([]);
+    setCabinets([]);
+    setCustomDepthRuns({});
+    setCameraShots([]);
+    setActiveShotId(null);
+    setCameraPath(EMPTY_CAMERA_PATH);
+    setPathPreviewTime(null);
+    setSelectedRun(null);
+    setSelectedCabinet(null);
+  }
+  setSelectedPoint(null);
+  setRooms(verifiedRooms);
+  setActiveRoomId(mainOutline ? 'main' : newRooms[0].id);
+};
+
+
+// Show a load failure in the import report panel
+const showImportError = (message: string) => {
+  setImportReport({
+    issues: [{ path: '$', severity: 'error', message }],
+    canImport: false,
+    onImport: () => {}
+  });
+};
+
+// Migrate and validate project data, then load it right away or, if anything was found,
+// show the import report first. `onLoaded` only runs once the data has actually been loaded
+const loadProjectData = (rawProjectData: unknown, onLoaded?: () => void, mode: ImportMode = 'replace') => {
+  const issues: ValidationIssue[] = [];
+  let validation: ValidationResult;
   try {
-    // Set project address if available
-    if (projectData.address) {
-      setProjectAddress(projectData.address);
+    // Bring files from older versions of the tool up to the current layout
+    const { data: migratedData, fromVersion, upgrades } = migrateProjectData(rawProjectData as RawProjectData);
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+      issues.push({
+        path: '$.schemaVersion',
+        severity: 'warning',
+        message: `Saved by a newer version of the designer (schema ${fromVersion}); some data may not load correctly`
+      });
+    }
+    upgrades.forEach(upgrade => {
+      issues.push({ path: '$.schemaVersion', severity: 'info', message: upgrade.trim() });
+    });
+
+    validation = validateProjectData(migratedData);
+  } catch (error) {
+    console.error('Error loading project data:', error);
+    showImportError('Error loading project data: ' + (error instanceof Error ? error.message : String(error)));
+    return;
+  }
+  issues.push(...validation.issues);
+
+  const importValidData = () => {
+    setImportReport(null);
+    if (mode === 'merge') {
+      // Let the user pick what to bring in and where, see mergeProjectData
+      setMergeCandidate({ projectData: validation.data, onLoaded });
+    } else if (applyProjectData(validation.data)) {
+      onLoaded?.();
     }
+  };
+
+  if (issues.length === 0) {
+    importValidData();
+  } else {
+    setImportReport({ issues, canImport: validation.canImport, onImport: importValidData });
+  }
+};
+
+// Load validated project data into the designer. Returns false if that failed
+const applyProjectData = (projectData: ProjectData): boolean => {
+  try {
+    // Replace the whole design, so nothing from the previous one survives
+    setProjectAddress(projectData.address || '');
+    setCabinetRuns([]);
+    setCabinets([]);
+    setCustomDepthRuns({});
+    setCameraShots([]);
+    setActiveShotId(null);
+    setCameraPath(EMPTY_CAMERA_PATH);
+    setPathPreviewTime(null);
+    setSelectedRun(null);
+    setSelectedCabinet(null);
+    setSelectedPoint(null);
     
     // Load rooms
     if (projectData.rooms && Array.isArray(projectData.rooms)) {
@@ -4113,7 +5406,7 @@ const loadProjectData = (projectData) => {
       setCabinets(loadedCabinets);
       
       // Set custom depth flag for any run with non-default depth
-      const customDepths = {};
+      const customDepths: { [key: string]: boolean } = {};
       loadedCabinets.forEach(cabinet => {
         const run = projectData.cabinetRuns.find(r => r.id === cabinet.cabinet_run_id);
         if (run) {
@@ -4126,22 +5419,111 @@ const loadProjectData = (projectData) => {
       setCustomDepthRuns(customDepths);
     }
     
-    // Load camera if present
-    if (projectData.camera) {
-      setCamera(parseCameraData(projectData.camera));
-    }
+    // Load cameras. Older files only have the single camera and focal point
+    const shotData = projectData.cameras?.length
+      ? projectData.cameras
+      : projectData.camera
+        ? [{ name: 'Camera 1', camera: projectData.camera, focalPoint: projectData.focalPoint }]
+        : [];
+    const loadedShots = parseCameraShots(shotData, []);
+    setCameraShots(loadedShots);
+    setActiveShotId(loadedShots.length > 0
+      ? (loadedShots[projectData.activeCamera ?? 0] ?? loadedShots[0]).id
+      : null);
     
-    // Load focal point if present
-    if (projectData.focalPoint) {
-      setFocalPoint(parseFocalPointData(projectData.focalPoint));
-    }
+    // Load the walkthrough path if present
+    setCameraPath(projectData.cameraPath ? parseCameraPathData(projectData.cameraPath) : EMPTY_CAMERA_PATH);
+    
+    setCustomCabinetTypes(projectData.customCabinetTypes ?? []);
+    setCountertopSettings(projectData.countertopSettings ?? DEFAULT_COUNTERTOP_SETTINGS);
+    return true;
   } catch (error) {
     console.error('Error loading project data:', error);
-    alert('Error loading project data: ' + error.message);
+    showImportError('Error loading project data: ' + (error instanceof Error ? error.message : String(error)));
+    return false;
   }
 };
 
 
+// Add the selected parts of validated project data to the current design
+const mergeProjectData = (options: MergeOptions) => {
+  if (!mergeCandidate) return;
+  const { projectData, onLoaded } = mergeCandidate;
+  setMergeCandidate(null);
+  
+  try {
+    // Use the numbers in the state ids ('room-N'), not createRoomIdMapping: that one renumbers
+    // rooms for export, while parseRoomData turns the new ids straight into 'room-N'
+    const mergeData = prepareMergeData(projectData, {
+      roomIds: rooms.map(room => room.id === 'main' ? 0 : parseInt(room.id.replace('room-', ''))),
+      runIds: cabinetRuns.map(run => run.id),
+      cabinetIds: cabinets.map(cabinet => cabinet.id)
+    }, options);
+    
+    // Attach imported points to walls of either design. Work on copies, since the check
+    // updates points in place and the current rooms are React state
+    const newRooms = mergeData.rooms.map(roomData => parseRoomData(roomData));
+    const currentRooms = rooms.map(room => ({ ...room, points: room.points.map(point => ({ ...point })) }));
+    const newRoomIds = new Set(newRooms.map(room => room.id));
+    const verifiedRooms = verifyAndUpdateAttachments([...currentRooms, ...newRooms])
+      .filter(room => newRoomIds.has(room.id));
+    
+    // Imported custom types named like one of the design's own but defined differently are
+    // renamed, and their cabinets with them. Identical ones are shared
+    const usedTypeNames = new Set(customCabinetTypes.map(type => type.name));
+    const renamedTypes = new Map<string, string>();
+    const newTypes = mergeData.customCabinetTypes.flatMap(type => {
+      const existing = customCabinetTypes.find(t => t.name === type.name);
+      if (!existing) return [type];
+      if (isSameCabinetType(existing, type)) return [];
+      let name = `${type.name} (imported)`;
+      for (let i = 2; usedTypeNames.has(name); i++) name = `${type.name} (imported ${i})`;
+      usedTypeNames.add(name);
+      renamedTypes.set(type.name, name);
+      return [{ ...type, name }];
+    });
+    
+    const newRuns = mergeData.cabinetRuns.map(runData => parseCabinetRunData(runData));
+    const newCabinets = mergeData.cabinets
+      .map(cabinetData => parseCabinetData(cabinetData))
+      .map(cabinet => ({ ...cabinet, cabinet_type: renamedTypes.get(cabinet.cabinet_type) ?? cabinet.cabinet_type }));
+    
+    // Set custom depth flag for any imported run with non-default depth
+    const customDepths: { [key: string]: boolean } = {};
+    mergeData.cabinetRuns.forEach(run => {
+      const defaultDepth = run.type === 'Base' ? DEFAULT_RUN_DEPTH_BASE : DEFAULT_RUN_DEPTH_UPPER;
+      if (Math.abs(run.dimensions.depth - defaultDepth) > 1) {
+        customDepths[run.id] = true;
+      }
+    });
+    
+    setRooms(prev => [...prev, ...verifiedRooms]);
+    setCabinetRuns(prev => [...prev, ...newRuns]);
+    setCabinets(prev => [...prev, ...newCabinets]);
+    setCustomDepthRuns(prev => ({ ...prev, ...customDepths }));
+    
+    // Imported cameras are added to the list. The active camera stays active
+    const newShots = parseCameraShots(mergeData.cameras, cameraShots);
+    setCameraShots(prev => [...prev, ...newShots]);
+    if (!activeShot && newShots.length > 0) {
+      setActiveShotId(newShots[0].id);
+    }
+    // There's only one path. Keep the current one unless it's empty
+    if (cameraPath.keyframes.length === 0 && mergeData.cameraPath) {
+      setCameraPath(parseCameraPathData(mergeData.cameraPath));
+    }
+    setCustomCabinetTypes(prev => [...prev, ...newTypes]);
+    if (renamedTypes.size > 0) {
+      alert('These imported cabinet types differ from the design\'s types of the same name and were renamed:\n' +
+        Array.from(renamedTypes, ([from, to]) => `${from} -> ${to}`).join('\n'));
+    }
+    onLoaded?.();
+  } catch (error) {
+    console.error('Error merging project data:', error);
+    showImportError('Error merging project data: ' + (error instanceof Error ? error.message : String(error)));
+  }
+};
+
 const parseRoomData = (roomData) => {
   // Create a unique room ID based on the loaded ID
   const roomId = roomData.isMain ? 'main' : `room-${roomData.id}`;
@@ -4154,11 +5536,11 @@ const parseRoomData = (roomData) => {
     windows: [],
     isComplete: roomData.isComplete,
     isMain: roomData.isMain,
-    height: roomData.height || 2438,
-    wall_thickness: roomData.wall_thickness || 200,
-    wall_material: roomData.wall_material || "Simple Wall Material",
-    floor_material: roomData.floor_material || "WoodFlooring_1",
-    ceiling_material: roomData.ceiling_material || "Simple Wall Material",
+    height: roomData.height || DEFAULT_ROOM_HEIGHT,
+    wall_thickness: roomData.wall_thickness || DEFAULT_WALL_THICKNESS,
+    wall_material: roomData.wall_material || DEFAULT_WALL_MATERIAL,
+    floor_material: roomData.floor_material || DEFAULT_FLOOR_MATERIAL,
+    ceiling_material: roomData.ceiling_material || DEFAULT_CEILING_MATERIAL,
     noClosingWall: roomData.noClosingWall || false
   };
   
@@ -4230,10 +5612,10 @@ const parseRoomData = (roomData) => {
         width,
         startPoint,
         endPoint,
-        height: roomData.doors.heights?.[i] || 2032,
-        frameThickness: roomData.doors.frameThicknesses?.[i] || 20,
-        frameWidth: roomData.doors.frameWidths?.[i] || 100,
-        material: roomData.doors.materials?.[i] || "PaintGrade"  // Changed default material
+        height: roomData.doors.heights?.[i] || DEFAULT_DOOR_HEIGHT,
+        frameThickness: roomData.doors.frameThicknesses?.[i] || DEFAULT_DOOR_FRAME_THICKNESS,
+        frameWidth: roomData.doors.frameWidths?.[i] || DEFAULT_DOOR_FRAME_WIDTH,
+        material: roomData.doors.materials?.[i] || DEFAULT_DOOR_MATERIAL
       };
       
       // Only add doors for walls that we're actually creating
@@ -4459,9 +5841,11 @@ const parseCabinetRunData = (runData) => {
     
     // Handle connections - could be "None" string in the JSON
     start_connect: typeof runData.properties?.start_connect === 'number' ? 
-                   Number(runData.properties?.start_connect) : null,
+                   Number(runData.properties?.start_connect) : undefined,
     end_connect: typeof runData.properties?.end_connect === 'number' ? 
-                 Number(runData.properties?.end_connect) : null,
+                 Number(runData.properties?.end_connect) : undefined,
+    fit_mode: runData.properties?.fit_mode,
+    filler_widths: runData.properties?.filler_widths,
                  
     snapInfo: snapInfo
   };
@@ -4476,7 +5860,7 @@ const parseCabinetData = (cabinetData) => {
     cabinet_type: cabinetData.cabinet_type || 'Base - 2-Drawer',
     cabinet_width: Number(cabinetData.cabinet_width) || 600,
     hinge_right: Boolean(cabinetData.hinge_right),
-    material_doors: cabinetData.material_doors || 'PaintGrade', // Changed default material
+    material_doors: cabinetData.material_doors || DEFAULT_CABINET_MATERIAL,
     position: Number(cabinetData.position) || 0,
     // Add default values for floating shelf parameters if needed
     floating_shelf_depth: Number(cabinetData.floating_shelf_depth) || 200,
@@ -4514,6 +5898,33 @@ const parseFocalPointData = (focalPointData) => {
   };
 };
 
+// Turn exported cameras into shots with ids that don't clash with the existing ones
+const parseCameraShots = (shotData: ExportedCameraShot[], existingShots: CameraShot[]): CameraShot[] => {
+  const shots: CameraShot[] = [];
+  shotData.forEach(data => {
+    shots.push({
+      id: getNextShotId([...existingShots, ...shots]),
+      name: data.name,
+      camera: parseCameraData(data.camera),
+      focalPoint: data.focalPoint ? parseFocalPointData(data.focalPoint) : null,
+      aimAtFocalPoint: data.aimAtFocalPoint ?? true
+    });
+  });
+  return shots;
+};
+
+const parseCameraPathData = (pathData: ExportedCameraPath): CameraPath => ({
+  frameRate: pathData.frameRate || DEFAULT_FRAME_RATE,
+  duration: pathData.duration || 0,
+  keyframes: sortKeyframes(pathData.keyframes.map(keyframe => ({
+    time: keyframe.time,
+    position: { x: keyframe.position.x, y: keyframe.position.y },
+    rotation: keyframe.rotation || 0,
+    height: keyframe.position.z || 1700,
+    focalLength: keyframe.focalLength || 24
+  })))
+});
+
 const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
   // Don't need e.preventDefault() here since we're doing it in the direct event listener
   
@@ -4552,6 +5963,13 @@ const handleCanvasMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
   
   const mousePos = getMousePosition(e);
 
+  // While building a camera path every click places a keyframe
+  if (isAddingKeyframes) {
+    addPathKeyframe(mousePos);
+    e.stopPropagation();
+    return;
+  }
+
   // Check for focal point handle first
   if (focalPoint) {
     if (isFocalPointHandle(mousePos)) {
@@ -4592,29 +6010,11 @@ const handleCanvasMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
       e.stopPropagation();
       return;
     }
-  }
-
-  // Handle camera placement as top priority
-  if (isAddingCamera) {
-    const newCamera = {
-      position: mousePos,
-      rotation: 0,
-      isDragging: false,
-      isRotating: false
-    };
-    
-    setCamera(newCamera);
-    setIsAddingCamera(false);
-    
-    // Force immediate redraw with the new camera
-    const canvas = canvasRef.current;
-    if (canvas) {
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        drawRoom();
-      }
-    }
-    
+  }
+
+  // Handle camera placement as top priority
+  if (isAddingCamera) {
+    placeCamera(mousePos);
     e.stopPropagation();
     return;
   }
@@ -5939,7 +7339,7 @@ const checkAndFixSecondaryRooms = (rooms: Room[]) => {
 };
  
 const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-  if (!activeRoom || activeRoom.isComplete || isDragging || isPanning || addingDoor || addingWindow) return;
+  if (!activeRoom || activeRoom.isComplete || isDragging || isPanning || addingDoor || addingWindow || isAddingKeyframes) return;
 
   const canvas = canvasRef.current;
   if (!canvas) return;
@@ -5956,13 +7356,7 @@ const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
   // Handle camera placement next
   if (isAddingCamera) {
     const mousePos = getMousePosition(e);
-    setCamera({
-      position: mousePos,
-      rotation: 0,
-      isDragging: false,
-      isRotating: false
-    });
-    setIsAddingCamera(false);
+    placeCamera(mousePos);
     
     // Force redraw right away 
     drawRoom();
@@ -6298,11 +7692,11 @@ const startAddingSecondaryRoom = () => {
     windows: [],
     isComplete: false,
     isMain: false,
-    height: 2438, // Default height in mm
-    wall_thickness: 200, // Default wall thickness in mm
-    wall_material: "Simple Wall Material", // Default wall material
-    floor_material: "WoodFlooring_1", // Default floor material
-    ceiling_material: "Simple Wall Material" // Default ceiling material
+    height: DEFAULT_ROOM_HEIGHT, // Default height in mm
+    wall_thickness: DEFAULT_WALL_THICKNESS, // Default wall thickness in mm
+    wall_material: DEFAULT_WALL_MATERIAL, // Default wall material
+    floor_material: DEFAULT_FLOOR_MATERIAL, // Default floor material
+    ceiling_material: DEFAULT_CEILING_MATERIAL // Default ceiling material
   };
   
   setRooms([...rooms, newRoom]);
@@ -6737,18 +8131,8 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
 
   const handleNewCabinetWidthBlur = () => {
     if (editingNewCabinetWidth !== '') {
-      // Get constraints for the current cabinet type
-      const fixedWidth = getFixedCabinetWidth(newCabinetType);
-      const minWidth = getMinCabinetWidth(newCabinetType);
-      
-      // Don't validate if this cabinet type has a fixed width
-      if (fixedWidth !== null) {
-        setNewCabinetWidth(fixedWidth);
-      } else {
-        // Apply minimum width constraint
-        const newWidth = Math.max(minWidth, Number(editingNewCabinetWidth));
-        setNewCabinetWidth(newWidth);
-      }
+      // Keep the width within the limits of the current cabinet type
+      setNewCabinetWidth(clampWidthForType(newCabinetType, Number(editingNewCabinetWidth)));
     }
     
     // Clear the editing state
@@ -7073,8 +8457,32 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
     
     // Draw each component
     drawGrid(ctx, canvas);
+    drawPlan(ctx);
+  }
+  
+  // Everything on the plan except the grid. Also used by the vector exports
+  const drawPlan = (ctx: CanvasRenderingContext2D) => {
     drawRooms(ctx);
-    drawCabinetRuns(ctx, canvas);
+    drawCabinetRuns(ctx);
+    if (showCountertops) drawCountertops(ctx);
+    drawCameraPath(ctx);
+    
+    // The other cameras only get a marker and their name
+    cameraShots.forEach(shot => {
+      if (shot.id === activeShotId) return;
+      const shotPos = worldToScreen(shot.camera.position.x, shot.camera.position.y);
+      ctx.beginPath();
+      ctx.arc(shotPos.x, shotPos.y, POINT_RADIUS * 1.5, 0, Math.PI * 2);
+      ctx.fillStyle = '#9ca3af';
+      ctx.fill();
+      ctx.strokeStyle = '#000';
+      ctx.lineWidth = 1;
+      ctx.stroke();
+      ctx.fillStyle = '#6b7280';
+      ctx.font = '12px Arial';
+      ctx.textAlign = 'left';
+      ctx.fillText(shot.name, shotPos.x + POINT_RADIUS * 2, shotPos.y - POINT_RADIUS * 2);
+    });
     
     // Draw focal point if it exists first (so it's behind the FOV cone)
     if (focalPoint) {
@@ -7085,7 +8493,7 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
     if (camera) {
       drawCamera(ctx, camera);
     }
-  }
+  };
   
   const drawCamera = (ctx: CanvasRenderingContext2D, camera: { 
     position: Point; 
@@ -7094,6 +8502,7 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
     isRotating: boolean;
     focalLength?: number;
     height?: number;
+    shiftY?: number;
   }) => {
     // Convert camera position to screen coordinates
     const screenPos = worldToScreen(camera.position.x, camera.position.y);
@@ -7128,38 +8537,30 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
     const focalLength = camera.focalLength !== undefined ? camera.focalLength : 24; 
     const cameraHeight = camera.height !== undefined ? camera.height : 1700;
     
-    // Calculate FOV angle using the formula FOV = 2 × arctan(sensor size / (2 × focal length))
-    const sensorSize = 28; // 28mm sensor size
-    const fovAngle = 2 * Math.atan(sensorSize / (2 * focalLength)) * (180 / Math.PI);
-    
-    // Draw FOV cone
-    const coneLength = 3000; // Length of the FOV cone in mm
-    const coneAngleRad = (fovAngle * Math.PI) / 180;
+    // Horizontal field of view from the focal length and sensor width
+    const fovAngle = getHorizontalFov(focalLength, sensorWidth);
     const rotationRad = (camera.rotation * Math.PI) / 180;
-    
-    // Calculate FOV edges in world coordinates
-    const leftEdgeAngle = rotationRad - coneAngleRad / 2;
-    const rightEdgeAngle = rotationRad + coneAngleRad / 2;
-    
-    const leftEdgePoint = {
-      x: camera.position.x + Math.cos(leftEdgeAngle) * coneLength,
-      y: camera.position.y + Math.sin(leftEdgeAngle) * coneLength
-    };
-    
-    const rightEdgePoint = {
-      x: camera.position.x + Math.cos(rightEdgeAngle) * coneLength,
-      y: camera.position.y + Math.sin(rightEdgeAngle) * coneLength
+    const coneLength = 3000; // Where the FOV label goes
+    const viewCamera: ViewCamera = {
+      position: camera.position,
+      rotation: camera.rotation,
+      height: cameraHeight,
+      focalLength,
+      shiftY: camera.shiftY !== undefined ? camera.shiftY : -0.2,
+      sensorWidth
     };
     
-    // Convert to screen coordinates
-    const leftEdgeScreen = worldToScreen(leftEdgePoint.x, leftEdgePoint.y);
-    const rightEdgeScreen = worldToScreen(rightEdgePoint.x, rightEdgePoint.y);
-    
-    // Draw FOV cone
+    // Draw the view wedge, cut off by the walls the camera looks at
+    const viewPolygon = getViewPolygon(viewCamera, getViewBlockingWalls(rooms, cameraHeight), MAX_VIEW_DISTANCE_MM);
     ctx.beginPath();
-    ctx.moveTo(screenPos.x, screenPos.y);
-    ctx.lineTo(leftEdgeScreen.x, leftEdgeScreen.y);
-    ctx.lineTo(rightEdgeScreen.x, rightEdgeScreen.y);
+    viewPolygon.forEach((point, i) => {
+      const pointScreen = worldToScreen(point.x, point.y);
+      if (i === 0) {
+        ctx.moveTo(pointScreen.x, pointScreen.y);
+      } else {
+        ctx.lineTo(pointScreen.x, pointScreen.y);
+      }
+    });
     ctx.closePath();
     ctx.fillStyle = 'rgba(59, 130, 246, 0.15)'; // Light blue with low opacity
     ctx.fill();
@@ -7167,6 +8568,35 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
     ctx.lineWidth = 1;
     ctx.stroke();
     
+    // Distance to the focal point, in red when it falls outside the rendered frame
+    if (focalPoint) {
+      const inView = isPointInView(viewCamera, focalPoint.position, focalPoint.height);
+      const distance = Math.hypot(
+        focalPoint.position.x - camera.position.x,
+        focalPoint.position.y - camera.position.y,
+        focalPoint.height - cameraHeight
+      );
+      const focalScreen = worldToScreen(focalPoint.position.x, focalPoint.position.y);
+      
+      ctx.beginPath();
+      ctx.moveTo(screenPos.x, screenPos.y);
+      ctx.lineTo(focalScreen.x, focalScreen.y);
+      ctx.strokeStyle = inView ? '#3b82f6' : '#dc2626';
+      ctx.setLineDash([4, 4]);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      
+      ctx.font = '12px Arial';
+      ctx.fillStyle = inView ? '#3b82f6' : '#dc2626';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'top';
+      ctx.fillText(
+        `${Math.round(distance)}mm${inView ? '' : ' (outside view)'}`,
+        (screenPos.x + focalScreen.x) / 2,
+        (screenPos.y + focalScreen.y) / 2 + 4
+      );
+    }
+    
     // Draw FOV angle indicator
     ctx.font = '12px Arial';
     ctx.fillStyle = '#3b82f6';
@@ -7218,6 +8648,79 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
     ctx.stroke();
   }
 
+  // Camera path: the spline with a dot every second, numbered keyframes and the
+  // camera at the previewed time
+  const drawCameraPath = (ctx: CanvasRenderingContext2D) => {
+    if (cameraPath.keyframes.length === 0) return;
+    const pathColor = '#7c3aed';
+    
+    const points = samplePath(cameraPath, PATH_SAMPLE_STEP_s).map(point => worldToScreen(point.x, point.y));
+    if (points.length > 1) {
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      points.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+      ctx.strokeStyle = pathColor;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 4]);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+    
+    // Timing dots, one per second of the path
+    const lastTime = cameraPath.keyframes[cameraPath.keyframes.length - 1].time;
+    for (let time = Math.ceil(cameraPath.keyframes[0].time); time <= lastTime; time++) {
+      const state = getCameraAtTime(cameraPath, time);
+      if (!state) continue;
+      const screenPos = worldToScreen(state.position.x, state.position.y);
+      ctx.beginPath();
+      ctx.arc(screenPos.x, screenPos.y, 2, 0, Math.PI * 2);
+      ctx.fillStyle = pathColor;
+      ctx.fill();
+    }
+    
+    const drawDirection = (position: Point, rotation: number, length: number) => {
+      const screenPos = worldToScreen(position.x, position.y);
+      const end = calculateRotationHandlePosition(position, rotation, length);
+      const endScreen = worldToScreen(end.x, end.y);
+      ctx.beginPath();
+      ctx.moveTo(screenPos.x, screenPos.y);
+      ctx.lineTo(endScreen.x, endScreen.y);
+      ctx.stroke();
+    };
+    
+    ctx.font = '12px Arial';
+    ctx.textAlign = 'left';
+    cameraPath.keyframes.forEach((keyframe, i) => {
+      const screenPos = worldToScreen(keyframe.position.x, keyframe.position.y);
+      ctx.strokeStyle = pathColor;
+      ctx.lineWidth = 1.5;
+      drawDirection(keyframe.position, keyframe.rotation, 300);
+      ctx.beginPath();
+      ctx.arc(screenPos.x, screenPos.y, POINT_RADIUS, 0, Math.PI * 2);
+      ctx.fillStyle = '#fff';
+      ctx.fill();
+      ctx.stroke();
+      ctx.fillStyle = pathColor;
+      ctx.fillText(`${i + 1} (${keyframe.time}s)`, screenPos.x + POINT_RADIUS * 2, screenPos.y - POINT_RADIUS * 2);
+    });
+    
+    if (pathPreviewTime !== null) {
+      const state = getCameraAtTime(cameraPath, pathPreviewTime);
+      if (state) {
+        const screenPos = worldToScreen(state.position.x, state.position.y);
+        const halfFov = getHorizontalFov(state.focalLength, sensorWidth) / 2;
+        ctx.strokeStyle = pathColor;
+        ctx.lineWidth = 1;
+        drawDirection(state.position, state.rotation - halfFov, 1000);
+        drawDirection(state.position, state.rotation + halfFov, 1000);
+        ctx.beginPath();
+        ctx.arc(screenPos.x, screenPos.y, POINT_RADIUS * 1.5, 0, Math.PI * 2);
+        ctx.fillStyle = pathColor;
+        ctx.fill();
+      }
+    }
+  };
+
   const drawFocalPoint = (ctx: CanvasRenderingContext2D, focalPoint: { position: Point; isDragging: boolean }) => {
     // Convert focal point position to screen coordinates
     const screenPos = worldToScreen(focalPoint.position.x, focalPoint.position.y);
@@ -7587,6 +9090,51 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
     });
   };
   
+  // Countertop pieces over the base runs, with their cutouts and the area of each top
+  const drawCountertops = (ctx: CanvasRenderingContext2D) => {
+    const tracePolygon = (outline: Point[]) => {
+      ctx.beginPath();
+      outline.forEach((point, i) => {
+        const screen = worldToScreen(point.x, point.y);
+        if (i === 0) ctx.moveTo(screen.x, screen.y);
+        else ctx.lineTo(screen.x, screen.y);
+      });
+      ctx.closePath();
+    };
+    
+    countertopSlabs.forEach(slab => {
+      slab.pieces.forEach(piece => {
+        tracePolygon(piece.outline);
+        ctx.fillStyle = 'rgba(120, 113, 108, 0.15)';
+        ctx.fill();
+        ctx.strokeStyle = '#78716c';
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+      });
+      
+      slab.cutouts.forEach(cutout => {
+        tracePolygon(cutout.outline);
+        ctx.setLineDash([4, 3]);
+        ctx.strokeStyle = '#57534e';
+        ctx.lineWidth = 1;
+        ctx.stroke();
+        ctx.setLineDash([]);
+      });
+      
+      // Label in the middle of the largest piece
+      const largest = slab.pieces.reduce((a, b) => b.area > a.area ? b : a);
+      const centre = worldToScreen(
+        largest.outline.reduce((sum, point) => sum + point.x, 0) / largest.outline.length,
+        largest.outline.reduce((sum, point) => sum + point.y, 0) / largest.outline.length
+      );
+      ctx.font = '11px Arial';
+      ctx.fillStyle = '#44403c';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(`Top ${slab.id}: ${slab.netArea.toFixed(2)} m²`, centre.x, centre.y);
+    });
+  };
+  
   // New function to draw connections between runs
   const drawRunConnections = (ctx) => {
     // For each run, check if it has connections
@@ -7708,9 +9256,11 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
   };
   
   const drawRunFillers = (ctx, run, width, height) => {
+    const fillers = getRunFillerWidths(run);
+    
     // Show start filler if start type is Wall
-    if (run.start_type === 'Wall') {
-      const fillerWidth = FILLER_WIDTH * scale;
+    if (fillers.start > 0) {
+      const fillerWidth = fillers.start * scale;
       ctx.fillStyle = 'rgba(180, 180, 180, 0.7)'; // Gray color for filler
       ctx.fillRect(0, 0, fillerWidth, -height);
       ctx.strokeStyle = '#666';
@@ -7729,13 +9279,11 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
     }
   
     // Show end filler if end type is Wall
-    if (run.end_type === 'Wall') {
-      const fillerWidth = FILLER_WIDTH * scale;
+    if (fillers.end > 0) {
+      const fillerWidth = fillers.end * scale;
       
-      // Calculate where the cabinets end and filler starts
-      const startFillerWidth = run.start_type === 'Wall' ? FILLER_WIDTH : 0;
-      const totalCabinetsWidth = run.length - startFillerWidth - FILLER_WIDTH; // Subtract both fillers
-      const cabinetsEndX = (startFillerWidth + totalCabinetsWidth) * scale;
+      // The end filler sits against the end of the run
+      const cabinetsEndX = (run.length - fillers.end) * scale;
       
       // Draw end filler
       ctx.fillStyle = 'rgba(180, 180, 180, 0.7)'; // Gray color for filler
@@ -7886,28 +9434,29 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
       cabinetDepth / 2
     );
     
-    // Handle various cabinet types
-    if (cabinet.cabinet_type === 'Wall - Floating Shelf') {
+    // Draw the plan symbol from the cabinet's catalog template
+    const plan = getCabinetDefinition(cabinetCatalog, cabinet.cabinet_type).template.plan;
+    if (plan.symbol === 'floatingShelf') {
       drawCabinetFloatingShelf(ctx, cabinet, cabinetX, cabinetWidth, cabinetDepth);
     }
-    else if (cabinet.cabinet_type.includes('Door')) {
-      drawCabinetDoor(ctx, cabinet, cabinetX, cabinetWidth, cabinetDepth);
+    else if (plan.symbol === 'door') {
+      drawCabinetDoor(ctx, cabinet, plan, cabinetX, cabinetWidth, cabinetDepth);
     } 
     // Draw drawer lines for drawer cabinets
-    else if (cabinet.cabinet_type.includes('Drawer')) {
-      drawCabinetDrawers(ctx, cabinet, cabinetX, cabinetWidth, cabinetDepth);
+    else if (plan.symbol === 'drawers') {
+      drawCabinetDrawers(ctx, plan, cabinetX, cabinetWidth, cabinetDepth);
     } 
     // For bookcase
-    else if (cabinet.cabinet_type.includes('Bookcase')) {
+    else if (plan.symbol === 'bookcase') {
       drawCabinetBookcase(ctx, cabinetX, cabinetWidth, cabinetDepth);
     } 
     // For appliances
-    else if (isApplianceCabinet(cabinet.cabinet_type)) {
-      drawCabinetAppliance(ctx, cabinet, cabinetX, cabinetWidth, cabinetDepth);
+    else if (isApplianceCabinet(plan)) {
+      drawCabinetAppliance(ctx, plan, cabinetX, cabinetWidth, cabinetDepth);
     }
     // For corner cabinets
-    else if (cabinet.cabinet_type.includes('Corner')) {
-      drawCabinetCorner(ctx, cabinet, cabinetX, cabinetWidth, cabinetDepth);
+    else if (plan.symbol === 'corner') {
+      drawCabinetCorner(ctx, plan, cabinetX, cabinetWidth, cabinetDepth);
     }
   };
   
@@ -7983,16 +9532,11 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
     }
   };
   
-  const isApplianceCabinet = (cabinetType) => {
-    return cabinetType.includes('Oven') || 
-           cabinetType.includes('Cooktop') ||
-           cabinetType.includes('Sink') ||
-           cabinetType.includes('Dishwasher') ||
-           cabinetType.includes('ExhaustFan') ||
-           cabinetType.includes('Fridge');
+  const isApplianceCabinet = (plan: CabinetPlanTemplate) => {
+    return ['sink', 'oven', 'cooktop', 'fridge', 'exhaustFan'].includes(plan.symbol);
   };
   
-  const drawCabinetDoor = (ctx, cabinet, cabinetX, cabinetWidth, cabinetDepth) => {
+  const drawCabinetDoor = (ctx, cabinet, plan: CabinetPlanTemplate, cabinetX, cabinetWidth, cabinetDepth) => {
     const hingeX = cabinet.hinge_right ? cabinetX + cabinetWidth - 2 : cabinetX + 2;
     
     // Draw hinges as small circles
@@ -8003,7 +9547,7 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
     ctx.fill();
     
     // Draw door division for double leaf doors
-    if (cabinet.cabinet_type.includes('Double')) {
+    if (plan.count === 2) {
       ctx.beginPath();
       ctx.moveTo(cabinetX + cabinetWidth / 2, 0);
       ctx.lineTo(cabinetX + cabinetWidth / 2, cabinetDepth);
@@ -8046,10 +9590,8 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
     }
   };
   
-  const drawCabinetDrawers = (ctx, cabinet, cabinetX, cabinetWidth, cabinetDepth) => {
-    const drawerCount = cabinet.cabinet_type.includes('2-Drawer') ? 2 :
-                       cabinet.cabinet_type.includes('3-Drawer') ? 3 : 
-                       cabinet.cabinet_type.includes('4-Drawer') ? 4 : 0;
+  const drawCabinetDrawers = (ctx, plan: CabinetPlanTemplate, cabinetX, cabinetWidth, cabinetDepth) => {
+    const drawerCount = plan.count ?? 0;
     
     if (drawerCount > 0) {
       ctx.strokeStyle = '#666';
@@ -8096,10 +9638,10 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
     }
   };
 
-  const drawCabinetAppliance = (ctx, cabinet, cabinetX, cabinetWidth, cabinetDepth) => {
+  const drawCabinetAppliance = (ctx, plan: CabinetPlanTemplate, cabinetX, cabinetWidth, cabinetDepth) => {
     ctx.fillStyle = '#888';
     
-    if (cabinet.cabinet_type.includes('Sink')) {
+    if (plan.symbol === 'sink') {
       // Draw sink icon (oval shape)
       const sinkWidth = cabinetWidth * 0.6;
       const sinkHeight = Math.abs(cabinetDepth) * 0.5;
@@ -8119,7 +9661,7 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
       ctx.strokeStyle = '#888';
       ctx.stroke();
     } 
-    else if (cabinet.cabinet_type.includes('Oven')) {
+    else if (plan.symbol === 'oven') {
       // Draw oven icon (rectangle with line in middle)
       const ovenWidth = cabinetWidth * 0.8;
       const ovenHeight = Math.abs(cabinetDepth) * 0.6;
@@ -8135,9 +9677,9 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
       ctx.fillStyle = '#888';
       ctx.fillRect(ovenX + ovenWidth / 2 - 10, ovenY + ovenHeight - 5, 20, 3);
     }
-    else if (cabinet.cabinet_type.includes('Cooktop')) {
+    else if (plan.symbol === 'cooktop') {
       // Draw cooktop burner circles
-      const numBurners = cabinet.cabinet_type.includes('30') ? 4 : 5;
+      const numBurners = plan.count === 5 ? 5 : 4;
       const burnerRadius = cabinetWidth / (numBurners * 3);
       const cooktopY = cabinetDepth * 0.3;
       
@@ -8184,7 +9726,7 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
         }
       }
     }
-    else if (cabinet.cabinet_type.includes('Fridge')) {
+    else if (plan.symbol === 'fridge') {
       // Draw fridge icon
       const fridgeWidth = cabinetWidth * 0.9;
       const fridgeHeight = Math.abs(cabinetDepth) * 0.9;
@@ -8209,7 +9751,7 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
       ctx.fillRect(fridgeX + fridgeWidth - 5, fridgeY + fridgeHeight * 0.15, 3, 20);
       ctx.fillRect(fridgeX + fridgeWidth - 5, fridgeY + fridgeHeight * 0.6, 3, 20);
     }
-    else if (cabinet.cabinet_type.includes('ExhaustFan')) {
+    else if (plan.symbol === 'exhaustFan') {
       // Draw exhaust fan icon
       const fanWidth = cabinetWidth * 0.7;
       const fanHeight = Math.abs(cabinetDepth) * 0.4;
@@ -8234,7 +9776,7 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
     }
   };
   
-  const drawCabinetCorner = (ctx, cabinet, cabinetX, cabinetWidth, cabinetDepth) => {
+  const drawCabinetCorner = (ctx, plan: CabinetPlanTemplate, cabinetX, cabinetWidth, cabinetDepth) => {
     ctx.fillStyle = '#ddd';
     
     // Draw diagonal line for corner
@@ -8246,7 +9788,7 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
     ctx.stroke();
     
     // Draw direction arrow
-    const isLeft = cabinet.cabinet_type.includes('Left');
+    const isLeft = plan.side !== 'right';
     const arrowX = cabinetX + cabinetWidth / 2;
     const arrowY = cabinetDepth / 2;
     const arrowSize = 8;
@@ -8286,7 +9828,7 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
         }
       }
     }
-  }, [rooms, selectedPoint, activeRoomId, pan, scale, selectedDoorPoint, selectedWindowPoint, addingDoor, addingWindow, cabinetRuns, selectedRun, draggedRun, isAddingRun, hoverRun, camera, focalPoint]);
+  }, [rooms, selectedPoint, activeRoomId, pan, scale, selectedDoorPoint, selectedWindowPoint, addingDoor, addingWindow, cabinetRuns, selectedRun, draggedRun, isAddingRun, hoverRun, camera, focalPoint, sensorWidth, cameraShots, activeShotId, cameraPath, pathPreviewTime, cabinetCatalog, countertopSlabs, showCountertops]);
 
   return (
     <div className="space-y-8">
@@ -8297,6 +9839,13 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
         style={{ display: 'none' }}
         onChange={handleFileSelect}
       />
+      <input
+        type="file"
+        id="planFileInput"
+        accept=".dxf,.svg"
+        style={{ display: 'none' }}
+        onChange={handlePlanFileSelect}
+      />
 
 
 
@@ -8308,15 +9857,63 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
           {/* <div className="text-sm text-gray-600">
             Scale: 1px = {(1/scale).toFixed(1)}mm | Canvas: 10m × 8m
           </div> */}
-          <div className="flex gap-2">
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setIsProjectBrowserOpen(true)}
+              className="flex items-center gap-2 px-4 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              <FolderOpen size={16} />
+              Open from Server
+            </button>
+            <button
+              onClick={() => setIsSaveDialogOpen(true)}
+              disabled={!rooms.some(r => r.isComplete)}
+              className="flex items-center gap-2 px-4 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <UploadCloud size={16} />
+              Save to Server
+            </button>
+            <button
+              onClick={() => setRestoreSnapshots(loadAutosaves())}
+              className="flex items-center gap-2 px-4 py-1 bg-gray-600 text-white rounded hover:bg-gray-700"
+              title="Roll back to an autosaved snapshot"
+            >
+              <History size={16} />
+              Autosaves
+            </button>
+            <button
+              onClick={undo}
+              disabled={historyCounts.undo === 0}
+              className="flex items-center gap-2 px-4 py-1 bg-gray-600 text-white rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 size={16} />
+              Undo
+            </button>
+            <button
+              onClick={redo}
+              disabled={historyCounts.redo === 0}
+              className="flex items-center gap-2 px-4 py-1 bg-gray-600 text-white rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 size={16} />
+              Redo
+            </button>
             <button
               onClick={handleLoadJSON}
-              disabled={rooms.length > 0 && rooms.some(room => room.points.length > 0)}
-              className="flex items-center gap-2 px-4 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              className="flex items-center gap-2 px-4 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
             >
               <Save size={16} />
               Load JSON
             </button>
+            <button
+              onClick={() => document.getElementById('planFileInput')?.click()}
+              className="flex items-center gap-2 px-4 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+              title="Trace rooms from a DXF or SVG floor plan"
+            >
+              <FileInput size={16} />
+              Import Plan
+            </button>
             <button
               onClick={startAddingSecondaryRoom}
               disabled={!rooms.some(r => r.isMain && r.isComplete) || isAddingSecondaryRoom}
@@ -8349,9 +9946,16 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
               <BookmarkPlus size={16} />
               {isAddingRun ? 'Adding Cabinet Run...' : 'Add Cabinet Run'}
             </button>
+            <button
+              onClick={() => setIsCustomCabinetDialogOpen(true)}
+              className="flex items-center gap-2 px-4 py-1 bg-amber-600 text-white rounded hover:bg-amber-700"
+            >
+              <Boxes size={16} />
+              Custom Cabinets
+            </button>
             <button
               onClick={startAddingCamera}
-              disabled={!rooms.some(r => r.isMain && r.isComplete) || isAddingCamera || camera !== null}
+              disabled={!rooms.some(r => r.isMain && r.isComplete) || isAddingCamera}
               className="flex items-center gap-2 px-4 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Square size={16} />
@@ -8365,6 +9969,14 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
               <Square size={16} />
               {isAddingFocalPoint ? 'Placing Focal Point...' : 'Place Focal Point'}
             </button>
+            <button
+              onClick={toggleAddingKeyframes}
+              disabled={!rooms.some(r => r.isMain && r.isComplete)}
+              className="flex items-center gap-2 px-4 py-1 bg-violet-600 text-white rounded hover:bg-violet-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Route size={16} />
+              {isAddingKeyframes ? 'Done Adding Keyframes' : 'Add Path Keyframes'}
+            </button>
             <button
               onClick={(e) => {
                 console.log('Export button clicked');
@@ -8381,9 +9993,145 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
               <Copy size={16} />
               Export JSON
             </button>
+            <select
+              value={exportTarget}
+              onChange={(e) => setExportTarget(e.target.value as ExportTarget)}
+              className="px-2 py-1 border border-gray-300 rounded"
+              title="Export format"
+            >
+              <option value="python">Python (True/False)</option>
+              <option value="json">Strict JSON</option>
+            </select>
+            <button
+              onClick={downloadProjectFile}
+              disabled={rooms.length === 0 || !rooms.some(r => r.isComplete) || focalPoint === null}
+              className="flex items-center gap-2 px-4 py-1 bg-amber-600 text-white rounded hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download size={16} />
+              Download JSON
+            </button>
+            <button
+              onClick={downloadDxfFile}
+              disabled={!rooms.some(r => r.isComplete)}
+              className="flex items-center gap-2 px-4 py-1 bg-gray-700 text-white rounded hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download size={16} />
+              Export DXF
+            </button>
+            <button
+              onClick={downloadSvgFile}
+              disabled={!rooms.some(r => r.isComplete)}
+              className="flex items-center gap-2 px-4 py-1 bg-gray-700 text-white rounded hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download size={16} />
+              Export SVG
+            </button>
+            <button
+              onClick={() => setIsPdfDialogOpen(true)}
+              disabled={!rooms.some(r => r.isComplete)}
+              className="flex items-center gap-2 px-4 py-1 bg-gray-700 text-white rounded hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download size={16} />
+              Export PDF
+            </button>
+          </div>
+          <div className="text-sm text-gray-600 whitespace-nowrap ml-4">
+            {serverProject ? serverProject.name : 'Unsaved project'}
+            {isDirty && <span className="ml-2 px-2 py-0.5 bg-amber-100 text-amber-800 rounded">Unsaved changes</span>}
           </div>
         </div>
 
+        {isProjectBrowserOpen && (
+          <ProjectBrowser
+            onOpen={openProjectFromServer}
+            onClose={() => setIsProjectBrowserOpen(false)}
+          />
+        )}
+
+        {pendingImport && (
+          <ImportModeDialog
+            fileName={pendingImport.fileName}
+            onChoose={handleImportModeChoice}
+            onClose={() => setPendingImport(null)}
+          />
+        )}
+
+        {isCustomCabinetDialogOpen && (
+          <CustomCabinetDialog
+            catalog={cabinetCatalog}
+            customTypes={customCabinetTypes}
+            onSave={saveCustomCabinetType}
+            onDelete={deleteCustomCabinetType}
+            onClose={() => setIsCustomCabinetDialogOpen(false)}
+          />
+        )}
+
+        {fillRunContext && (
+          <FillRunDialog
+            catalog={cabinetCatalog}
+            runId={fillRunContext.run.id}
+            runType={fillRunContext.run.type}
+            span={fillRunContext.span}
+            windowCentre={fillRunContext.windowCentre}
+            hasCabinets={cabinets.some(c => c.cabinet_run_id === fillRunContext.run.id)}
+            onApply={(layout) => applyRunLayout(fillRunContext.run.id, layout)}
+            onClose={() => setFillRunId(null)}
+          />
+        )}
+
+        {isPdfDialogOpen && (
+          <PlanPdfDialog
+            onExport={downloadPdfFile}
+            onClose={() => setIsPdfDialogOpen(false)}
+          />
+        )}
+
+        {planImport && (
+          <PlanImportDialog
+            fileName={planImport.fileName}
+            plan={planImport.plan}
+            hasMainRoom={rooms.some(room => room.isMain && room.isComplete)}
+            onImport={importPlanRooms}
+            onClose={() => setPlanImport(null)}
+          />
+        )}
+
+        {mergeCandidate && (
+          <MergeImportDialog
+            projectData={mergeCandidate.projectData}
+            onMerge={mergeProjectData}
+            onClose={() => setMergeCandidate(null)}
+          />
+        )}
+
+        {importReport && (
+          <ImportReportPanel
+            issues={importReport.issues}
+            canImport={importReport.canImport}
+            onImport={importReport.onImport}
+            onClose={() => setImportReport(null)}
+          />
+        )}
+
+        {restoreSnapshots !== null && (
+          <RestoreSessionDialog
+            snapshots={restoreSnapshots}
+            onRestore={restoreAutosave}
+            onDiscard={discardAutosaves}
+            onClose={() => setRestoreSnapshots(null)}
+          />
+        )}
+
+        {isSaveDialogOpen && (
+          <SaveProjectDialog
+            currentProjectName={serverProject?.name ?? null}
+            defaultName={projectAddress || `Project ${new Date().toLocaleDateString()}`}
+            isSaving={isSavingProject}
+            onSave={saveProjectToServer}
+            onClose={() => setIsSaveDialogOpen(false)}
+          />
+        )}
+
         
 
         {addingDoor && (
@@ -8503,6 +10251,8 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
         onMouseLeave={handleCanvasMouseUp}
         onWheel={handleWheel}
         onContextMenu={handleContextMenu}
+        onDragOver={handleCanvasDragOver}
+        onDrop={handleCanvasDrop}
         className="border border-gray-300 rounded cursor-crosshair"
       />
 
@@ -8571,6 +10321,23 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
             </select>
           </div>
 
+          {/* Fit status of each run */}
+          <div className="flex flex-wrap gap-2 mb-4">
+            {cabinetRuns.map(run => {
+              const badge = getFitBadge(runFitStatuses.get(run.id) as RunFitStatus);
+              return (
+                <button
+                  key={run.id}
+                  onClick={() => handleRunSelection(run.id)}
+                  className={`px-2 py-1 rounded text-xs font-medium ${badge.className} ${run.id === selectedRun ? 'ring-2 ring-blue-500' : ''}`}
+                  title={`Fit mode: ${RUN_FIT_MODES.find(m => m.mode === (run.fit_mode ?? 'flag'))?.label}`}
+                >
+                  Run {run.id}: {badge.text}
+                </button>
+              );
+            })}
+          </div>
+
           {selectedRun ? (
             <>
               {/* Cabinet Run Properties - Keep this existing table */}
@@ -8680,12 +10447,32 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
                           type="number"
                           value={Math.round(cabinetRuns.find(r => r.id === selectedRun)?.length || 0)}
                           onChange={(e) => updateRunProperty(selectedRun, 'length', Number(e.target.value))}
+                          onBlur={() => {
+                            const run = cabinetRuns.find(r => r.id === selectedRun);
+                            if (run) fitRun(run);
+                          }}
                           className="w-24 px-2 py-1 border border-gray-300 rounded"
-                          disabled={cabinets.filter(c => c.cabinet_run_id === selectedRun).length > 0}
-                          title={cabinets.filter(c => c.cabinet_run_id === selectedRun).length > 0 ? "Length is determined by cabinets" : ""}
+                          min={0}
+                          title={cabinets.filter(c => c.cabinet_run_id === selectedRun).length > 0 ? "The cabinets are fitted to the new length using the run's fit mode" : ""}
                         />
                       </td>
                     </tr>
+                    <tr>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        Fit Mode
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        <select
+                          value={cabinetRuns.find(r => r.id === selectedRun)?.fit_mode ?? 'flag'}
+                          onChange={(e) => updateRunProperty(selectedRun, 'fit_mode', e.target.value as RunFitMode)}
+                          className="px-2 py-1 border border-gray-300 rounded"
+                        >
+                          {RUN_FIT_MODES.map(({ mode, label }) => (
+                            <option key={mode} value={mode}>{label}</option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
                     <tr>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                         Depth (mm)
@@ -8866,28 +10653,37 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
               <div className="mt-6 border-t pt-4">
                 <div className="flex justify-between items-center mb-2">
                   <h3 className="text-lg font-medium">Cabinets in Run {selectedRun}</h3>
-                  <button
-                    onClick={() => {
-                      // Get first available cabinet type for this run
-                      const initialType = getAvailableCabinetTypes(
-                        cabinetRuns.find(r => r.id === selectedRun)?.type || 'Base'
-                      )[0];
-                      
-                      // Set initial cabinet type
-                      setNewCabinetType(initialType);
-                      
-                      // Initialize with the appropriate width
-                      const fixedWidth = getFixedCabinetWidth(initialType);
-                      const minWidth = getMinCabinetWidth(initialType);
-                      setNewCabinetWidth(fixedWidth !== null ? fixedWidth : minWidth);
-                      
-                      // Show the form
-                      setIsAddingCabinet(true);
-                    }}
-                    className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700"
-                  >
-                    Add Cabinet
-                  </button>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setFillRunId(selectedRun)}
+                      className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+                      title="Propose cabinet layouts that fill the run"
+                    >
+                      Fill Run
+                    </button>
+                    <button
+                      onClick={() => {
+                        // Get first available cabinet type for this run
+                        const initialType = getAvailableCabinetTypes(
+                          cabinetRuns.find(r => r.id === selectedRun)?.type || 'Base'
+                        )[0];
+                        
+                        // Set initial cabinet type
+                        setNewCabinetType(initialType);
+                        
+                        // Initialize with the appropriate width
+                        const fixedWidth = getFixedCabinetWidth(initialType);
+                        const minWidth = getMinCabinetWidth(initialType);
+                        setNewCabinetWidth(fixedWidth !== null ? fixedWidth : minWidth);
+                        
+                        // Show the form
+                        setIsAddingCabinet(true);
+                      }}
+                      className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700"
+                    >
+                      Add Cabinet
+                    </button>
+                  </div>
                 </div>
                 
                 {isAddingCabinet && (
@@ -8945,15 +10741,9 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
                             onChange={(e) => setNewCabinetMaterial(e.target.value)}
                             className="p-2 border border-gray-300 rounded"
                           >
-                            <option value="PaintGrade">Paint Grade</option>
-                            <option value="Walnut_Muted_BookMatch">Walnut Muted Book Match</option>
-                            <option value="Walnut_Natural_BookMatch">Walnut Natural Book Match</option>
-                            <option value="Walnut_Roasted_BookMatch">Walnut Roasted Book Match</option>
-                            <option value="WhiteOak_Basic_SlipMatch">White Oak Basic Slip Match</option>
-                            <option value="WhiteOak_FineDark_RandomMatch">White Oak Fine Dark Random Match</option>
-                            <option value="WhiteOak_Muted_SlipMatch">White Oak Muted Slip Match</option>
-                            <option value="WhiteOak_RandomMatchTiger">White Oak Random Match Tiger</option>
-                            <option value="WhiteOak_Whitened_SlipMatch">White Oak Whitened Slip Match</option>
+                            {getCabinetMaterials(cabinetCatalog, newCabinetType || '').map(material => (
+                              <option key={material.id} value={material.id}>{material.label}</option>
+                            ))}
                           </select>
                         </div>                        
                         <div className="flex items-center gap-2">
@@ -9055,15 +10845,9 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
                                 onChange={(e) => updateCabinetProperty(cabinet.id, 'material_doors', e.target.value)}
                                 className="w-full px-2 py-1 border border-gray-300 rounded"
                               >
-                                <option value="PaintGrade">Paint Grade</option>
-                                <option value="Walnut_Muted_BookMatch">Walnut Muted Book Match</option>
-                                <option value="Walnut_Natural_BookMatch">Walnut Natural Book Match</option>
-                                <option value="Walnut_Roasted_BookMatch">Walnut Roasted Book Match</option>
-                                <option value="WhiteOak_Basic_SlipMatch">White Oak Basic Slip Match</option>
-                                <option value="WhiteOak_FineDark_RandomMatch">White Oak Fine Dark Random Match</option>
-                                <option value="WhiteOak_Muted_SlipMatch">White Oak Muted Slip Match</option>
-                                <option value="WhiteOak_RandomMatchTiger">White Oak Random Match Tiger</option>
-                                <option value="WhiteOak_Whitened_SlipMatch">White Oak Whitened Slip Match</option>
+                                {getCabinetMaterials(cabinetCatalog, cabinet.cabinet_type).map(material => (
+                                  <option key={material.id} value={material.id}>{material.label}</option>
+                                ))}
                               </select>
                             </td>
                             <td className="px-4 py-2 whitespace-nowrap text-sm">
@@ -9072,12 +10856,13 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
                                 checked={cabinet.hinge_right}
                                 onChange={(e) => updateCabinetProperty(cabinet.id, 'hinge_right', e.target.checked)}
                                 className="w-4 h-4 border border-gray-300 rounded"
-                                disabled={!cabinet.cabinet_type.includes('Door')}
+                                disabled={!getCabinetDefinition(cabinetCatalog, cabinet.cabinet_type).template.front
+                                  .some(section => section.kind === 'door')}
                               />
                             </td>
                             {/* Add Floating Shelf specific properties - after hinge section in the cabinet properties UI */}
                             <td className="px-4 py-2 whitespace-nowrap text-sm">
-                              {cabinet.cabinet_type === 'Wall - Floating Shelf' && (
+                              {getCabinetDefinition(cabinetCatalog, cabinet.cabinet_type).template.floatingShelf && (
                                 <div className="space-y-2">
                                   <div className="flex items-center gap-1">
                                     <label className="text-xs">Depth:</label>
@@ -9150,6 +10935,14 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
         </div>
       )}
 
+      {cabinetRuns.length > 0 && (
+        <CabinetElevationPanel
+          elevations={runElevations}
+          selectedRunId={selectedRun}
+          onExportSvg={downloadElevationSvg}
+        />
+      )}
+
       {/* Doors table section  */}
       {activeRoom?.doors.length > 0 && (
         <div className="bg-white rounded-lg shadow-lg p-4">
@@ -9218,7 +11011,7 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       <input
                         type="number"
-                        value={Math.round(door.height) || 2032}
+                        value={Math.round(door.height) || DEFAULT_DOOR_HEIGHT}
                         onChange={(e) => updateDoorHeight(activeRoom.id, index, Number(e.target.value))}
                         className="w-24 px-2 py-1 border border-gray-300 rounded"
                       />
@@ -9241,7 +11034,7 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       <select
-                        value={door.material || "WhiteOak_SlipMatch_Vert"}
+                        value={door.material || DEFAULT_DOOR_MATERIAL}
                         onChange={(e) => updateDoorMaterial(activeRoom.id, index, e.target.value)}
                         className="w-40 px-2 py-1 border border-gray-300 rounded"
                       >
@@ -9626,10 +11419,49 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
         </div>
       )}
 
-      {camera && (
+      {sceneCamera && (
+        <ScenePreviewPanel faces={sceneFaces} camera={sceneCamera} />
+      )}
+
+      {activeShot && camera && (
         <div className="bg-white rounded-lg shadow-lg p-4">
           <div className="flex justify-between items-center mb-4">
             <h2 className="text-xl font-semibold">Camera Properties</h2>
+            <div className="flex items-center gap-2">
+              <select
+                value={activeShot.id}
+                onChange={(e) => setActiveShotId(e.target.value)}
+                className="px-3 py-1 border border-gray-300 rounded"
+              >
+                {cameraShots.map(shot => (
+                  <option key={shot.id} value={shot.id}>
+                    {shot.name || shot.id}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={activeShot.name}
+                onChange={(e) => renameCameraShot(activeShot.id, e.target.value)}
+                className="w-40 px-2 py-1 border border-gray-300 rounded"
+                title="Camera name"
+              />
+              <button
+                onClick={() => duplicateCameraShot(activeShot.id)}
+                className="flex items-center gap-2 px-3 py-1 bg-gray-700 text-white rounded hover:bg-gray-800"
+                title="Duplicate this camera"
+              >
+                <Copy size={16} />
+                Duplicate
+              </button>
+              <button
+                onClick={() => deleteCameraShot(activeShot.id)}
+                className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700"
+                title="Delete this camera"
+              >
+                Delete Camera
+              </button>
+            </div>
           </div>
 
           <div className="overflow-x-auto">
@@ -9690,7 +11522,17 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
                     Rotation (°)
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {focalPoint ? (
+                    {focalPoint && (
+                      <label className="flex items-center gap-2 mb-2">
+                        <input
+                          type="checkbox"
+                          checked={activeShot.aimAtFocalPoint}
+                          onChange={(e) => setAimAtFocalPoint(e.target.checked)}
+                        />
+                        Aim at focal point
+                      </label>
+                    )}
+                    {isAimLocked ? (
                       <div className="flex items-center">
                         <span>{Math.round(camera.rotation)}° (automatically points toward focal point)</span>
                       </div>
@@ -9735,18 +11577,31 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
                     />
                   </td>
                 </tr>
+                <tr>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    Sensor Width (mm)
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <input
+                      type="number"
+                      value={sensorWidth}
+                      onChange={(e) => {
+                        const value = Number(e.target.value);
+                        if (value > 0) setSensorWidth(value);
+                      }}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded"
+                      min="1"
+                    />
+                    <span className="ml-2 text-gray-400">(Should match the renderer's camera)</span>
+                  </td>
+                </tr>
                 <tr>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                     Field of View (°)
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {(() => {
-                      const focalLength = camera.focalLength || 24;
-                      const sensorSize = 28; // 28mm sensor size
-                      const fovAngle = 2 * Math.atan(sensorSize / (2 * focalLength)) * (180 / Math.PI);
-                      return Math.round(fovAngle);
-                    })()}
-                    <span className="ml-2 text-gray-400">(Calculated from focal length)</span>
+                    {Math.round(getHorizontalFov(camera.focalLength || 24, sensorWidth))}
+                    <span className="ml-2 text-gray-400">(Calculated from focal length and sensor width)</span>
                   </td>
                 </tr>
                 <tr>
@@ -9762,6 +11617,45 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
                       step="0.1"
                     />
                   </td>
+                </tr>
+                <tr>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    Auto Frame
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={frameTarget}
+                        onChange={(e) => setFrameTarget(e.target.value)}
+                        className="px-2 py-1 border border-gray-300 rounded"
+                      >
+                        <option value="room">Whole room</option>
+                        {runElevations.map(elevation => (
+                          <option key={elevation.runId} value={String(elevation.runId)}>{elevation.title}</option>
+                        ))}
+                      </select>
+                      <span>Margin (%)</span>
+                      <input
+                        type="number"
+                        value={Math.round(frameMargin * 100)}
+                        onChange={(e) => {
+                          const value = Number(e.target.value);
+                          if (value >= 0 && value < 50) setFrameMargin(value / 100);
+                        }}
+                        className="w-16 px-2 py-1 border border-gray-300 rounded"
+                        min="0"
+                        max="45"
+                      />
+                      <button
+                        onClick={autoFrameCamera}
+                        className="px-3 py-1 bg-gray-700 text-white rounded hover:bg-gray-800"
+                        title="Set position, height and focal length so the target fits the frame"
+                      >
+                        Frame
+                      </button>
+                    </div>
+                    <span className="text-gray-400">(Whole room keeps the current direction; runs are shot face on)</span>
+                  </td>
                 </tr>               
               </tbody>
             </table>
@@ -9834,6 +11728,30 @@ const handleAngleChange = (roomId: string, index: number, value: string) => {
           </div>
         </div>
       )}
+
+      {cabinetRuns.some(run => run.type === 'Base') && (
+        <CountertopPanel
+          slabs={countertopSlabs}
+          backsplashWalls={backsplashWalls}
+          settings={countertopSettings}
+          showOnPlan={showCountertops}
+          onSettingsChange={setCountertopSettings}
+          onShowOnPlanChange={setShowCountertops}
+        />
+      )}
+
+      {(cameraPath.keyframes.length > 0 || isAddingKeyframes) && (
+        <CameraPathPanel
+          path={cameraPath}
+          previewTime={pathPreviewTime}
+          onChange={setCameraPath}
+          onPreviewTimeChange={setPathPreviewTime}
+        />
+      )}
+
+      {pathPreviewCamera && (
+        <ScenePreviewPanel faces={sceneFaces} camera={pathPreviewCamera} title="Path Preview" />
+      )}
   </div>
 );
 };
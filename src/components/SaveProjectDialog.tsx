@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+
+export type SaveMode = 'overwrite' | 'new';
+
+interface SaveProjectDialogProps {
+  // Name of the server project currently open, if any
+  currentProjectName: string | null;
+  defaultName: string;
+  isSaving: boolean;
+  onSave: (mode: SaveMode, name: string) => void;
+  onClose: () => void;
+}
+
+const SaveProjectDialog: React.FC<SaveProjectDialogProps> = ({
+  currentProjectName,
+  defaultName,
+  isSaving,
+  onSave,
+  onClose
+}) => {
+  const [name, setName] = useState(currentProjectName || defaultName);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg p-4 w-full max-w-md"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Save Project to Server</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <label className="text-sm font-medium text-gray-700">Project Name</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Enter project name"
+          className="w-full mt-1 mb-4 px-4 py-2 border border-gray-300 rounded"
+          autoFocus
+        />
+
+        {currentProjectName && (
+          <p className="mb-4 text-sm text-gray-600">
+            This design was opened from "{currentProjectName}". Save over it or keep it and create a new project.
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+          {currentProjectName && (
+            <button
+              onClick={() => onSave('new', name)}
+              disabled={isSaving || !name.trim()}
+              className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save as New
+            </button>
+          )}
+          <button
+            onClick={() => onSave(currentProjectName ? 'overwrite' : 'new', name)}
+            disabled={isSaving || !name.trim()}
+            className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : currentProjectName ? 'Overwrite' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SaveProjectDialog;
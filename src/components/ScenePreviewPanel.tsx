@@ -0,0 +1,43 @@
+import React, { useEffect, useRef } from 'react';
+import { renderScene, SceneCamera, SceneFace } from '../services/scenePreview';
+import { RENDER_ASPECT } from '../services/cameraView';
+
+interface ScenePreviewPanelProps {
+  faces: SceneFace[];
+  camera: SceneCamera;
+  title?: string;
+}
+
+const PREVIEW_WIDTH_px = 640;
+const PREVIEW_HEIGHT_px = Math.round(PREVIEW_WIDTH_px / RENDER_ASPECT);
+
+const ScenePreviewPanel: React.FC<ScenePreviewPanelProps> = ({ faces, camera, title = 'Camera Preview' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const pixels = renderScene(faces, camera, PREVIEW_WIDTH_px, PREVIEW_HEIGHT_px);
+    ctx.putImageData(new ImageData(pixels, PREVIEW_WIDTH_px, PREVIEW_HEIGHT_px), 0, 0);
+  }, [faces, camera]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">{title}</h2>
+        <span className="text-sm text-gray-500">
+          {Math.round(camera.focalLength)}mm, h:{Math.round(camera.height)}mm, shift Y {camera.shiftY}
+        </span>
+      </div>
+      <canvas
+        ref={canvasRef}
+        width={PREVIEW_WIDTH_px}
+        height={PREVIEW_HEIGHT_px}
+        className="w-full max-w-3xl border border-gray-200"
+      />
+    </div>
+  );
+};
+
+export default ScenePreviewPanel;
@@ -1,4 +1,8 @@
 import axios from 'axios';
+import { CabinetTypeDefinition, CutoutKind } from './cabinetCatalog';
+import { CountertopSettings } from './countertops';
+import { ElevationPoint, ElevationRect } from './backsplash';
+import { FillerWidths, RunFitMode } from './runFit';
 
 export interface Point {
   x: number;
@@ -10,6 +14,238 @@ export interface RoomData {
   points: Point[];
 }
 
+// Project document as produced by the designer's exportRoomData (the `projectData` object)
+export interface ExportedRoom {
+  id: number;
+  isMain: boolean;
+  isComplete: boolean;
+  height: number;
+  wall_thickness: number;
+  wall_material: string;
+  floor_material: string;
+  ceiling_material: string;
+  points: {
+    x: number[];
+    y: number[];
+  };
+  walls: {
+    count: number;
+    from: number[];
+    to: number[];
+  };
+  doors: {
+    count: number;
+    wallIndices: number[];
+    widths: number[];
+    positions: number[];
+    heights: number[];
+    frameThicknesses: number[];
+    frameWidths: number[];
+    materials: string[];
+  };
+  windows: {
+    count: number;
+    wallIndices: number[];
+    widths: number[];
+    heights: number[];
+    sillHeights: number[];
+    positions: number[];
+    types: ('single' | 'double_open' | 'double_closed' | 'none')[];
+  };
+  noClosingWall?: boolean;
+  attachments?: {
+    pointIndex: number;
+    attachedTo: {
+      roomId: number;
+      wallIndex: number;
+      t: number;
+    };
+  }[];
+}
+
+export interface ExportedCabinetRun {
+  id: number;
+  type: 'Base' | 'Upper';
+  position: Point;
+  dimensions: {
+    length: number;
+    depth: number;
+  };
+  rotation_z: number;
+  properties: {
+    start_type: 'Open' | 'Wall';
+    end_type: 'Open' | 'Wall';
+    top_filler: boolean;
+    is_island: boolean;
+    omit_backsplash: boolean;
+    start_connect: number | 'None';
+    end_connect: number | 'None';
+    fit_mode?: RunFitMode;
+    filler_widths?: FillerWidths;
+  };
+  snapInfo?: {
+    isSnapped: boolean;
+    snappedEdge?: 'rear';
+    snappedToWall: {
+      roomId: number;
+      wallIndex: number;
+    };
+  };
+}
+
+export interface ExportedCabinet {
+  id: string;
+  cabinet_run_id: number;
+  cabinet_type: string;
+  cabinet_width: number;
+  hinge_right: boolean;
+  material_doors: string;
+  position: number;
+  floating_shelf_depth?: number;
+  floating_shelf_height?: number;
+  floating_shelf_num?: number;
+  floating_shelf_vert_spacing?: number;
+  custom_definition?: CabinetTypeDefinition; // Set for the project's own cabinet types
+}
+
+export interface ExportedCamera {
+  position: {
+    x: number;
+    y: number;
+    z: number; // Camera height
+  };
+  rotation: number;
+  focalLength: number;
+  shiftY: number;
+}
+
+export interface ExportedFocalPoint {
+  position: Point;
+  height: number;
+}
+
+export interface ExportedCameraShot {
+  name: string;
+  camera: ExportedCamera;
+  focalPoint: ExportedFocalPoint | null;
+  aimAtFocalPoint?: boolean; // Defaults to true
+}
+
+export interface ExportedCameraKeyframe {
+  time: number; // Seconds from the start of the path
+  position: {
+    x: number;
+    y: number;
+    z: number; // Camera height
+  };
+  rotation: number;
+  focalLength: number;
+}
+
+export interface ExportedCameraPath {
+  frameRate: number;
+  duration: number; // Seconds
+  keyframes: ExportedCameraKeyframe[];
+}
+
+// One countertop: a single piece, or several joined at seams for L- and U-shapes. Areas in m²
+export interface ExportedCountertop {
+  id: number;
+  runIds: number[];
+  pieces: {
+    runId: number;
+    length: number;
+    width: number; // Front to back
+    area: number;
+    outline: Point[];
+  }[];
+  cutouts: {
+    kind: CutoutKind;
+    runId: number;
+    cabinetId: string;
+    width: number;
+    depth: number;
+    outline: Point[];
+  }[];
+  grossArea: number;
+  netArea: number; // Without the cutouts
+}
+
+// Backsplash behind one wall-snapped base run, in the run's elevation: along from the run
+// start, heights from the floor. Areas in m²
+export interface ExportedBacksplash {
+  runId: number;
+  roomId: number;
+  wallIndex: number;
+  outlines: ElevationPoint[][];
+  windowCutouts: ElevationRect[];
+  grossArea: number;
+  netArea: number; // Without the windows
+}
+
+export interface ProjectData {
+  schemaVersion: number; // See CURRENT_SCHEMA_VERSION in projectMigrations
+  address: string;
+  rooms: ExportedRoom[];
+  cabinetRuns: ExportedCabinetRun[];
+  cabinets: ExportedCabinet[];
+  camera: ExportedCamera | null; // The active camera, for tools that only handle one
+  focalPoint: ExportedFocalPoint | null;
+  cameras: ExportedCameraShot[];
+  activeCamera: number | null; // Index into cameras
+  cameraPath: ExportedCameraPath | null; // Walkthrough animation
+  customCabinetTypes: CabinetTypeDefinition[]; // Cabinet types defined in this project
+  countertopSettings: CountertopSettings;
+  countertops: ExportedCountertop[]; // Worked out from the base runs, for fabricators
+  backsplashes: ExportedBacksplash[]; // For tiling quotes
+  exportDate: string;
+}
+
+// Saved project as stored by the server
+export interface ProjectSummary {
+  id: number;
+  name: string;
+  address: string;
+  thumbnail: string | null; // PNG data URL of the plan
+  version: number; // Incremented on every change, used for optimistic concurrency
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Project extends ProjectSummary {
+  data: ProjectData;
+}
+
+// Optional details sent alongside the project document
+export interface ProjectDetails {
+  name?: string;
+  thumbnail?: string | null;
+}
+
+export interface ProjectListParams {
+  page?: number;
+  pageSize?: number;
+  search?: string; // Matches name or address
+}
+
+export interface ProjectListResponse {
+  items: ProjectSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Thrown when a project was changed on the server since the version we loaded
+export class ProjectConflictError extends Error {
+  currentVersion: number;
+
+  constructor(currentVersion: number) {
+    super('Project has been modified by someone else');
+    this.name = 'ProjectConflictError';
+    this.currentVersion = currentVersion;
+  }
+}
+
 // Create axios instance with default config
 const api = axios.create({
   baseURL: 'http://localhost:3000/api',
@@ -89,4 +325,75 @@ export const roomApi = {
   }
 };
 
+// Turn a 412 response into a ProjectConflictError so callers can offer to reload or overwrite
+const rethrowConflict = (error: unknown): never => {
+  if (axios.isAxiosError(error) && error.response?.status === 412) {
+    throw new ProjectConflictError(error.response.data?.currentVersion);
+  }
+  throw error;
+};
+
+const versionHeaders = (version: number) => ({
+  headers: { 'If-Match': `"${version}"` }
+});
+
+export const projectApi = {
+  async listProjects(params: ProjectListParams = {}): Promise<ProjectListResponse> {
+    const response = await api.get<ProjectListResponse>('/projects', { params });
+    return response.data;
+  },
+
+  async getProject(id: number): Promise<Project> {
+    const response = await api.get<Project>(`/projects/${id}`);
+    return response.data;
+  },
+
+  async createProject(data: ProjectData, details: ProjectDetails = {}): Promise<Project> {
+    const response = await api.post<Project>('/projects', { ...details, data });
+    return response.data;
+  },
+
+  // Replace the stored document. `version` must be the version the caller last loaded
+  async updateProject(id: number, version: number, data: ProjectData, details: ProjectDetails = {}): Promise<Project> {
+    try {
+      const response = await api.put<Project>(`/projects/${id}`, { ...details, data }, versionHeaders(version));
+      return response.data;
+    } catch (error) {
+      return rethrowConflict(error);
+    }
+  },
+
+  // Update only the given fields, e.g. rename a project without resending its data
+  async patchProject(id: number, version: number, changes: ProjectDetails & { data?: Partial<ProjectData> }): Promise<Project> {
+    try {
+      const response = await api.patch<Project>(`/projects/${id}`, changes, versionHeaders(version));
+      return response.data;
+    } catch (error) {
+      return rethrowConflict(error);
+    }
+  },
+
+  async deleteProject(id: number, version: number): Promise<void> {
+    try {
+      await api.delete(`/projects/${id}`, versionHeaders(version));
+    } catch (error) {
+      rethrowConflict(error);
+    }
+  }
+};
+
+export const catalogApi = {
+  // The catalog file as stored on the server, or null if there isn't one. Run it through
+  // loadCabinetCatalog before use
+  async getCatalog(): Promise<unknown | null> {
+    try {
+      const response = await api.get('/cabinet-catalog');
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) return null;
+      throw error;
+    }
+  }
+};
+
 export default roomApi;
\ No newline at end of file
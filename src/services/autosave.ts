@@ -0,0 +1,60 @@
+import { ProjectData } from './api';
+
+export interface AutosaveSnapshot {
+  savedAt: string; // ISO timestamp
+  data: ProjectData;
+  // Server project the design came from, so saving after a restore still overwrites it
+  serverProject: { id: number; name: string; version: number } | null;
+}
+
+const STORAGE_KEY = 'roomspecker.autosave';
+const MAX_SNAPSHOTS = 10;
+const SNAPSHOT_INTERVAL_MS = 60 * 1000; // Start a new snapshot once the newest is this old
+
+// Newest snapshot first
+export const loadAutosaves = (): AutosaveSnapshot[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+
+    const snapshots = JSON.parse(stored);
+    return Array.isArray(snapshots) ? snapshots : [];
+  } catch (error) {
+    console.error('Error reading autosaves:', error);
+    return [];
+  }
+};
+
+export const writeAutosave = (snapshot: AutosaveSnapshot) => {
+  const snapshots = loadAutosaves();
+
+  // Keep refreshing the newest snapshot until it is far enough from the one before it,
+  // so older snapshots stay roughly a minute apart. After a pause, always start a new one
+  const [newest, previous] = snapshots;
+  if (newest && previous &&
+      Date.parse(newest.savedAt) - Date.parse(previous.savedAt) < SNAPSHOT_INTERVAL_MS &&
+      Date.parse(snapshot.savedAt) - Date.parse(newest.savedAt) < SNAPSHOT_INTERVAL_MS) {
+    snapshots[0] = snapshot;
+  } else {
+    snapshots.unshift(snapshot);
+  }
+
+  // Drop the oldest snapshots until everything fits in storage
+  let kept = snapshots.slice(0, MAX_SNAPSHOTS);
+  while (kept.length > 0) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+      return;
+    } catch (error) {
+      if (kept.length === 1) {
+        console.error('Error writing autosave:', error);
+        return;
+      }
+      kept = kept.slice(0, -1);
+    }
+  }
+};
+
+export const clearAutosaves = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
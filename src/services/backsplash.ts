@@ -0,0 +1,141 @@
+// Backsplash on the wall behind base runs, in the run's elevation: along from the run start,
+// heights from the floor. Lengths in mm, areas in m²
+
+export interface ElevationPoint {
+  along: number;
+  height: number;
+}
+
+export interface ElevationRect {
+  start: number; // Along the run
+  end: number;
+  bottom: number;
+  top: number;
+}
+
+export interface BacksplashSettings {
+  height: number; // Above the countertop
+  toUppers: boolean; // Under upper cabinets, go all the way up to them instead
+}
+
+// A wall-snapped base run reduced to what its backsplash needs
+export interface BacksplashRun {
+  id: number;
+  wall: { roomId: string, wallIndex: number };
+  length: number;
+  counterHeight: number; // Top of the countertop
+  breaks: { start: number, end: number }[]; // No backsplash here, e.g. behind tall cabinets
+  uppers: { start: number, end: number, bottom: number }[]; // Upper cabinets on the same wall
+  windows: ElevationRect[];
+}
+
+export interface Backsplash {
+  runId: number;
+  wall: { roomId: string, wallIndex: number };
+  outlines: ElevationPoint[][]; // One per stretch without breaks
+  windowCutouts: ElevationRect[]; // The parts of windows that fall inside the outlines
+  grossArea: number;
+  netArea: number; // Without the windows
+}
+
+export interface WallBacksplash {
+  roomId: string;
+  wallIndex: number;
+  runIds: number[];
+  area: number;
+}
+
+const rectArea = (rect: ElevationRect) => ((rect.end - rect.start) * (rect.top - rect.bottom)) / 1e6;
+
+// The backsplash as vertical strips, each from the counter up to its own top
+const getStrips = (run: BacksplashRun, settings: BacksplashSettings): ElevationRect[] => {
+  const edges = new Set([0, run.length]);
+  [...run.breaks, ...run.uppers].forEach(stretch => {
+    [stretch.start, stretch.end].forEach(edge => {
+      if (edge > 0 && edge < run.length) edges.add(edge);
+    });
+  });
+  const sorted = [...edges].sort((a, b) => a - b);
+
+  const strips: ElevationRect[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    const start = sorted[i - 1];
+    const end = sorted[i];
+    const middle = (start + end) / 2;
+    if (run.breaks.some(stretch => middle > stretch.start && middle < stretch.end)) continue;
+
+    const above = run.uppers.filter(upper => middle > upper.start && middle < upper.end);
+    const upperBottom = above.length > 0 ? Math.min(...above.map(upper => upper.bottom)) : Infinity;
+    const fixedTop = run.counterHeight + settings.height;
+    const top = settings.toUppers && upperBottom !== Infinity ? upperBottom : Math.min(fixedTop, upperBottom);
+    if (top > run.counterHeight) strips.push({ start, end, bottom: run.counterHeight, top });
+  }
+  return strips;
+};
+
+// Outline of strips that touch each other, stepping down the tops from right to left
+const getOutline = (strips: ElevationRect[]): ElevationPoint[] => {
+  const first = strips[0];
+  const last = strips[strips.length - 1];
+  const points: ElevationPoint[] = [
+    { along: first.start, height: first.bottom },
+    { along: last.end, height: last.bottom }
+  ];
+  [...strips].reverse().forEach(strip => {
+    points.push({ along: strip.end, height: strip.top }, { along: strip.start, height: strip.top });
+  });
+  return points.filter((point, i) => {
+    const previous = points[(i - 1 + points.length) % points.length];
+    return point.along !== previous.along || point.height !== previous.height;
+  });
+};
+
+export const buildBacksplashes = (runs: BacksplashRun[], settings: BacksplashSettings): Backsplash[] =>
+  runs.flatMap(run => {
+    const strips = getStrips(run, settings);
+    if (strips.length === 0) return [];
+
+    // Strips that touch form one outline
+    const groups: ElevationRect[][] = [];
+    strips.forEach(strip => {
+      const group = groups[groups.length - 1];
+      if (group && group[group.length - 1].end === strip.start) group.push(strip);
+      else groups.push([strip]);
+    });
+
+    const windowCutouts = strips.flatMap(strip => run.windows.flatMap(window => {
+      const cutout = {
+        start: Math.max(strip.start, window.start),
+        end: Math.min(strip.end, window.end),
+        bottom: Math.max(strip.bottom, window.bottom),
+        top: Math.min(strip.top, window.top)
+      };
+      return cutout.end > cutout.start && cutout.top > cutout.bottom ? [cutout] : [];
+    }));
+
+    const grossArea = strips.reduce((sum, strip) => sum + rectArea(strip), 0);
+    const windowArea = windowCutouts.reduce((sum, cutout) => sum + rectArea(cutout), 0);
+    return [{
+      runId: run.id,
+      wall: run.wall,
+      outlines: groups.map(getOutline),
+      windowCutouts,
+      grossArea,
+      netArea: grossArea - windowArea
+    }];
+  });
+
+// Backsplash area on each wall, adding up the runs along it
+export const getBacksplashByWall = (backsplashes: Backsplash[]): WallBacksplash[] => {
+  const walls: WallBacksplash[] = [];
+  backsplashes.forEach(backsplash => {
+    const wall = walls.find(w => w.roomId === backsplash.wall.roomId && w.wallIndex === backsplash.wall.wallIndex);
+    if (wall) {
+      wall.runIds.push(backsplash.runId);
+      wall.area += backsplash.netArea;
+    } else {
+      walls.push({ ...backsplash.wall, runIds: [backsplash.runId], area: backsplash.netArea });
+    }
+  });
+  return walls;
+};
@@ -0,0 +1,361 @@
+import { ValidationIssue } from './projectValidation';
+
+// What the designer knows about each cabinet type: where it goes, how wide it can be,
+// how tall it is, how it's drawn and which materials it comes in. Lengths in mm
+
+export type CabinetCategory = 'Base' | 'Tall' | 'Wall' | 'CounterTop';
+export type CabinetRunType = 'Base' | 'Upper';
+
+// Symbol drawn inside the cabinet on the plan
+export type PlanSymbol = 'door' | 'drawers' | 'bookcase' | 'floatingShelf' | 'corner' |
+  'sink' | 'oven' | 'cooktop' | 'fridge' | 'exhaustFan' | 'none';
+
+export interface CabinetPlanTemplate {
+  symbol: PlanSymbol;
+  count?: number; // Doors (1 or 2), drawers or cooktop burners
+  side?: 'left' | 'right'; // Corner side
+}
+
+export type FrontSectionKind = 'door' | 'drawers' | 'open' | 'panel' | 'appliance' | 'blindCorner';
+
+// One band of the cabinet front, stacked from the bottom up
+export interface FrontSection {
+  kind: FrontSectionKind;
+  height?: number; // Fixed height. Sections without one share what's left
+  count?: number; // Doors (1 or 2) or drawers
+  label?: string;
+  side?: 'left' | 'right'; // Blind corner: the side with the fixed panel
+}
+
+// Hole the cabinet needs in the countertop above it
+export type CutoutKind = 'sink' | 'cooktop';
+
+// Appliance the cabinet houses, for layouts that place it next to others
+export type ApplianceKind = 'dishwasher';
+
+export interface CabinetTemplate {
+  plan: CabinetPlanTemplate;
+  front: FrontSection[];
+  toeKick: boolean;
+  floatingShelf?: boolean; // Height comes from the shelf settings instead
+  cutout?: CutoutKind;
+  appliance?: ApplianceKind;
+}
+
+export interface CabinetWidthRule {
+  fixed?: number;
+  min: number;
+  max?: number;
+}
+
+export interface CabinetTypeDefinition {
+  name: string; // Stored as cabinet_type
+  category: CabinetCategory;
+  runType: CabinetRunType;
+  width: CabinetWidthRule;
+  mountHeight: number; // Bottom of the cabinet above the floor
+  defaultHeight: number;
+  template: CabinetTemplate;
+  materials?: string[]; // Allowed material ids, all of them if left out
+}
+
+export interface MaterialOption {
+  id: string;
+  label: string;
+}
+
+export interface CabinetCatalog {
+  version: number;
+  materials: MaterialOption[];
+  types: CabinetTypeDefinition[];
+}
+
+export interface CatalogLoadResult {
+  catalog: CabinetCatalog | null; // null if nothing usable is left
+  issues: ValidationIssue[];
+}
+
+const DEFAULT_MIN_WIDTH = 250;
+
+// Types that aren't in the catalog (from an older file, or another shop's catalog) still
+// load: they get a plain panel front and the default width rules
+export const getCabinetDefinition = (catalog: CabinetCatalog, typeName: string): CabinetTypeDefinition =>
+  catalog.types.find(type => type.name === typeName) ?? {
+    name: typeName,
+    category: 'Base',
+    runType: 'Base',
+    width: { min: DEFAULT_MIN_WIDTH },
+    mountHeight: 0,
+    defaultHeight: 900,
+    template: { plan: { symbol: 'none' }, front: [{ kind: 'panel', label: typeName }], toeKick: false }
+  };
+
+export const getCatalogTypeNames = (catalog: CabinetCatalog, runType: CabinetRunType): string[] =>
+  catalog.types.filter(type => type.runType === runType).map(type => type.name);
+
+export const getCabinetMaterials = (catalog: CabinetCatalog, typeName: string): MaterialOption[] => {
+  const allowed = getCabinetDefinition(catalog, typeName).materials;
+  return allowed ? catalog.materials.filter(material => allowed.includes(material.id)) : catalog.materials;
+};
+
+// Project-specific types go on top of the catalog. If a name clashes, the project's own
+// definition wins since that's what its cabinets were designed with
+export const withCustomCabinetTypes = (catalog: CabinetCatalog, customTypes: CabinetTypeDefinition[]): CabinetCatalog => {
+  if (customTypes.length === 0) return catalog;
+  const customNames = new Set(customTypes.map(type => type.name));
+  return { ...catalog, types: [...catalog.types.filter(type => !customNames.has(type.name)), ...customTypes] };
+};
+
+// Plan symbol for a front built in the custom cabinet editor: the section that takes the
+// free height (or the first one) decides what the cabinet looks like from above
+export const getFrontPlanTemplate = (front: FrontSection[]): CabinetPlanTemplate => {
+  const main = front.find(section => section.height === undefined) ?? front[0];
+  if (!main) return { symbol: 'none' };
+  switch (main.kind) {
+    case 'door':
+      return { symbol: 'door', count: main.count === 2 ? 2 : 1 };
+    case 'drawers':
+      return { symbol: 'drawers', count: main.count ?? 1 };
+    case 'open':
+      return { symbol: 'bookcase' };
+    case 'blindCorner':
+      return { symbol: 'corner', side: main.side };
+    default:
+      return { symbol: 'none' };
+  }
+};
+
+// Countertop cutout of a cabinet type. Sink and cooktop plan symbols imply one
+export const getCountertopCutout = (definition: CabinetTypeDefinition): CutoutKind | null => {
+  if (definition.template.cutout) return definition.template.cutout;
+  if (definition.template.plan.symbol === 'sink' || definition.template.plan.symbol === 'cooktop') {
+    return definition.template.plan.symbol;
+  }
+  return null;
+};
+
+// Width a cabinet of this type ends up with when asked for the given width
+export const clampCabinetWidth = (definition: CabinetTypeDefinition, width: number) => {
+  if (definition.width.fixed !== undefined) return definition.width.fixed;
+  return Math.min(definition.width.max ?? Infinity, Math.max(definition.width.min, width));
+};
+
+// Catalog loader
+
+type RawRecord = Record<string, unknown>;
+type Report = (path: string, severity: ValidationIssue['severity'], message: string) => void;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const CATEGORIES: CabinetCategory[] = ['Base', 'Tall', 'Wall', 'CounterTop'];
+const RUN_TYPES: CabinetRunType[] = ['Base', 'Upper'];
+const PLAN_SYMBOLS: PlanSymbol[] = ['door', 'drawers', 'bookcase', 'floatingShelf', 'corner',
+  'sink', 'oven', 'cooktop', 'fridge', 'exhaustFan', 'none'];
+const FRONT_KINDS: FrontSectionKind[] = ['door', 'drawers', 'open', 'panel', 'appliance', 'blindCorner'];
+const CUTOUT_KINDS: CutoutKind[] = ['sink', 'cooktop'];
+const APPLIANCE_KINDS: ApplianceKind[] = ['dishwasher'];
+
+const validateWidthRule = (raw: unknown, path: string, report: Report): CabinetWidthRule | null => {
+  if (!isRecord(raw) || !isPositive(raw.min)) {
+    report(`${path}.min`, 'error', 'Width rule needs a positive min; type skipped');
+    return null;
+  }
+  const rule: CabinetWidthRule = { min: raw.min };
+  if (raw.max !== undefined) {
+    if (!isPositive(raw.max) || raw.max < raw.min) {
+      report(`${path}.max`, 'warning', 'max must be a number no smaller than min; ignored');
+    } else {
+      rule.max = raw.max;
+    }
+  }
+  if (raw.fixed !== undefined) {
+    if (!isPositive(raw.fixed)) {
+      report(`${path}.fixed`, 'error', 'fixed must be a positive number; type skipped');
+      return null;
+    }
+    rule.fixed = raw.fixed;
+  }
+  return rule;
+};
+
+const validateFrontSection = (raw: unknown, path: string, report: Report): FrontSection | null => {
+  if (!isRecord(raw) || !FRONT_KINDS.includes(raw.kind as FrontSectionKind)) {
+    report(`${path}.kind`, 'error', `Front section kind must be one of ${FRONT_KINDS.join(', ')}; section skipped`);
+    return null;
+  }
+  const section: FrontSection = { kind: raw.kind as FrontSectionKind };
+  if (raw.height !== undefined) {
+    if (isPositive(raw.height)) section.height = raw.height;
+    else report(`${path}.height`, 'warning', 'height must be a positive number; section shares the free height');
+  }
+  if (raw.count !== undefined) {
+    if (Number.isInteger(raw.count) && (raw.count as number) > 0) section.count = raw.count as number;
+    else report(`${path}.count`, 'warning', 'count must be a positive integer; using 1');
+  }
+  if (typeof raw.label === 'string') section.label = raw.label;
+  if (raw.side === 'left' || raw.side === 'right') section.side = raw.side;
+  return section;
+};
+
+const validateTemplate = (raw: unknown, path: string, report: Report): CabinetTemplate | null => {
+  if (!isRecord(raw)) {
+    report(path, 'error', 'template must be an object; type skipped');
+    return null;
+  }
+  const plan = isRecord(raw.plan) ? raw.plan : {};
+  if (!PLAN_SYMBOLS.includes(plan.symbol as PlanSymbol)) {
+    report(`${path}.plan.symbol`, 'warning', `Plan symbol must be one of ${PLAN_SYMBOLS.join(', ')}; using "none"`);
+  }
+  const front = Array.isArray(raw.front) ? raw.front : [];
+  if (!Array.isArray(raw.front)) {
+    report(`${path}.front`, 'warning', 'front must be an array; the front is drawn as a plain panel');
+  }
+  const cutout = CUTOUT_KINDS.includes(raw.cutout as CutoutKind) ? raw.cutout as CutoutKind : undefined;
+  if (raw.cutout !== undefined && !cutout) {
+    report(`${path}.cutout`, 'warning', `cutout must be one of ${CUTOUT_KINDS.join(', ')}; ignored`);
+  }
+  const appliance = APPLIANCE_KINDS.includes(raw.appliance as ApplianceKind) ? raw.appliance as ApplianceKind : undefined;
+  if (raw.appliance !== undefined && !appliance) {
+    report(`${path}.appliance`, 'warning', `appliance must be one of ${APPLIANCE_KINDS.join(', ')}; ignored`);
+  }
+
+  return {
+    plan: {
+      symbol: PLAN_SYMBOLS.includes(plan.symbol as PlanSymbol) ? plan.symbol as PlanSymbol : 'none',
+      ...(Number.isInteger(plan.count) ? { count: plan.count as number } : {}),
+      ...(plan.side === 'left' || plan.side === 'right' ? { side: plan.side } : {})
+    },
+    front: Array.isArray(raw.front) ? front.flatMap((section, i) => {
+      const valid = validateFrontSection(section, `${path}.front[${i}]`, report);
+      return valid ? [valid] : [];
+    }) : [{ kind: 'panel' }],
+    toeKick: raw.toeKick === true,
+    ...(raw.floatingShelf === true ? { floatingShelf: true } : {}),
+    ...(cutout ? { cutout } : {}),
+    ...(appliance ? { appliance } : {})
+  };
+};
+
+const validateType = (raw: unknown, path: string, materialIds: Set<string> | null, report: Report): CabinetTypeDefinition | null => {
+  if (!isRecord(raw) || typeof raw.name !== 'string' || raw.name === '') {
+    report(`${path}.name`, 'error', 'Cabinet type needs a non-empty name; type skipped');
+    return null;
+  }
+  if (!CATEGORIES.includes(raw.category as CabinetCategory)) {
+    report(`${path}.category`, 'error', `category must be one of ${CATEGORIES.join(', ')}; type skipped`);
+    return null;
+  }
+  if (!RUN_TYPES.includes(raw.runType as CabinetRunType)) {
+    report(`${path}.runType`, 'error', `runType must be one of ${RUN_TYPES.join(', ')}; type skipped`);
+    return null;
+  }
+  const width = validateWidthRule(raw.width, `${path}.width`, report);
+  if (!width) return null;
+  if (!isPositive(raw.defaultHeight)) {
+    report(`${path}.defaultHeight`, 'error', 'defaultHeight must be a positive number; type skipped');
+    return null;
+  }
+  const template = validateTemplate(raw.template, `${path}.template`, report);
+  if (!template) return null;
+
+  let mountHeight = raw.mountHeight ?? 0;
+  if (typeof mountHeight !== 'number' || mountHeight < 0) {
+    report(`${path}.mountHeight`, 'warning', 'mountHeight must be a non-negative number; using 0');
+    mountHeight = 0;
+  }
+
+  const definition: CabinetTypeDefinition = {
+    name: raw.name,
+    category: raw.category as CabinetCategory,
+    runType: raw.runType as CabinetRunType,
+    width,
+    mountHeight: mountHeight as number,
+    defaultHeight: raw.defaultHeight,
+    template
+  };
+  if (raw.materials !== undefined) {
+    const materials = Array.isArray(raw.materials) ? raw.materials : [];
+    const known = materials.filter((id): id is string => typeof id === 'string' && (!materialIds || materialIds.has(id)));
+    if (known.length !== materials.length || !Array.isArray(raw.materials)) {
+      report(`${path}.materials`, 'warning', 'materials must list ids from the catalog materials; unknown entries ignored');
+    }
+    if (known.length > 0) definition.materials = known;
+  }
+  return definition;
+};
+
+// Check a list of cabinet types, from a catalog file or a project's custom types. Without
+// materialIds any material id is accepted
+export const loadCabinetTypes = (input: unknown, path: string, materialIds: Set<string> | null = null) => {
+  const issues: ValidationIssue[] = [];
+  const report: Report = (issuePath, severity, message) => {
+    issues.push({ path: issuePath, severity, message });
+  };
+
+  const types: CabinetTypeDefinition[] = [];
+  if (input !== undefined && !Array.isArray(input)) {
+    report(path, 'error', 'Cabinet types must be a list');
+  }
+  (Array.isArray(input) ? input : []).forEach((raw, i) => {
+    const typePath = `${path}[${i}]`;
+    const definition = validateType(raw, typePath, materialIds, report);
+    if (!definition) return;
+    if (types.some(type => type.name === definition.name)) {
+      report(`${typePath}.name`, 'error', `Duplicate cabinet type ${JSON.stringify(definition.name)}; type skipped`);
+      return;
+    }
+    types.push(definition);
+  });
+  return { types, issues };
+};
+
+// Whether two cabinet types are defined the same, whatever order their fields were written in
+export const isSameCabinetType = (a: CabinetTypeDefinition, b: CabinetTypeDefinition) => {
+  const ignore: Report = () => {};
+  const normalize = (type: CabinetTypeDefinition) => JSON.stringify(validateType(type, '$', null, ignore));
+  return normalize(a) === normalize(b);
+};
+
+// Check a catalog file and build the usable part of it
+export const loadCabinetCatalog = (input: unknown): CatalogLoadResult => {
+  const issues: ValidationIssue[] = [];
+  const report: Report = (path, severity, message) => {
+    issues.push({ path, severity, message });
+  };
+
+  if (!isRecord(input)) {
+    report('$', 'error', 'Cabinet catalog must be an object');
+    return { catalog: null, issues };
+  }
+
+  const materials: MaterialOption[] = [];
+  (Array.isArray(input.materials) ? input.materials : []).forEach((raw, i) => {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || raw.id === '') {
+      report(`$.materials[${i}].id`, 'error', 'Material needs a non-empty id; material skipped');
+      return;
+    }
+    materials.push({ id: raw.id, label: typeof raw.label === 'string' ? raw.label : raw.id });
+  });
+  if (materials.length === 0) {
+    report('$.materials', 'error', 'The catalog has no materials');
+    return { catalog: null, issues };
+  }
+  const materialIds = new Set(materials.map(material => material.id));
+
+  const { types, issues: typeIssues } = loadCabinetTypes(input.types, '$.types', materialIds);
+  issues.push(...typeIssues);
+  const missingRunTypes = RUN_TYPES.filter(runType => !types.some(type => type.runType === runType));
+  missingRunTypes.forEach(runType => {
+    report('$.types', 'error', `The catalog has no cabinet types for ${runType} runs`);
+  });
+  if (missingRunTypes.length > 0) return { catalog: null, issues };
+
+  return {
+    catalog: { version: typeof input.version === 'number' ? input.version : 1, materials, types },
+    issues
+  };
+};
@@ -0,0 +1,363 @@
+// Front elevations of cabinet runs, as seen standing in front of the run: the run's
+// start is on the left and heights are measured from the floor. All lengths in mm.
+// The drawing only uses the canvas 2D API, so it can be replayed into a VectorRecorder
+// for SVG export
+
+import { CabinetCategory, FrontSection } from './cabinetCatalog';
+
+export interface ElevationCabinet {
+  id: string;
+  type: string;
+  category: CabinetCategory;
+  toeKick: boolean;
+  front: FrontSection[]; // From the cabinet's catalog template
+  position: number; // From the run start
+  width: number;
+  bottom: number;
+  top: number;
+  hingeRight: boolean;
+  floatingShelf?: {
+    depth: number;
+    thickness: number;
+    count: number;
+    spacing: number;
+  };
+}
+
+export interface ElevationOpening {
+  kind: 'door' | 'window';
+  start: number; // Along the run, from the run start
+  end: number;
+  bottom: number;
+  top: number;
+}
+
+export interface RunElevation {
+  runId: number;
+  title: string;
+  length: number;
+  bottom: number; // Nominal height range of the run, used for fillers
+  top: number;
+  startFillerWidth: number; // 0 where the run has no filler
+  endFillerWidth: number;
+  topFiller: boolean;
+  ceilingHeight: number;
+  cabinets: ElevationCabinet[];
+  openings: ElevationOpening[]; // Doors and windows in the wall behind the run
+}
+
+export type ElevationFaceKind = 'door' | 'drawer' | 'open' | 'panel' | 'appliance';
+
+// A door, drawer front or other part of a cabinet front, relative to the cabinet's bottom left
+export interface ElevationFace {
+  kind: ElevationFaceKind;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  hinge?: 'left' | 'right';
+  label?: string;
+}
+
+const TOE_KICK_mm = 100;
+const FACE_GAP_mm = 3;
+const SHELF_SPACING_mm = 350;
+const WALL_MARGIN_mm = 300; // Wall shown either side of the run
+
+const TITLE_px = 30;
+const LEFT_px = 20;
+const RIGHT_px = 70;
+const BOTTOM_px = 70;
+
+const drawers = (x: number, y: number, width: number, height: number, count: number, label?: string): ElevationFace[] =>
+  Array.from({ length: count }, (_, i) => ({
+    kind: 'drawer' as const,
+    x,
+    y: y + (height / count) * i,
+    width,
+    height: height / count,
+    label: i === 0 ? label : undefined
+  }));
+
+// Pairs of doors hinge on the outer sides
+const doors = (x: number, y: number, width: number, height: number, count: 1 | 2, hingeRight: boolean): ElevationFace[] =>
+  count === 1
+    ? [{ kind: 'door', x, y, width, height, hinge: hingeRight ? 'right' : 'left' }]
+    : [
+      { kind: 'door', x, y, width: width / 2, height, hinge: 'left' },
+      { kind: 'door', x: x + width / 2, y, width: width / 2, height, hinge: 'right' }
+    ];
+
+// Faces of one front section filling the band from y to y + height
+const getSectionFaces = (section: FrontSection, y: number, width: number, height: number, hingeRight: boolean): ElevationFace[] => {
+  switch (section.kind) {
+    case 'door':
+      return doors(0, y, width, height, section.count === 2 ? 2 : 1, hingeRight);
+    case 'drawers':
+      return drawers(0, y, width, height, section.count ?? 1, section.label);
+    // Blind corners: a fixed panel on the corner side, the door on the other
+    case 'blindCorner': {
+      const cornerLeft = section.side !== 'right';
+      return [
+        { kind: 'panel', x: cornerLeft ? 0 : width / 2, y, width: width / 2, height },
+        { kind: 'door', x: cornerLeft ? width / 2 : 0, y, width: width / 2, height, hinge: cornerLeft ? 'right' : 'left' }
+      ];
+    }
+    default:
+      return [{ kind: section.kind, x: 0, y, width, height, label: section.label }];
+  }
+};
+
+// Door and drawer layout of a cabinet front. Sections stack from the bottom up; those
+// with a fixed height get it (scaled down if they don't fit), the rest share what's left
+export const getCabinetFaces = (cabinet: ElevationCabinet): ElevationFace[] => {
+  const kick = cabinet.toeKick ? TOE_KICK_mm : 0;
+  const height = cabinet.top - cabinet.bottom - kick;
+
+  const fixedTotal = cabinet.front.reduce((sum, section) => sum + (section.height ?? 0), 0);
+  const fixedScale = fixedTotal > height ? height / fixedTotal : 1;
+  const freeCount = cabinet.front.filter(section => section.height === undefined).length;
+  const freeHeight = freeCount > 0 ? Math.max(0, height - fixedTotal * fixedScale) / freeCount : 0;
+
+  let y = kick;
+  return cabinet.front.flatMap(section => {
+    const sectionHeight = section.height !== undefined ? section.height * fixedScale : freeHeight;
+    const faces = getSectionFaces(section, y, cabinet.width, sectionHeight, cabinet.hingeRight);
+    y += sectionHeight;
+    return faces;
+  });
+};
+
+// Side fillers take the height of the cabinet next to them
+export const getFillerExtent = (elevation: RunElevation, fillerStart: number) => {
+  const along = fillerStart === 0 ? elevation.startFillerWidth : fillerStart;
+  const neighbour = elevation.cabinets.find(cabinet =>
+    along >= cabinet.position - 1 && along <= cabinet.position + cabinet.width + 1);
+  return neighbour && !neighbour.floatingShelf
+    ? { bottom: neighbour.bottom, top: neighbour.top }
+    : { bottom: elevation.bottom, top: elevation.top };
+};
+
+// Where a top filler starts: the top of the run or its tallest cabinet
+export const getRunCabinetTop = (elevation: RunElevation) =>
+  Math.max(elevation.top, ...elevation.cabinets.filter(cabinet => !cabinet.floatingShelf).map(cabinet => cabinet.top));
+
+// Height of the drawing above the floor: the ceiling, or cabinets reaching past it
+const getElevationTop = (elevation: RunElevation) =>
+  Math.max(elevation.ceilingHeight, elevation.top, ...elevation.cabinets.map(cabinet => cabinet.top));
+
+export const getElevationCanvasSize = (elevation: RunElevation, pxPerMm: number) => ({
+  width: Math.ceil(LEFT_px + (elevation.length + 2 * WALL_MARGIN_mm) * pxPerMm + RIGHT_px),
+  height: Math.ceil(TITLE_px + getElevationTop(elevation) * pxPerMm + BOTTOM_px)
+});
+
+// Scale that fits the elevation into the given width
+export const getElevationFitScale = (elevation: RunElevation, width_px: number) =>
+  Math.max(0.01, (width_px - LEFT_px - RIGHT_px) / (elevation.length + 2 * WALL_MARGIN_mm));
+
+export const drawRunElevation = (ctx: CanvasRenderingContext2D, elevation: RunElevation, pxPerMm: number) => {
+  const maxHeight = getElevationTop(elevation);
+  const toX = (x: number) => LEFT_px + (x + WALL_MARGIN_mm) * pxPerMm;
+  const toY = (y: number) => TITLE_px + (maxHeight - y) * pxPerMm;
+
+  const box = (x: number, y: number, width: number, height: number, fill: string | null, stroke: string) => {
+    ctx.beginPath();
+    ctx.rect(toX(x), toY(y + height), width * pxPerMm, height * pxPerMm);
+    if (fill) {
+      ctx.fillStyle = fill;
+      ctx.fill();
+    }
+    ctx.strokeStyle = stroke;
+    ctx.stroke();
+  };
+
+  const line = (x1: number, y1: number, x2: number, y2: number) => {
+    ctx.beginPath();
+    ctx.moveTo(toX(x1), toY(y1));
+    ctx.lineTo(toX(x2), toY(y2));
+    ctx.stroke();
+  };
+
+  const label = (text: string, x: number, y: number, font = '10px Arial', color = '#111827', angle = 0) => {
+    ctx.save();
+    ctx.translate(toX(x), toY(y));
+    ctx.rotate(angle);
+    ctx.font = font;
+    ctx.fillStyle = color;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, 0, 0);
+    ctx.restore();
+  };
+
+  // Dimension lines in screen offsets from the drawing, so they stay readable at any scale
+  const horizontalDimension = (start: number, end: number, offset_px: number) => {
+    const y = toY(0) + offset_px;
+    ctx.strokeStyle = '#6b7280';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(toX(start), y);
+    ctx.lineTo(toX(end), y);
+    ctx.moveTo(toX(start), y - 4);
+    ctx.lineTo(toX(start), y + 4);
+    ctx.moveTo(toX(end), y - 4);
+    ctx.lineTo(toX(end), y + 4);
+    ctx.stroke();
+    ctx.font = '10px Arial';
+    ctx.fillStyle = '#374151';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    ctx.fillText(String(Math.round(end - start)), (toX(start) + toX(end)) / 2, y - 2);
+  };
+
+  const verticalDimension = (bottom: number, top: number, x_px: number) => {
+    ctx.strokeStyle = '#6b7280';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(x_px, toY(bottom));
+    ctx.lineTo(x_px, toY(top));
+    ctx.moveTo(x_px - 4, toY(bottom));
+    ctx.lineTo(x_px + 4, toY(bottom));
+    ctx.moveTo(x_px - 4, toY(top));
+    ctx.lineTo(x_px + 4, toY(top));
+    ctx.stroke();
+    ctx.save();
+    ctx.translate(x_px + 3, (toY(bottom) + toY(top)) / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.font = '10px Arial';
+    ctx.fillStyle = '#374151';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ctx.fillText(String(Math.round(top - bottom)), 0, 0);
+    ctx.restore();
+  };
+
+  const wallStart = -WALL_MARGIN_mm;
+  const wallEnd = elevation.length + WALL_MARGIN_mm;
+
+  ctx.save();
+  ctx.lineWidth = 1;
+  ctx.setLineDash([]);
+
+  ctx.font = 'bold 14px Arial';
+  ctx.fillStyle = '#111827';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(elevation.title, LEFT_px, TITLE_px / 2);
+
+  // Wall, floor and ceiling
+  box(wallStart, 0, wallEnd - wallStart, elevation.ceilingHeight, '#f9fafb', '#d1d5db');
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = '#111827';
+  line(wallStart, 0, wallEnd, 0);
+  ctx.lineWidth = 1;
+
+  // Openings in the wall behind the run, clipped to the part of the wall shown
+  elevation.openings.forEach(opening => {
+    const start = Math.max(opening.start, wallStart);
+    const end = Math.min(opening.end, wallEnd);
+    if (end <= start) return;
+
+    const isWindow = opening.kind === 'window';
+    box(start, opening.bottom, end - start, opening.top - opening.bottom,
+      isWindow ? '#dbeafe' : '#fef3c7', isWindow ? '#3b82f6' : '#d97706');
+    label(
+      `${isWindow ? 'WINDOW' : 'DOOR'} ${Math.round(opening.end - opening.start)} x ${Math.round(opening.top - opening.bottom)}`,
+      (start + end) / 2, opening.top - 80, '9px Arial', isWindow ? '#1d4ed8' : '#b45309'
+    );
+    if (isWindow) {
+      label(`sill ${Math.round(opening.bottom)}`, (start + end) / 2, opening.bottom + 80, '9px Arial', '#1d4ed8');
+    }
+  });
+
+  const drawFiller = (start: number, width: number) => {
+    const extent = getFillerExtent(elevation, start);
+    box(start, extent.bottom, width, extent.top - extent.bottom, '#d1d5db', '#6b7280');
+    label('FILLER', start + width / 2, (extent.bottom + extent.top) / 2, '9px Arial', '#111827', -Math.PI / 2);
+  };
+
+  if (elevation.startFillerWidth > 0) drawFiller(0, elevation.startFillerWidth);
+  if (elevation.endFillerWidth > 0) drawFiller(elevation.length - elevation.endFillerWidth, elevation.endFillerWidth);
+
+  // Top filler closes the gap between the tops of the cabinets and the ceiling
+  const cabinetTop = getRunCabinetTop(elevation);
+  if (elevation.topFiller && elevation.ceilingHeight > cabinetTop) {
+    box(0, cabinetTop, elevation.length, elevation.ceilingHeight - cabinetTop, '#d1fae5', '#059669');
+    label('TOP FILLER', elevation.length / 2, (cabinetTop + elevation.ceilingHeight) / 2, '9px Arial', '#047857');
+  }
+
+  elevation.cabinets.forEach(cabinet => {
+    if (cabinet.floatingShelf) {
+      const { thickness, count, spacing } = cabinet.floatingShelf;
+      for (let i = 0; i < count; i++) {
+        box(cabinet.position, cabinet.bottom + i * spacing, cabinet.width, thickness, '#e5e7eb', '#374151');
+      }
+      label(`${Math.round(cabinet.width)} shelf`, cabinet.position + cabinet.width / 2, cabinet.bottom - 60, '9px Arial');
+      return;
+    }
+
+    const height = cabinet.top - cabinet.bottom;
+    box(cabinet.position, cabinet.bottom, cabinet.width, height, '#ffffff', '#111827');
+    if (cabinet.toeKick) {
+      box(cabinet.position, cabinet.bottom, cabinet.width, TOE_KICK_mm, '#e5e7eb', '#6b7280');
+    }
+
+    getCabinetFaces(cabinet).forEach(face => {
+      const x = cabinet.position + face.x + FACE_GAP_mm / 2;
+      const y = cabinet.bottom + face.y + FACE_GAP_mm / 2;
+      const width = face.width - FACE_GAP_mm;
+      const faceHeight = face.height - FACE_GAP_mm;
+      const fill = face.kind === 'appliance' ? '#f3f4f6' : face.kind === 'panel' ? '#f9fafb' : null;
+      box(x, y, width, faceHeight, fill, '#374151');
+
+      ctx.strokeStyle = '#9ca3af';
+      if (face.kind === 'door' && face.hinge) {
+        // Swing lines meet at the hinge side
+        const hingeX = face.hinge === 'left' ? x : x + width;
+        const openX = face.hinge === 'left' ? x + width : x;
+        ctx.setLineDash([4, 3]);
+        line(openX, y, hingeX, y + faceHeight / 2);
+        line(hingeX, y + faceHeight / 2, openX, y + faceHeight);
+        ctx.setLineDash([]);
+      }
+      else if (face.kind === 'drawer') {
+        ctx.strokeStyle = '#374151';
+        const handle = Math.min(150, width / 3);
+        line(x + width / 2 - handle / 2, y + faceHeight - 40, x + width / 2 + handle / 2, y + faceHeight - 40);
+      }
+      else if (face.kind === 'open') {
+        const shelves = Math.max(1, Math.round(faceHeight / SHELF_SPACING_mm)) - 1;
+        for (let i = 1; i <= shelves; i++) {
+          line(x, y + (faceHeight / (shelves + 1)) * i, x + width, y + (faceHeight / (shelves + 1)) * i);
+        }
+      }
+
+      if (face.label) {
+        label(face.label, x + width / 2, y + faceHeight / 2, '9px Arial', '#374151');
+      }
+    });
+
+    label(`${Math.round(cabinet.width)} x ${Math.round(height)}`, cabinet.position + cabinet.width / 2, cabinet.top + 40, '9px Arial', '#1f2937');
+  });
+
+  // Widths along the run, then the overall length
+  const stops = [0, elevation.length];
+  if (elevation.startFillerWidth > 0) stops.push(elevation.startFillerWidth);
+  if (elevation.endFillerWidth > 0) stops.push(elevation.length - elevation.endFillerWidth);
+  elevation.cabinets.forEach(cabinet => stops.push(cabinet.position, cabinet.position + cabinet.width));
+  const widthStops = [...new Set(stops.map(stop => Math.round(stop)))].sort((a, b) => a - b);
+  for (let i = 1; i < widthStops.length; i++) {
+    horizontalDimension(widthStops[i - 1], widthStops[i], 25);
+  }
+  horizontalDimension(0, elevation.length, 50);
+
+  // Heights from the floor: upper offset, cabinet heights and the space above
+  const levels = [0, elevation.ceilingHeight];
+  elevation.cabinets.forEach(cabinet => levels.push(cabinet.bottom, cabinet.top));
+  const heightStops = [...new Set(levels.map(level => Math.round(level)))].sort((a, b) => a - b);
+  for (let i = 1; i < heightStops.length; i++) {
+    verticalDimension(heightStops[i - 1], heightStops[i], toX(wallEnd) + 20);
+  }
+
+  ctx.restore();
+};
@@ -0,0 +1,92 @@
+import { Point } from './api';
+
+// Keyframed camera path for walkthrough renders. Times in seconds, world coordinates in mm
+
+export interface CameraKeyframe {
+  time: number;
+  position: Point;
+  rotation: number; // Degrees
+  height: number;
+  focalLength: number;
+}
+
+export interface CameraPath {
+  keyframes: CameraKeyframe[]; // Sorted by time
+  frameRate: number;
+  duration: number;
+}
+
+export const DEFAULT_FRAME_RATE = 30;
+export const DEFAULT_KEYFRAME_SPACING_s = 2;
+
+export const sortKeyframes = (keyframes: CameraKeyframe[]) =>
+  [...keyframes].sort((a, b) => a.time - b.time);
+
+export const getFrameCount = (path: CameraPath) => Math.max(1, Math.round(path.duration * path.frameRate));
+
+// Catmull-Rom through p1 and p2, with p0 and p3 shaping the tangents
+const catmullRom = (p0: number, p1: number, p2: number, p3: number, u: number) =>
+  0.5 * (2 * p1 + (p2 - p0) * u + (2 * p0 - 5 * p1 + 4 * p2 - p3) * u * u + (3 * p1 - p0 - 3 * p2 + p3) * u * u * u);
+
+// Rotations unwrapped so each one is within 180° of the one before, turning the short way
+const getUnwrappedRotations = (keyframes: CameraKeyframe[]) => {
+  const rotations: number[] = [];
+  keyframes.forEach((keyframe, i) => {
+    if (i === 0) {
+      rotations.push(keyframe.rotation);
+      return;
+    }
+    const previous = rotations[i - 1];
+    const delta = ((((keyframe.rotation - previous) % 360) + 540) % 360) - 180;
+    rotations.push(previous + delta);
+  });
+  return rotations;
+};
+
+// Camera at the given time. Position, height and rotation follow a spline through the
+// keyframes, focal length changes linearly so it can't overshoot. Before the first and
+// after the last keyframe the camera holds still
+export const getCameraAtTime = (path: CameraPath, time: number): CameraKeyframe | null => {
+  const keyframes = sortKeyframes(path.keyframes);
+  if (keyframes.length === 0) return null;
+
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+  if (time <= first.time) return { ...first, time };
+  if (time >= last.time) return { ...last, time };
+
+  const index = keyframes.findIndex((keyframe, i) => time >= keyframe.time && time <= keyframes[i + 1].time);
+  const k0 = keyframes[Math.max(0, index - 1)];
+  const k1 = keyframes[index];
+  const k2 = keyframes[index + 1];
+  const k3 = keyframes[Math.min(keyframes.length - 1, index + 2)];
+  const span = k2.time - k1.time;
+  const u = span > 0 ? (time - k1.time) / span : 0;
+
+  const rotations = getUnwrappedRotations(keyframes);
+  const r = (i: number) => rotations[Math.max(0, Math.min(keyframes.length - 1, i))];
+  const rotation = catmullRom(r(index - 1), r(index), r(index + 1), r(index + 2), u);
+
+  return {
+    time,
+    position: {
+      x: catmullRom(k0.position.x, k1.position.x, k2.position.x, k3.position.x, u),
+      y: catmullRom(k0.position.y, k1.position.y, k2.position.y, k3.position.y, u)
+    },
+    rotation: ((rotation % 360) + 360) % 360,
+    height: catmullRom(k0.height, k1.height, k2.height, k3.height, u),
+    focalLength: k1.focalLength + (k2.focalLength - k1.focalLength) * u
+  };
+};
+
+// Points along the path from the first to the last keyframe, for drawing the spline
+export const samplePath = (path: CameraPath, step: number): Point[] => {
+  const keyframes = sortKeyframes(path.keyframes);
+  if (keyframes.length < 2) return [];
+
+  const start = keyframes[0].time;
+  const end = keyframes[keyframes.length - 1].time;
+  const count = Math.max(1, Math.ceil((end - start) / step));
+  return Array.from({ length: count + 1 }, (_, i) => getCameraAtTime(path, Math.min(end, start + i * step)))
+    .flatMap(camera => camera ? [camera.position] : []);
+};
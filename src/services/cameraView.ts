@@ -0,0 +1,228 @@
+import { Point } from './api';
+
+// What the camera lens sees, worked out on the plan. World coordinates in mm
+
+export const DEFAULT_SENSOR_WIDTH_mm = 28;
+
+// Image shape of the renders, 16:9
+export const RENDER_ASPECT = 16 / 9;
+
+export interface WallSegment {
+  start: Point;
+  end: Point;
+}
+
+export interface ViewRoom {
+  points: Point[];
+  isComplete: boolean;
+  noClosingWall?: boolean;
+  doors: { wallIndex: number, startPoint: Point, endPoint: Point, height: number }[];
+  windows: { wallIndex: number, startPoint: Point, endPoint: Point, sillHeight: number, height: number }[];
+}
+
+export interface ViewCamera {
+  position: Point;
+  rotation: number; // Degrees
+  height: number;
+  focalLength: number;
+  shiftY: number;
+  sensorWidth: number;
+}
+
+const RAY_STEP_DEG = 0.5;
+
+// Horizontal field of view in degrees
+export const getHorizontalFov = (focalLength: number, sensorWidth: number) =>
+  2 * Math.atan(sensorWidth / (2 * focalLength)) * (180 / Math.PI);
+
+// Parameter along the wall of a point projected onto it (0 at start, 1 at end)
+const projectOnto = (point: Point, start: Point, end: Point) => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  return lengthSquared === 0 ? 0 : ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared;
+};
+
+// Walls that block the view at the camera's height. Doors and windows the camera
+// looks straight through leave gaps
+export const getViewBlockingWalls = (rooms: ViewRoom[], cameraHeight: number): WallSegment[] =>
+  rooms.flatMap(room => {
+    if (!room.isComplete || room.points.length < 3) return [];
+    const wallCount = room.noClosingWall ? room.points.length - 1 : room.points.length;
+
+    return Array.from({ length: wallCount }, (_, wallIndex) => {
+      const start = room.points[wallIndex];
+      const end = room.points[(wallIndex + 1) % room.points.length];
+      const gaps = [
+        ...room.doors.filter(door => door.wallIndex === wallIndex && cameraHeight < door.height),
+        ...room.windows.filter(window => window.wallIndex === wallIndex &&
+          cameraHeight > window.sillHeight && cameraHeight < window.sillHeight + window.height)
+      ]
+        .map(opening => {
+          const t1 = projectOnto(opening.startPoint, start, end);
+          const t2 = projectOnto(opening.endPoint, start, end);
+          return { from: Math.min(t1, t2), to: Math.max(t1, t2) };
+        })
+        .sort((a, b) => a.from - b.from);
+
+      const segments: WallSegment[] = [];
+      let from = 0;
+      const pointAt = (t: number) => ({ x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t });
+      gaps.forEach(gap => {
+        if (gap.from > from) segments.push({ start: pointAt(from), end: pointAt(Math.min(gap.from, 1)) });
+        from = Math.max(from, gap.to);
+      });
+      if (from < 1) segments.push({ start: pointAt(from), end });
+      return segments;
+    }).flat();
+  });
+
+// Distance along the ray to the nearest wall, or maxDistance
+const castRay = (origin: Point, direction: Point, walls: WallSegment[], maxDistance: number) => {
+  let nearest = maxDistance;
+  walls.forEach(({ start, end }) => {
+    const wall = { x: end.x - start.x, y: end.y - start.y };
+    const denominator = direction.x * wall.y - direction.y * wall.x;
+    if (Math.abs(denominator) < 1e-9) return;
+    const toStart = { x: start.x - origin.x, y: start.y - origin.y };
+    const distance = (toStart.x * wall.y - toStart.y * wall.x) / denominator;
+    const t = (toStart.x * direction.y - toStart.y * direction.x) / denominator;
+    if (distance > 1e-6 && t >= 0 && t <= 1 && distance < nearest) nearest = distance;
+  });
+  return nearest;
+};
+
+// The area the camera sees on the plan: its field of view, cut off where the rays hit walls
+export const getViewPolygon = (camera: ViewCamera, walls: WallSegment[], maxDistance: number): Point[] => {
+  const fov = getHorizontalFov(camera.focalLength, camera.sensorWidth);
+  const steps = Math.max(1, Math.ceil(fov / RAY_STEP_DEG));
+  const points = [camera.position];
+  for (let i = 0; i <= steps; i++) {
+    const angle = ((camera.rotation - fov / 2 + (fov * i) / steps) * Math.PI) / 180;
+    const direction = { x: Math.cos(angle), y: Math.sin(angle) };
+    const distance = castRay(camera.position, direction, walls, maxDistance);
+    points.push({ x: camera.position.x + direction.x * distance, y: camera.position.y + direction.y * distance });
+  }
+  return points;
+};
+
+// Whether a point at the given height lands inside the rendered frame
+export const isPointInView = (camera: ViewCamera, point: Point, height: number) => {
+  const rotationRad = (camera.rotation * Math.PI) / 180;
+  const dx = point.x - camera.position.x;
+  const dy = point.y - camera.position.y;
+  const depth = dx * Math.cos(rotationRad) + dy * Math.sin(rotationRad);
+  if (depth <= 0) return false;
+
+  // Image plane coordinates in fractions of the image width, as in the renderer
+  const zoom = camera.focalLength / camera.sensorWidth;
+  const sideways = (dx * Math.sin(rotationRad) - dy * Math.cos(rotationRad)) / depth * zoom;
+  const up = (height - camera.height) / depth * zoom - camera.shiftY;
+  return Math.abs(sideways) <= 0.5 && Math.abs(up) <= 0.5 / RENDER_ASPECT;
+};
+
+// Direction from the camera to a point on the plan, in degrees between 0 and 360
+export const getAimRotation = (from: Point, to: Point) => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x) * (180 / Math.PI);
+  return ((angle % 360) + 360) % 360;
+};
+
+export interface FrameTarget {
+  points: Point[]; // Plan footprint
+  bottom: number;
+  top: number;
+}
+
+export interface FrameOptions {
+  margin: number; // Fraction of the image kept free on each side
+  shiftY: number;
+  sensorWidth: number;
+  minFocalLength: number;
+  maxFocalLength: number;
+  wallClearance: number; // How close to a wall the camera may stand
+  maxDistance: number;
+}
+
+export interface FrameResult {
+  position: Point;
+  height: number;
+  focalLength: number;
+  center: Point; // Middle of the target on the plan, straight ahead of the camera
+  fits: boolean; // False if even the widest lens or the walls don't allow the margins
+}
+
+const FRAME_SEARCH_STEPS = 40;
+
+// Camera placement that shows the whole target, looking along the given rotation.
+// The camera is level with the middle of the target and backs away from it as far as
+// the walls allow, then zooms in to the margins. If that needs more than the longest
+// lens, it comes closer instead. Parts of the target behind the camera, like the wall it
+// backs onto when framing a whole room, can't be in the picture and are left out
+export const getAutoFrame = (
+  target: FrameTarget,
+  rotation: number,
+  walls: WallSegment[],
+  options: FrameOptions
+): FrameResult => {
+  const rotationRad = (rotation * Math.PI) / 180;
+  const direction = { x: Math.cos(rotationRad), y: Math.sin(rotationRad) };
+  const xs = target.points.map(p => p.x);
+  const ys = target.points.map(p => p.y);
+  const center = { x: (Math.min(...xs) + Math.max(...xs)) / 2, y: (Math.min(...ys) + Math.max(...ys)) / 2 };
+  const height = (target.bottom + target.top) / 2;
+
+  const halfWidth = 0.5 * (1 - 2 * options.margin);
+  const halfHeight = (0.5 / RENDER_ASPECT) * (1 - 2 * options.margin);
+  const corners = target.points.flatMap(point => [
+    { point, z: target.bottom },
+    { point, z: target.top }
+  ]);
+
+  // Largest zoom (focal length / sensor width) that keeps every corner inside the margins
+  const getMaxZoom = (distance: number) => {
+    const position = { x: center.x - direction.x * distance, y: center.y - direction.y * distance };
+    return corners.reduce((maxZoom, { point, z }) => {
+      const dx = point.x - position.x;
+      const dy = point.y - position.y;
+      const depth = dx * direction.x + dy * direction.y;
+      if (depth <= 1) return maxZoom;
+      const sideways = Math.abs(dx * direction.y - dy * direction.x);
+      const up = z - height;
+      const limits = [
+        sideways > 0 ? (halfWidth * depth) / sideways : Infinity,
+        up > 0 ? ((halfHeight + options.shiftY) * depth) / up : Infinity,
+        up < 0 ? ((halfHeight - options.shiftY) * depth) / -up : Infinity
+      ];
+      return Math.max(0, Math.min(maxZoom, ...limits));
+    }, Infinity);
+  };
+
+  const available = Math.max(0, castRay(center, { x: -direction.x, y: -direction.y }, walls, options.maxDistance) -
+    options.wallClearance);
+  let distance = available;
+  let zoom = getMaxZoom(distance);
+
+  // Too far for the longest lens: find the distance where it just fits. The camera ends up
+  // at the near end of the last bracket, with the zoom worked out there so the frame holds
+  const maxZoom = options.maxFocalLength / options.sensorWidth;
+  if (zoom > maxZoom) {
+    let near = 0;
+    let far = distance;
+    for (let i = 0; i < FRAME_SEARCH_STEPS; i++) {
+      const middle = (near + far) / 2;
+      if (getMaxZoom(middle) < maxZoom) near = middle;
+      else far = middle;
+    }
+    distance = near;
+    zoom = Math.min(maxZoom, getMaxZoom(near));
+  }
+
+  const focalLength = zoom * options.sensorWidth;
+  return {
+    position: { x: center.x - direction.x * distance, y: center.y - direction.y * distance },
+    height,
+    focalLength: Math.max(options.minFocalLength, focalLength),
+    center,
+    fits: focalLength >= options.minFocalLength
+  };
+};
@@ -0,0 +1,233 @@
+import { Point } from './api';
+import { CutoutKind } from './cabinetCatalog';
+
+// Countertops over base runs. Runs joined through start_connect/end_connect share one slab
+// (L- and U-shapes), made of one piece per run with a seam where they meet. Lengths in mm,
+// areas in m²
+
+export interface CountertopSettings {
+  frontOverhang: number; // Past the cabinet fronts
+  endOverhang: number; // Past open run ends
+  seatingOverhang: number; // Past the back of islands
+  thickness: number;
+  backsplashHeight: number; // Above the counter
+  backsplashToUppers: boolean; // Under upper cabinets, the backsplash goes all the way up to them
+}
+
+export const DEFAULT_COUNTERTOP_SETTINGS: CountertopSettings = {
+  frontOverhang: 25,
+  endOverhang: 25,
+  seatingOverhang: 300,
+  thickness: 30,
+  backsplashHeight: 450,
+  backsplashToUppers: true
+};
+
+// A base run reduced to what its countertop needs. Positions along the run from its start
+export interface CountertopRun {
+  id: number;
+  origin: Point; // Rear left corner
+  rotation: number; // Degrees
+  length: number;
+  depth: number;
+  startOpen: boolean;
+  endOpen: boolean;
+  isIsland: boolean;
+  startConnect?: number;
+  endConnect?: number;
+  breaks: { start: number, end: number }[]; // Where the counter stops, e.g. tall cabinets
+  cutouts: { kind: CutoutKind, cabinetId: string, start: number, width: number }[];
+}
+
+export interface CountertopPiece {
+  runId: number;
+  outline: Point[]; // Rear left, rear right, front right, front left
+  length: number;
+  width: number; // Front to back
+  area: number;
+}
+
+export interface CountertopCutout {
+  kind: CutoutKind;
+  runId: number;
+  cabinetId: string;
+  outline: Point[];
+  width: number;
+  depth: number;
+}
+
+export interface CountertopSlab {
+  id: number;
+  runIds: number[];
+  pieces: CountertopPiece[];
+  cutouts: CountertopCutout[];
+  grossArea: number;
+  netArea: number; // Without the cutouts
+}
+
+const CUTOUT_DEPTHS: Record<CutoutKind, number> = { sink: 450, cooktop: 490 };
+const CUTOUT_SIDE_MARGIN = 50; // Between the cutout and the sides of its cabinet
+const CUTOUT_EDGE_MARGIN = 50; // Least counter left in front of and behind a cutout
+
+// A piece in its run's frame: along from the run start, across from the rear towards the front
+interface LocalRect {
+  from: number;
+  to: number;
+  rear: number;
+  front: number;
+}
+
+const getAxes = (run: CountertopRun) => {
+  const rotationRad = (run.rotation * Math.PI) / 180;
+  return {
+    along: { x: Math.cos(rotationRad), y: Math.sin(rotationRad) },
+    across: { x: Math.sin(rotationRad), y: -Math.cos(rotationRad) } // Towards the front
+  };
+};
+
+const toWorld = (run: CountertopRun, along: number, across: number): Point => {
+  const axes = getAxes(run);
+  return {
+    x: run.origin.x + along * axes.along.x + across * axes.across.x,
+    y: run.origin.y + along * axes.along.y + across * axes.across.y
+  };
+};
+
+const toLocal = (run: CountertopRun, point: Point) => {
+  const axes = getAxes(run);
+  const dx = point.x - run.origin.x;
+  const dy = point.y - run.origin.y;
+  return { along: dx * axes.along.x + dy * axes.along.y, across: dx * axes.across.x + dy * axes.across.y };
+};
+
+const getOutline = (run: CountertopRun, rect: LocalRect): Point[] => [
+  toWorld(run, rect.from, rect.rear),
+  toWorld(run, rect.to, rect.rear),
+  toWorld(run, rect.to, rect.front),
+  toWorld(run, rect.from, rect.front)
+];
+
+// The run minus its breaks, each stretch overhanging the open run ends
+const getRunPieces = (run: CountertopRun, settings: CountertopSettings): LocalRect[] => {
+  const breaks = run.breaks
+    .map(stretch => ({ start: Math.max(0, stretch.start), end: Math.min(run.length, stretch.end) }))
+    .filter(stretch => stretch.end > stretch.start)
+    .sort((a, b) => a.start - b.start);
+
+  const stretches: { start: number, end: number }[] = [];
+  let position = 0;
+  breaks.forEach(stretch => {
+    if (stretch.start > position) stretches.push({ start: position, end: stretch.start });
+    position = Math.max(position, stretch.end);
+  });
+  if (position < run.length) stretches.push({ start: position, end: run.length });
+
+  return stretches.map(stretch => ({
+    from: stretch.start === 0 && run.startOpen ? -settings.endOverhang : stretch.start,
+    to: stretch.end === run.length && run.endOpen ? run.length + settings.endOverhang : stretch.end,
+    rear: run.isIsland ? -settings.seatingOverhang : 0,
+    front: run.depth + settings.frontOverhang
+  }));
+};
+
+// Extent of the other run's pieces in this run's frame
+const getLocalExtent = (run: CountertopRun, other: CountertopRun, pieces: LocalRect[]) => {
+  const corners = pieces.flatMap(piece => getOutline(other, piece)).map(point => toLocal(run, point));
+  return {
+    alongMin: Math.min(...corners.map(corner => corner.along)),
+    alongMax: Math.max(...corners.map(corner => corner.along)),
+    acrossMin: Math.min(...corners.map(corner => corner.across)),
+    acrossMax: Math.max(...corners.map(corner => corner.across))
+  };
+};
+
+const getCutout = (run: CountertopRun, cutout: CountertopRun['cutouts'][number]): CountertopCutout | null => {
+  const width = cutout.width - 2 * CUTOUT_SIDE_MARGIN;
+  const depth = Math.min(CUTOUT_DEPTHS[cutout.kind], run.depth - 2 * CUTOUT_EDGE_MARGIN);
+  if (width <= 0 || depth <= 0) return null;
+
+  const from = cutout.start + CUTOUT_SIDE_MARGIN;
+  const rear = (run.depth - depth) / 2;
+  return {
+    kind: cutout.kind,
+    runId: run.id,
+    cabinetId: cutout.cabinetId,
+    outline: getOutline(run, { from, to: from + width, rear, front: rear + depth }),
+    width,
+    depth
+  };
+};
+
+export const buildCountertops = (runs: CountertopRun[], settings: CountertopSettings): CountertopSlab[] => {
+  const runsById = new Map(runs.map(run => [run.id, run]));
+  const basePieces = new Map(runs.map(run => [run.id, getRunPieces(run, settings)]));
+  const pieces = new Map(runs.map(run => [run.id, (basePieces.get(run.id) as LocalRect[]).map(piece => ({ ...piece }))]));
+
+  // Runs in the same slab, found by following the connections both ways
+  const groupOf = new Map(runs.map(run => [run.id, run.id]));
+  const findGroup = (id: number): number => {
+    const parent = groupOf.get(id) as number;
+    return parent === id ? id : findGroup(parent);
+  };
+
+  // At each joint, the run that names the connection stops where the other run's counter
+  // starts (or reaches across to it), and has no overhang at that end
+  const joined = new Set<string>();
+  runs.forEach(run => {
+    ([['start', run.startConnect], ['end', run.endConnect]] as const).forEach(([end, otherId]) => {
+      const other = otherId !== undefined ? runsById.get(otherId) : undefined;
+      if (!other || other.id === run.id) return;
+      groupOf.set(findGroup(run.id), findGroup(other.id));
+
+      const key = [run.id, other.id].sort((a, b) => a - b).join('-');
+      if (joined.has(key)) return;
+      joined.add(key);
+
+      const otherPieces = basePieces.get(other.id) as LocalRect[];
+      const runPieces = pieces.get(run.id) as LocalRect[];
+      if (otherPieces.length === 0 || runPieces.length === 0) return;
+      const extent = getLocalExtent(run, other, otherPieces);
+
+      // A piece that stops at a break (a tall cabinet in the corner) doesn't reach the joint
+      const piece = end === 'end' ? runPieces[runPieces.length - 1] : runPieces[0];
+      const reachesJoint = end === 'end' ? piece.to >= run.length : piece.from <= 0;
+      const overlapsAcross = extent.acrossMax > piece.rear && extent.acrossMin < piece.front;
+      if (!reachesJoint || !overlapsAcross) return;
+      if (end === 'end' && extent.alongMin > piece.from) piece.to = extent.alongMin;
+      if (end === 'start' && extent.alongMax < piece.to) piece.from = extent.alongMax;
+    });
+  });
+
+  const groups = new Map<number, CountertopRun[]>();
+  runs.forEach(run => {
+    const group = findGroup(run.id);
+    groups.set(group, [...(groups.get(group) ?? []), run]);
+  });
+
+  const slabs: CountertopSlab[] = [];
+  groups.forEach(groupRuns => {
+    const slabPieces: CountertopPiece[] = groupRuns.flatMap(run => (pieces.get(run.id) as LocalRect[]).map(piece => {
+      const length = piece.to - piece.from;
+      const width = piece.front - piece.rear;
+      return { runId: run.id, outline: getOutline(run, piece), length, width, area: (length * width) / 1e6 };
+    }));
+    if (slabPieces.length === 0) return;
+
+    const cutouts = groupRuns.flatMap(run => run.cutouts.flatMap(cutout => {
+      const result = getCutout(run, cutout);
+      return result ? [result] : [];
+    }));
+    const grossArea = slabPieces.reduce((sum, piece) => sum + piece.area, 0);
+    const cutoutArea = cutouts.reduce((sum, cutout) => sum + (cutout.width * cutout.depth) / 1e6, 0);
+
+    slabs.push({
+      id: slabs.length + 1,
+      runIds: groupRuns.map(run => run.id),
+      pieces: slabPieces,
+      cutouts,
+      grossArea,
+      netArea: grossArea - cutoutArea
+    });
+  });
+  return slabs;
+};
@@ -0,0 +1,107 @@
+import { CabinetCatalog, CabinetTypeDefinition, FrontSection } from './cabinetCatalog';
+
+// The cabinet line the designer ships with. A shop can replace it with its own catalog
+// file on the server, see catalogApi
+
+const BASE_HEIGHT = 900;
+const UPPER_MOUNT = 1500;
+const UPPER_HEIGHT = 700;
+const TALL_HEIGHT = UPPER_MOUNT + UPPER_HEIGHT; // Tall cabinets line up with the uppers
+
+const door = (count: 1 | 2, height?: number): FrontSection => ({ kind: 'door', count, ...(height ? { height } : {}) });
+const drawers = (count: number, label?: string): FrontSection => ({ kind: 'drawers', count, ...(label ? { label } : {}) });
+
+const base = (name: string, width: CabinetTypeDefinition['width'], template: Omit<CabinetTypeDefinition['template'], 'toeKick'>): CabinetTypeDefinition => ({
+  name, category: 'Base', runType: 'Base', width, mountHeight: 0, defaultHeight: BASE_HEIGHT, template: { ...template, toeKick: true }
+});
+
+const tall = (name: string, width: CabinetTypeDefinition['width'], template: Omit<CabinetTypeDefinition['template'], 'toeKick'>): CabinetTypeDefinition => ({
+  name, category: 'Tall', runType: 'Base', width, mountHeight: 0, defaultHeight: TALL_HEIGHT, template: { ...template, toeKick: true }
+});
+
+const wall = (name: string, width: CabinetTypeDefinition['width'], template: Omit<CabinetTypeDefinition['template'], 'toeKick'>): CabinetTypeDefinition => ({
+  name, category: 'Wall', runType: 'Upper', width, mountHeight: UPPER_MOUNT, defaultHeight: UPPER_HEIGHT, template: { ...template, toeKick: false }
+});
+
+const ANY = { min: 250 };
+const W642 = { fixed: 642, min: 250 };
+const W763 = { fixed: 763, min: 250 };
+const W950 = { fixed: 950, min: 250 };
+
+const warmingOvenMicro = (doorCount: 1 | 2): FrontSection[] => [
+  { kind: 'drawers', count: 1, height: 250, label: 'WARMING' },
+  { kind: 'appliance', height: 700, label: 'OVEN' },
+  { kind: 'appliance', height: 450, label: 'MICRO' },
+  door(doorCount)
+];
+
+const exhaustFan = (): FrontSection[] => [{ kind: 'appliance', height: 150, label: 'HOOD' }, door(2)];
+
+export const DEFAULT_CABINET_CATALOG: CabinetCatalog = {
+  version: 1,
+  materials: [
+    { id: 'PaintGrade', label: 'Paint Grade' },
+    { id: 'Walnut_Muted_BookMatch', label: 'Walnut Muted Book Match' },
+    { id: 'Walnut_Natural_BookMatch', label: 'Walnut Natural Book Match' },
+    { id: 'Walnut_Roasted_BookMatch', label: 'Walnut Roasted Book Match' },
+    { id: 'WhiteOak_Basic_SlipMatch', label: 'White Oak Basic Slip Match' },
+    { id: 'WhiteOak_FineDark_RandomMatch', label: 'White Oak Fine Dark Random Match' },
+    { id: 'WhiteOak_Muted_SlipMatch', label: 'White Oak Muted Slip Match' },
+    { id: 'WhiteOak_RandomMatchTiger', label: 'White Oak Random Match Tiger' },
+    { id: 'WhiteOak_Whitened_SlipMatch', label: 'White Oak Whitened Slip Match' }
+  ],
+  types: [
+    base('Base - 2-Drawer', ANY, { plan: { symbol: 'drawers', count: 2 }, front: [drawers(2)] }),
+    base('Base - 3-Drawer', ANY, { plan: { symbol: 'drawers', count: 3 }, front: [drawers(3)] }),
+    base('Base - 4-Drawer', ANY, { plan: { symbol: 'drawers', count: 4 }, front: [drawers(4)] }),
+    base('Base - Leaf Door & Shelves', ANY, { plan: { symbol: 'door', count: 1 }, front: [door(1)] }),
+    base('Base - Double Leaf Door & Shelves', ANY, { plan: { symbol: 'door', count: 2 }, front: [door(2)] }),
+    base('Base - Bookcase', ANY, { plan: { symbol: 'bookcase' }, front: [{ kind: 'open' }] }),
+    base('Base - Sink & 3-Drawer', W763, {
+      plan: { symbol: 'drawers', count: 3 },
+      front: [drawers(3), { kind: 'panel', height: 200, label: 'SINK' }],
+      cutout: 'sink'
+    }),
+    base('Base - Trash 2-Drawer', { min: 450 }, { plan: { symbol: 'drawers', count: 2 }, front: [drawers(2, 'TRASH')] }),
+    base('Base - Cooktop 30 & 3-Drawer', W763, { plan: { symbol: 'drawers', count: 3 }, front: [drawers(3)], cutout: 'cooktop' }),
+    base('Base - Cooktop 36 & 3-Drawer', W950, { plan: { symbol: 'drawers', count: 3 }, front: [drawers(3)], cutout: 'cooktop' }),
+    base('Base - Oven', W763, {
+      plan: { symbol: 'oven' },
+      front: [{ kind: 'drawers', count: 1, height: 150 }, { kind: 'appliance', label: 'OVEN' }]
+    }),
+    base('Base - Oven & Cooktop 30', W763, {
+      plan: { symbol: 'oven' },
+      front: [{ kind: 'drawers', count: 1, height: 150 }, { kind: 'appliance', label: 'OVEN' }],
+      cutout: 'cooktop'
+    }),
+    base('Base - Corner Left', { min: 1200 }, { plan: { symbol: 'corner', side: 'left' }, front: [{ kind: 'blindCorner', side: 'left' }] }),
+    base('Base - Corner Right', { min: 1200 }, { plan: { symbol: 'corner', side: 'right' }, front: [{ kind: 'blindCorner', side: 'right' }] }),
+    base('Base - Dishwasher', W642, { plan: { symbol: 'none' }, front: [{ kind: 'appliance', label: 'DW' }], appliance: 'dishwasher' }),
+    tall('Tall - Bookcase', ANY, { plan: { symbol: 'bookcase' }, front: [{ kind: 'open' }] }),
+    tall('Tall - Single Leaf Door & Shelves', ANY, { plan: { symbol: 'door', count: 1 }, front: [door(1)] }),
+    tall('Tall - Double Leaf Door & Shelves', ANY, { plan: { symbol: 'door', count: 2 }, front: [door(2)] }),
+    tall('Tall - Warming & Oven & Micro & Leaf Door', W763, { plan: { symbol: 'door', count: 1 }, front: warmingOvenMicro(1) }),
+    tall('Tall - Warming & Oven & Micro & Double Leaf Door', W763, { plan: { symbol: 'door', count: 2 }, front: warmingOvenMicro(2) }),
+    tall('Tall - Integrated Fridge_Freezer 36 & Double Leaf Door', W950, {
+      plan: { symbol: 'door', count: 2 },
+      front: [{ kind: 'appliance', label: 'FRIDGE / FREEZER' }, door(2, 400)]
+    }),
+    wall('Wall - Leaf Door & Shelves', ANY, { plan: { symbol: 'door', count: 1 }, front: [door(1)] }),
+    wall('Wall - Double Leaf Door & Shelves', ANY, { plan: { symbol: 'door', count: 2 }, front: [door(2)] }),
+    wall('Wall - Bookcase', ANY, { plan: { symbol: 'bookcase' }, front: [{ kind: 'open' }] }),
+    wall('Wall - Leaf Door Corner Pie Left', { min: 600 }, { plan: { symbol: 'door', count: 1 }, front: [door(1)] }),
+    wall('Wall - Leaf Door Corner Pie Right', { min: 600 }, { plan: { symbol: 'door', count: 1 }, front: [door(1)] }),
+    wall('Wall - Floating Shelf', ANY, { plan: { symbol: 'floatingShelf' }, front: [], floatingShelf: true }),
+    wall('Wall - ExhaustFan - Integrated - 36x11 - Double Leaf Door', W950, { plan: { symbol: 'door', count: 2 }, front: exhaustFan() }),
+    wall('Wall - ExhaustFan - Integrated - 30x11 - Double Leaf Door', W763, { plan: { symbol: 'door', count: 2 }, front: exhaustFan() }),
+    {
+      name: 'CounterTop - Leaf Door & Shelves',
+      category: 'CounterTop',
+      runType: 'Upper',
+      width: ANY,
+      mountHeight: BASE_HEIGHT,
+      defaultHeight: TALL_HEIGHT - BASE_HEIGHT,
+      template: { plan: { symbol: 'door', count: 1 }, front: [door(1)], toeKick: false }
+    }
+  ]
+};
@@ -0,0 +1,96 @@
+import { getPlanExtents, PLAN_LAYERS, PlanEntity, PlanLayer } from './planDrawing';
+
+// AutoCAD Color Index per layer
+const LAYER_COLORS: Record<PlanLayer, number> = {
+  WALLS: 7, // White/black
+  DOORS: 3, // Green
+  WINDOWS: 5, // Blue
+  CABINET_RUNS: 8, // Gray
+  CABINETS: 30, // Orange
+  COUNTERTOPS: 6, // Magenta
+  CAMERA: 1 // Red
+};
+
+const INSUNITS_MILLIMETRES = 4;
+
+// DXF is a list of (group code, value) pairs, one per line
+type DxfPair = [number, string | number];
+
+const formatNumber = (value: number) => {
+  // Fixed precision keeps files readable and avoids exponent notation
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+const point = (x: number, y: number, offset = 0): DxfPair[] => [
+  [10 + offset, x],
+  [20 + offset, y],
+  [30 + offset, 0]
+];
+
+const entityPairs = (entity: PlanEntity): DxfPair[] => {
+  const layer: DxfPair = [8, entity.layer];
+
+  switch (entity.type) {
+    case 'line':
+      return [[0, 'LINE'], layer, ...point(entity.start.x, entity.start.y), ...point(entity.end.x, entity.end.y, 1)];
+    case 'polyline':
+      // R12 has no LWPOLYLINE, so use a POLYLINE with VERTEX entities
+      return [
+        [0, 'POLYLINE'], layer, [66, 1], ...point(0, 0), [70, entity.closed ? 1 : 0],
+        ...entity.points.flatMap((vertex): DxfPair[] => [[0, 'VERTEX'], layer, ...point(vertex.x, vertex.y)]),
+        [0, 'SEQEND'], layer
+      ];
+    case 'arc':
+      return [
+        [0, 'ARC'], layer, ...point(entity.center.x, entity.center.y),
+        [40, entity.radius], [50, entity.startAngle], [51, entity.endAngle]
+      ];
+    case 'circle':
+      return [[0, 'CIRCLE'], layer, ...point(entity.center.x, entity.center.y), [40, entity.radius]];
+    case 'point':
+      return [[0, 'POINT'], layer, ...point(entity.position.x, entity.position.y)];
+  }
+};
+
+const headerPairs = (entities: PlanEntity[]): DxfPair[] => {
+  const extents = getPlanExtents(entities) ?? { min: { x: 0, y: 0 }, max: { x: 0, y: 0 } };
+  return [
+    [0, 'SECTION'], [2, 'HEADER'],
+    [9, '$ACADVER'], [1, 'AC1009'],
+    [9, '$INSUNITS'], [70, INSUNITS_MILLIMETRES],
+    [9, '$EXTMIN'], ...point(extents.min.x, extents.min.y),
+    [9, '$EXTMAX'], ...point(extents.max.x, extents.max.y),
+    [0, 'ENDSEC']
+  ];
+};
+
+const tablePairs = (): DxfPair[] => [
+  [0, 'SECTION'], [2, 'TABLES'],
+  [0, 'TABLE'], [2, 'LTYPE'], [70, 1],
+  [0, 'LTYPE'], [2, 'CONTINUOUS'], [70, 0], [3, 'Solid line'], [72, 65], [73, 0], [40, 0],
+  [0, 'ENDTAB'],
+  [0, 'TABLE'], [2, 'LAYER'], [70, PLAN_LAYERS.length],
+  ...PLAN_LAYERS.flatMap((layer): DxfPair[] => [
+    [0, 'LAYER'], [2, layer], [70, 0], [62, LAYER_COLORS[layer]], [6, 'CONTINUOUS']
+  ]),
+  [0, 'ENDTAB'],
+  [0, 'ENDSEC']
+];
+
+// Write plan entities as an ASCII DXF (R12) drawing in millimetres
+export const buildDxf = (entities: PlanEntity[]): string => {
+  const pairs: DxfPair[] = [
+    ...headerPairs(entities),
+    ...tablePairs(),
+    [0, 'SECTION'], [2, 'ENTITIES'],
+    ...entities.flatMap(entityPairs),
+    [0, 'ENDSEC'],
+    [0, 'EOF']
+  ];
+
+  // Group codes are right-aligned to three characters, as most writers do
+  return pairs
+    .map(([code, value]) => `${String(code).padStart(3)}\n${typeof value === 'number' ? formatNumber(value) : value}`)
+    .join('\n') + '\n';
+};
@@ -0,0 +1,356 @@
+import { Point } from './api';
+import { getShapeBounds, VectorShape } from './vectorRecorder';
+
+// Print-ready plan drawings as PDF, written directly so no PDF library is needed.
+// Shapes come from the VectorRecorder in canvas pixels and are placed on paper at a true scale
+
+export type PaperSize = 'A4' | 'A3' | 'A2' | 'A1' | 'Letter' | 'Tabloid';
+
+// Portrait sizes in mm
+export const PAPER_SIZES_MM: Record<PaperSize, { width: number, height: number }> = {
+  A4: { width: 210, height: 297 },
+  A3: { width: 297, height: 420 },
+  A2: { width: 420, height: 594 },
+  A1: { width: 594, height: 841 },
+  Letter: { width: 215.9, height: 279.4 },
+  Tabloid: { width: 279.4, height: 431.8 }
+};
+
+// Scales offered for true-to-scale prints, and used when fitting the plan to one sheet
+export const PLAN_SCALES = [10, 20, 25, 50, 75, 100, 150, 200, 250, 500, 1000];
+
+export interface PlanPdfOptions {
+  paperSize: PaperSize;
+  orientation: 'portrait' | 'landscape';
+  scale: number | null; // 1:scale, or null to pick the largest standard scale that fits one sheet
+  address: string;
+  date: string;
+  toWorld: (point: Point) => Point; // Canvas pixels to world millimetres (y up)
+}
+
+const PAGE_MARGIN_MM = 10;
+const TITLE_BLOCK_HEIGHT_MM = 28;
+const PX_TO_PAPER_MM = 0.25; // Line widths and text keep their on-screen proportions
+const PT_PER_MM = 72 / 25.4;
+const SCALE_BAR_MAX_MM = 60;
+
+// Helvetica advance widths (1/1000 em) for the printable ASCII range, from the standard AFM
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// Close enough for centring labels, bold is slightly wider
+const getTextWidth = (text: string, fontSize: number, bold: boolean) => {
+  const units = Array.from(text).reduce((sum, char) => {
+    const code = char.charCodeAt(0);
+    return sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556);
+  }, 0);
+  return (units / 1000) * fontSize * (bold ? 1.06 : 1);
+};
+
+// PDF strings are WinAnsi here. Characters outside Latin-1 can't be shown
+const escapePdfText = (text: string) =>
+  Array.from(text)
+    .map(char => (char.charCodeAt(0) > 255 ? '?' : char))
+    .join('')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+const NAMED_COLORS: Record<string, [number, number, number]> = {
+  black: [0, 0, 0],
+  white: [255, 255, 255],
+  red: [255, 0, 0],
+  green: [0, 128, 0],
+  blue: [0, 0, 255],
+  gray: [128, 128, 128],
+  grey: [128, 128, 128]
+};
+
+// CSS color to RGB (0-1) and alpha. Unknown colors print black
+const parseColor = (color: string): { rgb: [number, number, number], alpha: number } => {
+  const value = color.trim().toLowerCase();
+  let rgb: [number, number, number] = [0, 0, 0];
+  let alpha = 1;
+
+  if (value.startsWith('#')) {
+    const hex = value.length === 4
+      ? value.slice(1).split('').map(digit => digit + digit).join('')
+      : value.slice(1, 7);
+    rgb = [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16) || 0) as [number, number, number];
+  } else if (value.startsWith('rgb')) {
+    const parts = value.replace(/rgba?\(|\)/g, '').split(',').map(part => parseFloat(part));
+    rgb = [parts[0] || 0, parts[1] || 0, parts[2] || 0];
+    alpha = parts.length > 3 && !isNaN(parts[3]) ? parts[3] : 1;
+  } else if (NAMED_COLORS[value]) {
+    rgb = NAMED_COLORS[value];
+  }
+
+  return { rgb: rgb.map(channel => channel / 255) as [number, number, number], alpha };
+};
+
+const n = (value: number) => String(Math.round(value * 1000) / 1000);
+
+// Collects content stream operators for one page, in millimetres
+class PageContent {
+  private operators: string[] = [];
+  readonly alphas = new Set<number>();
+
+  raw(operator: string) {
+    this.operators.push(operator);
+  }
+
+  setFill(color: string) {
+    const { rgb, alpha } = parseColor(color);
+    this.operators.push(`${rgb.map(n).join(' ')} rg`);
+    this.setAlpha(alpha);
+  }
+
+  setStroke(color: string) {
+    const { rgb, alpha } = parseColor(color);
+    this.operators.push(`${rgb.map(n).join(' ')} RG`);
+    this.setAlpha(alpha);
+  }
+
+  // Opacity goes through an ExtGState per alpha value, see buildPdf
+  private setAlpha(alpha: number) {
+    const rounded = Math.round(alpha * 100) / 100;
+    this.alphas.add(rounded);
+    this.operators.push(`/GS${Math.round(rounded * 100)} gs`);
+  }
+
+  path(subpaths: { points: Point[], closed: boolean }[]) {
+    subpaths.forEach(subpath => {
+      subpath.points.forEach((point, i) => {
+        this.operators.push(`${n(point.x * PT_PER_MM)} ${n(point.y * PT_PER_MM)} ${i === 0 ? 'm' : 'l'}`);
+      });
+      if (subpath.closed) this.operators.push('h');
+    });
+  }
+
+  line(start: Point, end: Point, color: string, width: number) {
+    this.setStroke(color);
+    this.operators.push(`${n(width * PT_PER_MM)} w []0 d`);
+    this.path([{ points: [start, end], closed: false }]);
+    this.operators.push('S');
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: { fill?: string, stroke?: string, lineWidth?: number }) {
+    if (options.fill) this.setFill(options.fill);
+    if (options.stroke) {
+      this.setStroke(options.stroke);
+      this.operators.push(`${n((options.lineWidth ?? 0.25) * PT_PER_MM)} w []0 d`);
+    }
+    this.operators.push(`${n(x * PT_PER_MM)} ${n(y * PT_PER_MM)} ${n(width * PT_PER_MM)} ${n(height * PT_PER_MM)} re`);
+    this.operators.push(options.fill && options.stroke ? 'B' : options.fill ? 'f' : 'S');
+  }
+
+  // position is the baseline start, angle in radians counterclockwise, size in mm
+  text(text: string, position: Point, size: number, options: { bold?: boolean, color?: string, angle?: number } = {}) {
+    const angle = options.angle ?? 0;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.setFill(options.color ?? '#000');
+    this.operators.push(
+      `BT /${options.bold ? 'F2' : 'F1'} ${n(size * PT_PER_MM)} Tf ` +
+      `${n(cos)} ${n(sin)} ${n(-sin)} ${n(cos)} ${n(position.x * PT_PER_MM)} ${n(position.y * PT_PER_MM)} Tm ` +
+      `(${escapePdfText(text)}) Tj ET`
+    );
+  }
+
+  toString() {
+    return this.operators.join('\n');
+  }
+}
+
+// Canvas text alignment relative to the baseline start, as fractions of width and font size
+const ALIGN_FACTORS: Record<string, number> = { left: 0, start: 0, center: -0.5, right: -1, end: -1 };
+const BASELINE_FACTORS: Record<string, number> = {
+  top: -0.718, hanging: -0.718, middle: -0.34, alphabetic: 0, ideographic: 0.207, bottom: 0.207
+};
+
+const drawShape = (page: PageContent, shape: VectorShape, toPaper: (point: Point) => Point) => {
+  if (shape.kind === 'text') {
+    const size = shape.fontSize * PX_TO_PAPER_MM;
+    const width = getTextWidth(shape.text, size, shape.bold);
+    // Canvas angles turn clockwise because its y axis points down
+    const angle = -shape.angle;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const dx = width * (ALIGN_FACTORS[shape.align] ?? 0);
+    const dy = size * (BASELINE_FACTORS[shape.baseline] ?? 0);
+    const anchor = toPaper(shape.position);
+    page.text(shape.text, { x: anchor.x + dx * cos - dy * sin, y: anchor.y + dx * sin + dy * cos }, size, {
+      bold: shape.bold,
+      color: shape.color,
+      angle
+    });
+    return;
+  }
+
+  if (shape.fill) page.setFill(shape.fill);
+  if (shape.stroke) {
+    page.setStroke(shape.stroke);
+    const dash = shape.dash.map(length => n(length * PX_TO_PAPER_MM * PT_PER_MM)).join(' ');
+    page.raw(`${n(shape.lineWidth * PX_TO_PAPER_MM * PT_PER_MM)} w [${dash}]0 d`);
+  }
+  page.path(shape.subpaths.map(subpath => ({ points: subpath.points.map(toPaper), closed: subpath.closed })));
+  page.raw(shape.fill ? 'f' : 'S');
+};
+
+// Longest round length in metres that fits the scale bar
+const getScaleBarLength = (scale: number) => {
+  const candidates = [0.5, 1, 2, 5, 10, 20, 50, 100];
+  return candidates.filter(length => (length * 1000) / scale <= SCALE_BAR_MAX_MM).pop() ?? candidates[0];
+};
+
+const drawTitleBlock = (
+  page: PageContent,
+  pageWidth: number,
+  options: PlanPdfOptions,
+  scale: number,
+  sheet: number,
+  sheetCount: number
+) => {
+  const x = PAGE_MARGIN_MM;
+  const y = PAGE_MARGIN_MM;
+  const width = pageWidth - 2 * PAGE_MARGIN_MM;
+  const height = TITLE_BLOCK_HEIGHT_MM;
+  const infoWidth = width * 0.45;
+  const detailsWidth = width * 0.25;
+
+  page.rect(x, y, width, height, { stroke: '#000', lineWidth: 0.35 });
+  page.line({ x: x + infoWidth, y }, { x: x + infoWidth, y: y + height }, '#000', 0.25);
+  page.line({ x: x + infoWidth + detailsWidth, y }, { x: x + infoWidth + detailsWidth, y: y + height }, '#000', 0.25);
+
+  // Project
+  page.text(options.address || 'Untitled project', { x: x + 4, y: y + height - 9 }, 5, { bold: true });
+  page.text('Floor plan', { x: x + 4, y: y + height - 16 }, 3.5);
+
+  // Details
+  const detailsX = x + infoWidth + 4;
+  page.text(`Date: ${options.date}`, { x: detailsX, y: y + height - 8 }, 3);
+  page.text(`Scale: 1:${scale}`, { x: detailsX, y: y + height - 14 }, 3);
+  page.text(`Sheet: ${sheet} of ${sheetCount}`, { x: detailsX, y: y + height - 20 }, 3);
+
+  // Scale bar in four alternating segments
+  const barLength = getScaleBarLength(scale);
+  const barWidth = (barLength * 1000) / scale;
+  const barX = x + infoWidth + detailsWidth + 6;
+  const barY = y + 8;
+  for (let i = 0; i < 4; i++) {
+    page.rect(barX + (barWidth / 4) * i, barY, barWidth / 4, 2, { fill: i % 2 === 0 ? '#000' : '#fff', stroke: '#000', lineWidth: 0.2 });
+  }
+  page.text('0', { x: barX - 0.8, y: barY + 3.5 }, 2.5);
+  page.text(`${barLength} m`, { x: barX + barWidth - 2, y: barY + 3.5 }, 2.5);
+
+  // North arrow, plan up is north
+  const arrowX = x + width - 10;
+  const arrowY = y + 6;
+  page.setFill('#000');
+  page.path([{ points: [{ x: arrowX, y: arrowY + 14 }, { x: arrowX - 4, y: arrowY }, { x: arrowX, y: arrowY + 4 }, { x: arrowX + 4, y: arrowY }], closed: true }]);
+  page.raw('f');
+  page.text('N', { x: arrowX - 1.6, y: arrowY + 16 }, 4, { bold: true });
+};
+
+// Assemble the PDF file. Object numbers: 1 catalog, 2 page tree, 3-4 fonts, then page + content per sheet
+const buildPdf = (pages: PageContent[], pageWidth: number, pageHeight: number): Uint8Array => {
+  const alphas = new Set<number>();
+  pages.forEach(page => page.alphas.forEach(alpha => alphas.add(alpha)));
+  const extGStates = Array.from(alphas)
+    .map(alpha => `/GS${Math.round(alpha * 100)} << /Type /ExtGState /ca ${n(alpha)} /CA ${n(alpha)} >>`)
+    .join(' ');
+
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  ];
+  pages.forEach((page, i) => {
+    const content = page.toString();
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${n(pageWidth * PT_PER_MM)} ${n(pageHeight * PT_PER_MM)}]` +
+      ` /Resources << /Font << /F1 3 0 R /F2 4 0 R >> /ExtGState << ${extGStates} >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Every character is a single byte (see escapePdfText), so string lengths are byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = output.length;
+    output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(output, char => char.charCodeAt(0));
+};
+
+// Lay the plan out at the chosen scale, tiling it over as many sheets as needed
+export const buildPlanPdf = (shapes: VectorShape[], options: PlanPdfOptions): Uint8Array => {
+  const paper = PAPER_SIZES_MM[options.paperSize];
+  const pageWidth = options.orientation === 'landscape' ? paper.height : paper.width;
+  const pageHeight = options.orientation === 'landscape' ? paper.width : paper.height;
+  const areaWidth = pageWidth - 2 * PAGE_MARGIN_MM;
+  const areaHeight = pageHeight - 2 * PAGE_MARGIN_MM - TITLE_BLOCK_HEIGHT_MM - PAGE_MARGIN_MM / 2;
+  const areaY = PAGE_MARGIN_MM + TITLE_BLOCK_HEIGHT_MM + PAGE_MARGIN_MM / 2;
+
+  // World extents of the drawing. The canvas y axis is flipped, so map both corners
+  const bounds = getShapeBounds(shapes) ?? { min: { x: 0, y: 0 }, max: { x: 0, y: 0 } };
+  const corner1 = options.toWorld(bounds.min);
+  const corner2 = options.toWorld(bounds.max);
+  const worldMin = { x: Math.min(corner1.x, corner2.x), y: Math.min(corner1.y, corner2.y) };
+  const worldWidth = Math.abs(corner2.x - corner1.x);
+  const worldHeight = Math.abs(corner2.y - corner1.y);
+
+  const scale = options.scale ??
+    PLAN_SCALES.find(candidate => worldWidth / candidate <= areaWidth && worldHeight / candidate <= areaHeight) ??
+    Math.ceil(Math.max(worldWidth / areaWidth, worldHeight / areaHeight));
+
+  const drawingWidth = worldWidth / scale;
+  const drawingHeight = worldHeight / scale;
+  const columns = Math.max(1, Math.ceil(drawingWidth / areaWidth));
+  const rows = Math.max(1, Math.ceil(drawingHeight / areaHeight));
+  // Centre the drawing on the combined sheets
+  const offsetX = (columns * areaWidth - drawingWidth) / 2;
+  const offsetY = (rows * areaHeight - drawingHeight) / 2;
+
+  const pages: PageContent[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const page = new PageContent();
+      // Rows are numbered from the top, paper y goes up
+      const shiftX = PAGE_MARGIN_MM - column * areaWidth;
+      const shiftY = areaY - (rows - 1 - row) * areaHeight;
+      const toPaper = (point: Point): Point => {
+        const world = options.toWorld(point);
+        return {
+          x: shiftX + offsetX + (world.x - worldMin.x) / scale,
+          y: shiftY + offsetY + (world.y - worldMin.y) / scale
+        };
+      };
+
+      page.raw('q');
+      page.raw(`${n(PAGE_MARGIN_MM * PT_PER_MM)} ${n(areaY * PT_PER_MM)} ${n(areaWidth * PT_PER_MM)} ${n(areaHeight * PT_PER_MM)} re W n`);
+      page.raw('1 J 1 j');
+      shapes.forEach(shape => drawShape(page, shape, toPaper));
+      page.raw('Q');
+
+      drawTitleBlock(page, pageWidth, options, scale, pages.length + 1, rows * columns);
+      pages.push(page);
+    }
+  }
+
+  return buildPdf(pages, pageWidth, pageHeight);
+};
@@ -0,0 +1,254 @@
+import { Point } from './api';
+
+// Plan geometry as simple drawing entities in world millimetres (y up), grouped by layer.
+// File exporters (DXF, ...) only need to know how to write these entities
+
+export type PlanLayer = 'WALLS' | 'DOORS' | 'WINDOWS' | 'CABINET_RUNS' | 'CABINETS' | 'COUNTERTOPS' | 'CAMERA';
+
+export const PLAN_LAYERS: PlanLayer[] = ['WALLS', 'DOORS', 'WINDOWS', 'CABINET_RUNS', 'CABINETS', 'COUNTERTOPS', 'CAMERA'];
+
+export type PlanEntity =
+  | { type: 'line', layer: PlanLayer, start: Point, end: Point }
+  | { type: 'polyline', layer: PlanLayer, points: Point[], closed: boolean }
+  // Angles in degrees, counterclockwise from startAngle to endAngle
+  | { type: 'arc', layer: PlanLayer, center: Point, radius: number, startAngle: number, endAngle: number }
+  | { type: 'circle', layer: PlanLayer, center: Point, radius: number }
+  | { type: 'point', layer: PlanLayer, position: Point };
+
+// Designer state reduced to what the plan needs
+export interface PlanOpening {
+  wallIndex: number;
+  startPoint: Point;
+  endPoint: Point;
+}
+
+export interface PlanRoom {
+  points: Point[];
+  isComplete: boolean;
+  noClosingWall?: boolean; // The wall from the last point back to the first belongs to another room
+  wallThickness: number;
+  doors: PlanOpening[];
+  windows: (PlanOpening & { type: 'single' | 'double_open' | 'double_closed' | 'none' })[];
+}
+
+export interface PlanSource {
+  rooms: PlanRoom[];
+  cabinetRuns: Point[][]; // Footprint corners of each run
+  cabinets: Point[][]; // Footprint corners of each cabinet
+  countertops: Point[][]; // Outlines of the countertop pieces and their cutouts
+  camera: { position: Point, rotation: number } | null;
+}
+
+const CAMERA_RADIUS = 150;
+const CAMERA_DIRECTION_LENGTH = 600;
+
+const add = (a: Point, b: Point): Point => ({ x: a.x + b.x, y: a.y + b.y });
+const scaleVector = (v: Point, factor: number): Point => ({ x: v.x * factor, y: v.y * factor });
+const toDegrees = (radians: number) => ((radians * 180 / Math.PI) % 360 + 360) % 360;
+
+// Shoelace formula, positive for counterclockwise polygons
+export const getSignedArea = (points: Point[]) => {
+  let area = 0;
+  points.forEach((point, i) => {
+    const next = points[(i + 1) % points.length];
+    area += point.x * next.y - next.x * point.y;
+  });
+  return area / 2;
+};
+
+// Unit normal of the wall from start to end, pointing away from the room
+export const getOutwardNormal = (start: Point, end: Point, counterclockwise: boolean): Point => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const length = Math.hypot(dx, dy) || 1;
+  // The interior is on the left of counterclockwise walls
+  return counterclockwise ? { x: dy / length, y: -dx / length } : { x: -dy / length, y: dx / length };
+};
+
+// Where two offset walls meet. Falls back to a plain offset when the walls are parallel
+const intersectLines = (p1: Point, d1: Point, p2: Point, d2: Point, fallback: Point): Point => {
+  const denominator = d1.x * d2.y - d1.y * d2.x;
+  if (Math.abs(denominator) < 1e-9) return fallback;
+  const t = ((p2.x - p1.x) * d2.y - (p2.y - p1.y) * d2.x) / denominator;
+  return { x: p1.x + d1.x * t, y: p1.y + d1.y * t };
+};
+
+// Parameter of a point projected onto the wall (0 at start, 1 at end)
+export const getWallParameter = (point: Point, start: Point, end: Point) => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return 0;
+  return ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared;
+};
+
+const lerp = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+// Inner and outer faces of each wall, with gaps where doors and windows are
+const addRoomEntities = (room: PlanRoom, entities: PlanEntity[]) => {
+  const { points, wallThickness } = room;
+  if (!room.isComplete || points.length < 3) return;
+
+  const counterclockwise = getSignedArea(points) > 0;
+  const wallCount = room.noClosingWall ? points.length - 1 : points.length;
+  const normals = points.map((point, i) => getOutwardNormal(point, points[(i + 1) % points.length], counterclockwise));
+
+  // Outer corner for each point, mitred between its two walls
+  const outerPoints = points.map((point, i) => {
+    const previous = (i - 1 + points.length) % points.length;
+    const next = points[(i + 1) % points.length];
+    const ownOffset = add(point, scaleVector(normals[i], wallThickness));
+    const isOpenEnd = room.noClosingWall && (i === 0 || i === points.length - 1);
+    if (isOpenEnd) {
+      // Square end where the wall meets the other room
+      return i === 0 ? ownOffset : add(point, scaleVector(normals[previous], wallThickness));
+    }
+    const previousOffset = add(points[previous], scaleVector(normals[previous], wallThickness));
+    return intersectLines(
+      previousOffset, { x: point.x - points[previous].x, y: point.y - points[previous].y },
+      ownOffset, { x: next.x - point.x, y: next.y - point.y },
+      ownOffset
+    );
+  });
+
+  for (let wallIndex = 0; wallIndex < wallCount; wallIndex++) {
+    const start = points[wallIndex];
+    const end = points[(wallIndex + 1) % points.length];
+    const outerStart = outerPoints[wallIndex];
+    const outerEnd = outerPoints[(wallIndex + 1) % points.length];
+    const normal = normals[wallIndex];
+    const wallOffset = scaleVector(normal, wallThickness);
+
+    const openings = [...room.doors, ...room.windows]
+      .filter(opening => opening.wallIndex === wallIndex)
+      .map(opening => {
+        const t1 = getWallParameter(opening.startPoint, start, end);
+        const t2 = getWallParameter(opening.endPoint, start, end);
+        return { from: Math.max(0, Math.min(t1, t2)), to: Math.min(1, Math.max(t1, t2)) };
+      })
+      .sort((a, b) => a.from - b.from);
+
+    // Wall pieces between the openings. The outer face follows the mitred corners
+    // at the ends, openings cut straight through the wall
+    let t = 0;
+    [...openings, { from: 1, to: 1 }].forEach(opening => {
+      if (opening.from > t) {
+        const innerFrom = lerp(start, end, t);
+        const innerTo = lerp(start, end, opening.from);
+        entities.push({ type: 'line', layer: 'WALLS', start: innerFrom, end: innerTo });
+        entities.push({
+          type: 'line',
+          layer: 'WALLS',
+          start: t === 0 ? outerStart : add(innerFrom, wallOffset),
+          end: opening.from === 1 ? outerEnd : add(innerTo, wallOffset)
+        });
+      }
+      t = Math.max(t, opening.to);
+    });
+
+    room.doors.filter(door => door.wallIndex === wallIndex).forEach(door => {
+      addJambs(door, wallOffset, 'DOORS', entities);
+
+      // Leaf opened into the room, hinged at the start point
+      const width = Math.hypot(door.endPoint.x - door.startPoint.x, door.endPoint.y - door.startPoint.y);
+      const inward = scaleVector(normal, -1);
+      entities.push({ type: 'line', layer: 'DOORS', start: door.startPoint, end: add(door.startPoint, scaleVector(inward, width)) });
+
+      const closedAngle = toDegrees(Math.atan2(door.endPoint.y - door.startPoint.y, door.endPoint.x - door.startPoint.x));
+      const openAngle = toDegrees(Math.atan2(inward.y, inward.x));
+      // Arcs run counterclockwise, so start from whichever end makes this the 90° sweep
+      const sweepsCounterclockwise = (openAngle - closedAngle + 360) % 360 <= 180;
+      entities.push({
+        type: 'arc',
+        layer: 'DOORS',
+        center: door.startPoint,
+        radius: width,
+        startAngle: sweepsCounterclockwise ? closedAngle : openAngle,
+        endAngle: sweepsCounterclockwise ? openAngle : closedAngle
+      });
+    });
+
+    room.windows.filter(window => window.wallIndex === wallIndex).forEach(window => {
+      addJambs(window, wallOffset, 'WINDOWS', entities);
+      entities.push({ type: 'line', layer: 'WINDOWS', start: window.startPoint, end: window.endPoint });
+      entities.push({
+        type: 'line',
+        layer: 'WINDOWS',
+        start: add(window.startPoint, wallOffset),
+        end: add(window.endPoint, wallOffset)
+      });
+      // Glass line in the middle of the wall, plain openings don't have one
+      if (window.type !== 'none') {
+        const halfOffset = scaleVector(wallOffset, 0.5);
+        entities.push({
+          type: 'line',
+          layer: 'WINDOWS',
+          start: add(window.startPoint, halfOffset),
+          end: add(window.endPoint, halfOffset)
+        });
+      }
+    });
+  }
+};
+
+// Lines closing the wall at both sides of an opening
+const addJambs = (opening: PlanOpening, wallOffset: Point, layer: PlanLayer, entities: PlanEntity[]) => {
+  [opening.startPoint, opening.endPoint].forEach(point => {
+    entities.push({ type: 'line', layer, start: point, end: add(point, wallOffset) });
+  });
+};
+
+export const buildPlanEntities = (source: PlanSource): PlanEntity[] => {
+  const entities: PlanEntity[] = [];
+
+  source.rooms.forEach(room => addRoomEntities(room, entities));
+
+  source.cabinetRuns.forEach(corners => {
+    entities.push({ type: 'polyline', layer: 'CABINET_RUNS', points: corners, closed: true });
+  });
+
+  source.cabinets.forEach(corners => {
+    entities.push({ type: 'polyline', layer: 'CABINETS', points: corners, closed: true });
+  });
+
+  source.countertops.forEach(outline => {
+    entities.push({ type: 'polyline', layer: 'COUNTERTOPS', points: outline, closed: true });
+  });
+
+  if (source.camera) {
+    const { position, rotation } = source.camera;
+    const rotationRad = (rotation * Math.PI) / 180;
+    entities.push({ type: 'point', layer: 'CAMERA', position });
+    entities.push({ type: 'circle', layer: 'CAMERA', center: position, radius: CAMERA_RADIUS });
+    entities.push({
+      type: 'line',
+      layer: 'CAMERA',
+      start: position,
+      end: add(position, { x: Math.cos(rotationRad) * CAMERA_DIRECTION_LENGTH, y: Math.sin(rotationRad) * CAMERA_DIRECTION_LENGTH })
+    });
+  }
+
+  return entities;
+};
+
+// Bounding box of everything in the plan, null if there is nothing
+export const getPlanExtents = (entities: PlanEntity[]): { min: Point, max: Point } | null => {
+  const points = entities.flatMap(entity => {
+    switch (entity.type) {
+      case 'line': return [entity.start, entity.end];
+      case 'polyline': return entity.points;
+      case 'arc':
+      case 'circle': return [
+        { x: entity.center.x - entity.radius, y: entity.center.y - entity.radius },
+        { x: entity.center.x + entity.radius, y: entity.center.y + entity.radius }
+      ];
+      case 'point': return [entity.position];
+    }
+  });
+  if (points.length === 0) return null;
+
+  return {
+    min: { x: Math.min(...points.map(p => p.x)), y: Math.min(...points.map(p => p.y)) },
+    max: { x: Math.max(...points.map(p => p.x)), y: Math.max(...points.map(p => p.y)) }
+  };
+};
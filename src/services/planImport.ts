@@ -0,0 +1,321 @@
+import { Point } from './api';
+
+// Closed outlines read from DXF or SVG survey plans, to be traced into rooms
+
+export type PlanUnit = 'mm' | 'cm' | 'm' | 'in' | 'ft';
+
+export const PLAN_UNIT_TO_MM: Record<PlanUnit, number> = {
+  mm: 1,
+  cm: 10,
+  m: 1000,
+  in: 25.4,
+  ft: 304.8
+};
+
+export interface PlanOutline {
+  id: number;
+  label: string; // Where it came from, e.g. "LWPOLYLINE on WALLS" or "path#kitchen"
+  points: Point[]; // In file units, y up
+}
+
+export interface ParsedPlan {
+  outlines: PlanOutline[];
+  unit: PlanUnit | null; // Unit declared by the file, if any
+}
+
+// $INSUNITS values we can map
+const DXF_UNITS: Record<number, PlanUnit> = { 1: 'in', 2: 'ft', 4: 'mm', 5: 'cm', 6: 'm' };
+
+// Drop the closing point if the outline repeats its first point at the end
+const removeClosingPoint = (points: Point[]) => {
+  const first = points[0];
+  const last = points[points.length - 1];
+  return points.length > 1 && Math.abs(first.x - last.x) < 1e-6 && Math.abs(first.y - last.y) < 1e-6
+    ? points.slice(0, -1)
+    : points;
+};
+
+// ---- DXF ----
+
+const readDxfPairs = (text: string): [number, string][] => {
+  const lines = text.split(/\r?\n/);
+  const pairs: [number, string][] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    pairs.push([parseInt(lines[i].trim()), lines[i + 1].trim()]);
+  }
+  return pairs;
+};
+
+// Reads LWPOLYLINE and POLYLINE/VERTEX entities that are closed (flag 1), or end where they start
+export const parseDxfPlan = (text: string): ParsedPlan => {
+  const pairs = readDxfPairs(text);
+  const outlines: PlanOutline[] = [];
+  let unit: PlanUnit | null = null;
+
+  const addOutline = (type: string, layer: string, points: Point[], closed: boolean) => {
+    const outline = removeClosingPoint(points);
+    if ((closed || outline.length < points.length) && outline.length >= 3) {
+      outlines.push({ id: outlines.length, label: `${type} on ${layer || '0'}`, points: outline });
+    }
+  };
+
+  for (let i = 0; i < pairs.length; i++) {
+    const [code, value] = pairs[i];
+
+    if (code === 9 && value === '$INSUNITS') {
+      const next = pairs[i + 1];
+      unit = next ? DXF_UNITS[parseInt(next[1])] ?? null : null;
+      continue;
+    }
+    if (code !== 0) continue;
+
+    if (value === 'LWPOLYLINE') {
+      let layer = '';
+      let closed = false;
+      const points: Point[] = [];
+      for (i++; i < pairs.length && pairs[i][0] !== 0; i++) {
+        const [entityCode, entityValue] = pairs[i];
+        if (entityCode === 8) layer = entityValue;
+        if (entityCode === 70) closed = (parseInt(entityValue) & 1) === 1;
+        if (entityCode === 10) points.push({ x: parseFloat(entityValue), y: 0 });
+        if (entityCode === 20 && points.length > 0) points[points.length - 1].y = parseFloat(entityValue);
+      }
+      i--;
+      addOutline('LWPOLYLINE', layer, points, closed);
+    } else if (value === 'POLYLINE') {
+      let layer = '';
+      let closed = false;
+      for (i++; i < pairs.length && pairs[i][0] !== 0; i++) {
+        if (pairs[i][0] === 8) layer = pairs[i][1];
+        if (pairs[i][0] === 70) closed = (parseInt(pairs[i][1]) & 1) === 1;
+      }
+
+      // Vertices follow as their own entities until SEQEND
+      const points: Point[] = [];
+      while (i < pairs.length && pairs[i][1] === 'VERTEX') {
+        const vertex = { x: 0, y: 0 };
+        for (i++; i < pairs.length && pairs[i][0] !== 0; i++) {
+          if (pairs[i][0] === 10) vertex.x = parseFloat(pairs[i][1]);
+          if (pairs[i][0] === 20) vertex.y = parseFloat(pairs[i][1]);
+        }
+        points.push(vertex);
+      }
+      i--;
+      addOutline('POLYLINE', layer, points, closed);
+    }
+  }
+
+  return { outlines, unit };
+};
+
+// ---- SVG ----
+
+// 2D affine transform [a, b, c, d, e, f] as in SVG's matrix()
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5]
+];
+
+const applyMatrix = (m: Matrix, point: Point): Point => ({
+  x: m[0] * point.x + m[2] * point.y + m[4],
+  y: m[1] * point.x + m[3] * point.y + m[5]
+});
+
+const readNumbers = (text: string) => (text.match(/-?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/gi) || []).map(Number);
+
+const parseTransform = (transform: string | null): Matrix => {
+  if (!transform) return IDENTITY;
+
+  let matrix = IDENTITY;
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(transform)) !== null) {
+    const values = readNumbers(match[2]);
+    let next: Matrix = IDENTITY;
+    switch (match[1]) {
+      case 'matrix':
+        if (values.length === 6) next = values as Matrix;
+        break;
+      case 'translate':
+        next = [1, 0, 0, 1, values[0] || 0, values[1] || 0];
+        break;
+      case 'scale':
+        next = [values[0] ?? 1, 0, 0, values[1] ?? values[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const angle = ((values[0] || 0) * Math.PI) / 180;
+        const [cx, cy] = [values[1] || 0, values[2] || 0];
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        next = multiply(multiply([1, 0, 0, 1, cx, cy], [cos, sin, -sin, cos, 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+        break;
+      }
+      case 'skewX':
+        next = [1, 0, Math.tan(((values[0] || 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        next = [1, Math.tan(((values[0] || 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+    matrix = multiply(matrix, next);
+  }
+  return matrix;
+};
+
+// Closed subpaths of a path. Curves are replaced by straight lines to their end points,
+// which is fine for plans where walls are straight
+const parsePathData = (d: string): Point[][] => {
+  const closedPaths: Point[][] = [];
+  const tokens = d.match(/[a-df-z]|-?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/gi) || [];
+  const argumentCounts: Record<string, number> = { M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0 };
+
+  let current: Point[] = [];
+  let position = { x: 0, y: 0 };
+  let start = { x: 0, y: 0 };
+  let command = '';
+  let i = 0;
+
+  while (i < tokens.length) {
+    if (/[a-z]/i.test(tokens[i])) {
+      command = tokens[i++];
+    }
+    const upper = command.toUpperCase();
+    const relative = command !== upper;
+
+    if (upper === 'Z') {
+      if (current.length >= 3) closedPaths.push(current);
+      current = [];
+      position = start;
+      command = '';
+      continue;
+    }
+
+    const count = argumentCounts[upper];
+    if (count === undefined) {
+      // Unknown command, give up on the rest of the path
+      break;
+    }
+    const args = tokens.slice(i, i + count).map(Number);
+    if (args.length < count || args.some(isNaN)) break;
+    i += count;
+
+    const base = relative ? position : { x: 0, y: 0 };
+    let next: Point;
+    if (upper === 'H') {
+      next = { x: base.x + args[0], y: position.y };
+    } else if (upper === 'V') {
+      next = { x: position.x, y: base.y + args[0] };
+    } else {
+      next = { x: base.x + args[count - 2], y: base.y + args[count - 1] };
+    }
+
+    if (upper === 'M') {
+      current = [next];
+      start = next;
+      // Further coordinate pairs after a move are lines
+      command = relative ? 'l' : 'L';
+    } else {
+      current.push(next);
+    }
+    position = next;
+  }
+
+  return closedPaths.map(removeClosingPoint).filter(points => points.length >= 3);
+};
+
+const getElementMatrix = (element: Element): Matrix => {
+  const transforms: Matrix[] = [];
+  for (let node: Element | null = element; node; node = node.parentElement) {
+    transforms.unshift(parseTransform(node.getAttribute('transform')));
+  }
+  return transforms.reduce(multiply, IDENTITY);
+};
+
+const describeElement = (element: Element) => {
+  const id = element.getAttribute('id');
+  return id ? `${element.tagName}#${id}` : element.tagName;
+};
+
+// Reads polygons, rects and closed paths. SVG's y axis points down, so it is flipped
+export const parseSvgPlan = (text: string): ParsedPlan => {
+  const document = new DOMParser().parseFromString(text, 'image/svg+xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid SVG');
+  }
+
+  const outlines: PlanOutline[] = [];
+  const addOutline = (element: Element, points: Point[]) => {
+    const matrix = getElementMatrix(element);
+    outlines.push({
+      id: outlines.length,
+      label: describeElement(element),
+      points: points.map(point => {
+        const transformed = applyMatrix(matrix, point);
+        return { x: transformed.x, y: -transformed.y };
+      })
+    });
+  };
+
+  Array.from(document.querySelectorAll('polygon, rect, path')).forEach(element => {
+    if (element.tagName === 'polygon') {
+      const values = readNumbers(element.getAttribute('points') || '');
+      const points: Point[] = [];
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        points.push({ x: values[i], y: values[i + 1] });
+      }
+      const outline = removeClosingPoint(points);
+      if (outline.length >= 3) addOutline(element, outline);
+    } else if (element.tagName === 'rect') {
+      const x = parseFloat(element.getAttribute('x') || '0');
+      const y = parseFloat(element.getAttribute('y') || '0');
+      const width = parseFloat(element.getAttribute('width') || '0');
+      const height = parseFloat(element.getAttribute('height') || '0');
+      if (width > 0 && height > 0) {
+        addOutline(element, [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }]);
+      }
+    } else {
+      parsePathData(element.getAttribute('d') || '').forEach(points => addOutline(element, points));
+    }
+  });
+
+  // The root width attribute may carry a unit, e.g. width="210mm"
+  const widthUnit = document.documentElement.getAttribute('width')?.match(/(mm|cm|in)$/)?.[1] as PlanUnit | undefined;
+  return { outlines, unit: widthUnit ?? null };
+};
+
+export const parsePlanFile = (fileName: string, text: string): ParsedPlan => {
+  if (fileName.toLowerCase().endsWith('.dxf')) return parseDxfPlan(text);
+  if (fileName.toLowerCase().endsWith('.svg')) return parseSvgPlan(text);
+  throw new Error('Unsupported plan file, use .dxf or .svg');
+};
+
+// Convert outlines to millimetres. With moveToOrigin, the lower left corner of the whole plan
+// ends up at (0, 0), so outlines from the same file stay consistent across imports
+export const convertPlanOutlines = (
+  outlines: PlanOutline[],
+  unit: PlanUnit,
+  scale: number,
+  moveToOrigin: boolean
+): PlanOutline[] => {
+  const factor = PLAN_UNIT_TO_MM[unit] * scale;
+  const allPoints = outlines.flatMap(outline => outline.points);
+  const origin = moveToOrigin && allPoints.length > 0
+    ? { x: Math.min(...allPoints.map(p => p.x)), y: Math.min(...allPoints.map(p => p.y)) }
+    : { x: 0, y: 0 };
+
+  return outlines.map(outline => ({
+    ...outline,
+    points: outline.points.map(point => ({
+      x: Math.round((point.x - origin.x) * factor),
+      y: Math.round((point.y - origin.y) * factor)
+    }))
+  }));
+};
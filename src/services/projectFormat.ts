@@ -0,0 +1,91 @@
+// Text formats for exported project files.
+// 'json' is strict JSON for our web tools and the server. 'python' is the same layout with
+// booleans written as True/False, as expected by the Python side of the pipeline
+export type ExportTarget = 'json' | 'python';
+
+const INDENT = '  ';
+
+// Same layout as JSON.stringify(value, null, 2), but with Python booleans
+const stringifyPython = (value: unknown, indent: string): string => {
+  if (value === true) return 'True';
+  if (value === false) return 'False';
+
+  const inner = indent + INDENT;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    // Like JSON, values that can't be represented become null inside arrays
+    const items = value.map(item =>
+      inner + (item === undefined || typeof item === 'function' ? 'null' : stringifyPython(item, inner)));
+    return `[\n${items.join(',\n')}\n${indent}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined && typeof item !== 'function');
+    if (entries.length === 0) return '{}';
+    const items = entries.map(([key, item]) => `${inner}${JSON.stringify(key)}: ${stringifyPython(item, inner)}`);
+    return `{\n${items.join(',\n')}\n${indent}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+};
+
+export const serializeProjectFile = (exportObject: unknown, target: ExportTarget): string => {
+  return target === 'python'
+    ? stringifyPython(exportObject, '')
+    : JSON.stringify(exportObject, null, 2);
+};
+
+// Rewrite bare True/False/None outside of strings as JSON literals
+const pythonLiteralsToJson = (text: string): string => {
+  const literals: Record<string, string> = { True: 'true', False: 'false', None: 'null' };
+  let result = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        // Keep escaped characters (including \") as they are
+        result += text[i + 1] ?? '';
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      result += char;
+      continue;
+    }
+
+    const literal = Object.keys(literals).find(word =>
+      text.startsWith(word, i) && !/[A-Za-z0-9_]/.test(text[i + word.length] ?? ''));
+    if (literal) {
+      result += literals[literal];
+      i += literal.length - 1;
+    } else {
+      result += char;
+    }
+  }
+
+  return result;
+};
+
+// Parse an exported project file in either format
+export const parseProjectFile = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch (jsonError) {
+    try {
+      return JSON.parse(pythonLiteralsToJson(text));
+    } catch {
+      // Report the original error, it points at the real problem in plain JSON files
+      throw jsonError;
+    }
+  }
+};
@@ -0,0 +1,184 @@
+import { CabinetTypeDefinition } from './cabinetCatalog';
+import { ExportedCabinet, ExportedCabinetRun, ExportedCameraPath, ExportedCameraShot, ExportedRoom, Point, ProjectData } from './api';
+
+// Ids already used by the design the data is merged into (in export form: main room = 0)
+export interface ExistingIds {
+  roomIds: number[];
+  runIds: number[];
+  cabinetIds: string[];
+}
+
+// What to take from the imported data and where to put it
+export interface MergeOptions {
+  roomIds: number[]; // Imported room ids to keep
+  runIds: number[]; // Imported run ids to keep, their cabinets come along
+  cameraIndices: number[]; // Imported cameras to keep, as indices into cameras
+  cameraPath: boolean; // Whether to keep the imported camera path
+  offset: Point; // mm, applied after rotating
+  rotation: number; // Degrees, counterclockwise around the center of the kept geometry
+}
+
+// Result of preparing imported data for merging: every id is new, and all references
+// between the imported entities point at the new ids
+export interface MergeData {
+  rooms: ExportedRoom[];
+  cabinetRuns: ExportedCabinetRun[];
+  cabinets: ExportedCabinet[];
+  cameras: ExportedCameraShot[];
+  cameraPath: ExportedCameraPath | null;
+  customCabinetTypes: CabinetTypeDefinition[]; // Only those the kept cabinets use
+}
+
+// Keep everything where it was
+export const getDefaultMergeOptions = (incoming: ProjectData): MergeOptions => ({
+  roomIds: incoming.rooms.map(room => room.id),
+  runIds: incoming.cabinetRuns.map(run => run.id),
+  cameraIndices: incoming.cameras.map((_, i) => i),
+  cameraPath: incoming.cameraPath !== null,
+  offset: { x: 0, y: 0 },
+  rotation: 0
+});
+
+const nextNumber = (ids: number[]) => (ids.length > 0 ? Math.max(...ids) : 0) + 1;
+
+// Cabinet ids look like "cab12"
+const cabinetNumber = (id: string) => {
+  const match = id.match(/(\d+)$/);
+  return match ? parseInt(match[1]) : 0;
+};
+
+const normalizeAngle = (angle: number) => ((angle % 360) + 360) % 360;
+
+// Center of the bounding box around room corners and run start points
+const getGeometryCenter = (rooms: ExportedRoom[], cabinetRuns: ExportedCabinetRun[]): Point => {
+  const xs = [...rooms.flatMap(room => room.points.x), ...cabinetRuns.map(run => run.position.x)];
+  const ys = [...rooms.flatMap(room => room.points.y), ...cabinetRuns.map(run => run.position.y)];
+  if (xs.length === 0) return { x: 0, y: 0 };
+
+  return {
+    x: (Math.min(...xs) + Math.max(...xs)) / 2,
+    y: (Math.min(...ys) + Math.max(...ys)) / 2
+  };
+};
+
+// Rotate around the center, then move by the offset. Results are whole mm, like the export
+const createTransform = (center: Point, options: MergeOptions) => {
+  const rotationRad = (options.rotation * Math.PI) / 180;
+  const cos = Math.cos(rotationRad);
+  const sin = Math.sin(rotationRad);
+
+  return (point: Point): Point => {
+    const dx = point.x - center.x;
+    const dy = point.y - center.y;
+    return {
+      x: Math.round(center.x + dx * cos - dy * sin + options.offset.x),
+      y: Math.round(center.y + dx * sin + dy * cos + options.offset.y)
+    };
+  };
+};
+
+// Renumber the selected rooms, runs and cabinets so they don't collide with existing ones,
+// and move them into place
+export const prepareMergeData = (
+  incoming: ProjectData,
+  existing: ExistingIds,
+  options: MergeOptions = getDefaultMergeOptions(incoming)
+): MergeData => {
+  const selectedRooms = incoming.rooms.filter(room => options.roomIds.includes(room.id));
+  const selectedRuns = incoming.cabinetRuns.filter(run => options.runIds.includes(run.id));
+  const transform = createTransform(getGeometryCenter(selectedRooms, selectedRuns), options);
+
+  // Rooms. Imported rooms are always secondary rooms, the current main room stays main
+  const roomIdMap = new Map<number, number>();
+  let nextRoomId = Math.max(1, nextNumber(existing.roomIds));
+  selectedRooms.forEach(room => {
+    roomIdMap.set(room.id, nextRoomId++);
+  });
+
+  const rooms = selectedRooms.map(room => {
+    // Attachments to rooms that were left out are dropped
+    const attachments = room.attachments
+      ?.filter(attachment => roomIdMap.has(attachment.attachedTo.roomId))
+      .map(attachment => ({
+        ...attachment,
+        attachedTo: { ...attachment.attachedTo, roomId: roomIdMap.get(attachment.attachedTo.roomId) as number }
+      }));
+
+    const points = room.points.x.map((x, i) => transform({ x, y: room.points.y[i] }));
+
+    return {
+      ...room,
+      id: roomIdMap.get(room.id) as number,
+      isMain: false,
+      points: { x: points.map(point => point.x), y: points.map(point => point.y) },
+      attachments: attachments && attachments.length > 0 ? attachments : undefined
+    };
+  });
+
+  // Cabinet runs
+  const runIdMap = new Map<number, number>();
+  let nextRunId = nextNumber(existing.runIds);
+  selectedRuns.forEach(run => {
+    runIdMap.set(run.id, nextRunId++);
+  });
+
+  const remapConnection = (target: number | 'None'): number | 'None' =>
+    target !== 'None' && runIdMap.has(target) ? runIdMap.get(target) as number : 'None';
+
+  const cabinetRuns = selectedRuns.map(run => {
+    const snappedRoomId = run.snapInfo ? roomIdMap.get(run.snapInfo.snappedToWall.roomId) : undefined;
+    return {
+      ...run,
+      id: runIdMap.get(run.id) as number,
+      position: transform(run.position),
+      rotation_z: normalizeAngle(run.rotation_z + options.rotation),
+      properties: {
+        ...run.properties,
+        start_connect: remapConnection(run.properties.start_connect),
+        end_connect: remapConnection(run.properties.end_connect)
+      },
+      // Snaps only survive if the wall they were snapped to came along
+      snapInfo: run.snapInfo && snappedRoomId !== undefined
+        ? { ...run.snapInfo, snappedToWall: { ...run.snapInfo.snappedToWall, roomId: snappedRoomId } }
+        : undefined
+    };
+  });
+
+  // Cabinets follow their run
+  let nextCabinetNumber = nextNumber(existing.cabinetIds.map(cabinetNumber));
+  const cabinets = incoming.cabinets
+    .filter(cabinet => runIdMap.has(cabinet.cabinet_run_id))
+    .map(cabinet => ({
+      ...cabinet,
+      id: `cab${nextCabinetNumber++}`,
+      cabinet_run_id: runIdMap.get(cabinet.cabinet_run_id) as number
+    }));
+
+  // Cameras and their focal points move with the geometry
+  const cameras = incoming.cameras.filter((_, i) => options.cameraIndices.includes(i)).map(shot => ({
+    ...shot,
+    camera: {
+      ...shot.camera,
+      position: { ...shot.camera.position, ...transform(shot.camera.position) },
+      rotation: normalizeAngle(shot.camera.rotation + options.rotation)
+    },
+    focalPoint: shot.focalPoint && {
+      ...shot.focalPoint,
+      position: transform(shot.focalPoint.position)
+    }
+  }));
+
+  const cameraPath = options.cameraPath && incoming.cameraPath ? {
+    ...incoming.cameraPath,
+    keyframes: incoming.cameraPath.keyframes.map(keyframe => ({
+      ...keyframe,
+      position: { ...keyframe.position, ...transform(keyframe.position) },
+      rotation: normalizeAngle(keyframe.rotation + options.rotation)
+    }))
+  } : null;
+
+  const usedTypes = new Set(cabinets.map(cabinet => cabinet.cabinet_type));
+  const customCabinetTypes = incoming.customCabinetTypes.filter(type => usedTypes.has(type.name));
+
+  return { rooms, cabinetRuns, cabinets, cameras, cameraPath, customCabinetTypes };
+};
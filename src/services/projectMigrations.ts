@@ -0,0 +1,121 @@
+// Version of the projectData layout written by exportRoomData.
+// Bump this and add a migration below whenever the layout or its defaults change
+export const CURRENT_SCHEMA_VERSION = 3;
+
+// Files written before schemaVersion existed
+const LEGACY_SCHEMA_VERSION = 1;
+
+// Loose shape of projectData as found in files of any version
+interface RawRoom {
+  floor_material?: string;
+  doors?: {
+    count?: number;
+    materials?: string[];
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+export interface RawProjectData {
+  schemaVersion?: number;
+  rooms?: RawRoom[];
+  [key: string]: unknown;
+}
+
+export interface MigrationResult<T> {
+  data: T;
+  fromVersion: number;
+  toVersion: number;
+  upgrades: string[]; // One human-readable line per change that was made
+}
+
+interface Migration {
+  from: number;
+  description: string;
+  migrate: (data: RawProjectData, report: (change: string) => void) => RawProjectData;
+}
+
+// Each migration upgrades data from `from` to `from + 1`
+const migrations: Migration[] = [
+  {
+    from: 1,
+    description: 'Unify room and door material defaults',
+    migrate: (data, report) => {
+      if (!data.rooms) return data;
+
+      let floorsFixed = 0;
+      let doorsFixed = 0;
+
+      const rooms = data.rooms.map(room => {
+        // Older loaders fell back to "WoodFlooring_1", which isn't a floor material we offer
+        const floorMaterial = !room.floor_material || room.floor_material === 'WoodFlooring_1'
+          ? 'Laminate_Standard'
+          : room.floor_material;
+        if (floorMaterial !== room.floor_material) floorsFixed++;
+
+        if (!room.doors || !room.doors.count) {
+          return { ...room, floor_material: floorMaterial };
+        }
+
+        // Same for doors: "PaintGrade" is a cabinet material, doors use "PaintGrade_Trim"
+        const materials = Array.from({ length: room.doors.count }, (_, i) => {
+          const material = room.doors?.materials?.[i];
+          if (material && material !== 'PaintGrade') return material;
+          doorsFixed++;
+          return 'PaintGrade_Trim';
+        });
+
+        return { ...room, floor_material: floorMaterial, doors: { ...room.doors, materials } };
+      });
+
+      if (floorsFixed > 0) {
+        report(`Set the floor material of ${floorsFixed} room(s) to Laminate_Standard`);
+      }
+      if (doorsFixed > 0) {
+        report(`Set the material of ${doorsFixed} door(s) to PaintGrade_Trim`);
+      }
+      return { ...data, rooms };
+    }
+  },
+  {
+    from: 2,
+    description: 'Move the camera into the list of named cameras',
+    migrate: (data, report) => {
+      if (Array.isArray(data.cameras)) return data;
+
+      const cameras = data.camera
+        ? [{ name: 'Camera 1', camera: data.camera, focalPoint: data.focalPoint ?? null }]
+        : [];
+      if (cameras.length > 0) {
+        report('Named the camera "Camera 1"');
+      }
+      return { ...data, cameras, activeCamera: cameras.length > 0 ? 0 : null };
+    }
+  }
+];
+
+// Upgrade projectData step by step to CURRENT_SCHEMA_VERSION
+export const migrateProjectData = <T extends RawProjectData>(input: T): MigrationResult<T> => {
+  const fromVersion = typeof input.schemaVersion === 'number' ? input.schemaVersion : LEGACY_SCHEMA_VERSION;
+  const upgrades: string[] = [];
+  let data: RawProjectData = input;
+
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migration = migrations.find(m => m.from === version);
+    if (!migration) {
+      throw new Error(`No migration available from schema version ${version}`);
+    }
+
+    const changes: string[] = [];
+    data = migration.migrate(data, change => changes.push(change));
+    upgrades.push(`Version ${version} → ${version + 1}: ${migration.description}`);
+    upgrades.push(...changes.map(change => `  ${change}`));
+  }
+
+  return {
+    data: { ...data, schemaVersion: Math.max(fromVersion, CURRENT_SCHEMA_VERSION) } as T,
+    fromVersion,
+    toVersion: CURRENT_SCHEMA_VERSION,
+    upgrades
+  };
+};
@@ -0,0 +1,570 @@
+import {
+  ExportedCabinet, ExportedCabinetRun, ExportedCamera, ExportedCameraPath, ExportedCameraShot, ExportedFocalPoint,
+  ExportedRoom, ProjectData
+} from './api';
+import { loadCabinetTypes } from './cabinetCatalog';
+import { RUN_FIT_MODES } from './runFit';
+import { CountertopSettings, DEFAULT_COUNTERTOP_SETTINGS } from './countertops';
+import { CURRENT_SCHEMA_VERSION } from './projectMigrations';
+
+// error: the entity is skipped on import, warning: it is imported with a repaired value,
+// info: nothing is lost (e.g. a schema upgrade)
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+export interface ValidationIssue {
+  path: string; // JSON path inside projectData, e.g. $.rooms[1].doors.widths[2]
+  severity: IssueSeverity;
+  message: string;
+}
+
+export interface ValidationResult {
+  issues: ValidationIssue[];
+  canImport: boolean; // False when nothing usable is left, e.g. there is no main room
+  data: ProjectData; // The input with invalid entities removed and repairable values fixed
+}
+
+type RawRecord = Record<string, unknown>;
+type Report = (path: string, severity: IssueSeverity, message: string) => void;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isIndex = (value: unknown, length: number): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+
+const isPositive = (value: unknown): value is number => isNumber(value) && value > 0;
+
+// Records that came through their validate function have the fields of their exported type.
+// Optional ones may still be missing and get their defaults when the project is applied
+const asValidated = <T>(records: RawRecord[]) => records as T[];
+
+// Walls of a validated room. Without the closing wall there's none from the last point back to the first
+const getWallCount = (room: RawRecord) => {
+  const pointCount = ((room.points as RawRecord).x as number[]).length;
+  return room.noClosingWall === true ? pointCount - 1 : pointCount;
+};
+
+// Parallel arrays making up the doors/windows of a room. Required ones can't be defaulted
+interface FeatureLayout {
+  name: 'doors' | 'windows';
+  required: string[];
+  optional: string[];
+}
+
+const DOOR_LAYOUT: FeatureLayout = {
+  name: 'doors',
+  required: ['wallIndices', 'widths', 'positions'],
+  optional: ['heights', 'frameThicknesses', 'frameWidths', 'materials']
+};
+
+const WINDOW_LAYOUT: FeatureLayout = {
+  name: 'windows',
+  required: ['wallIndices', 'widths', 'positions'],
+  optional: ['heights', 'sillHeights', 'types']
+};
+
+const WINDOW_TYPES = ['single', 'double_open', 'double_closed', 'none'];
+
+// Validate a doors/windows block and return it with only the valid entries
+const validateFeatures = (raw: unknown, path: string, wallCount: number, layout: FeatureLayout, report: Report): RawRecord => {
+  const empty: RawRecord = { count: 0 };
+  [...layout.required, ...layout.optional].forEach(field => { empty[field] = []; });
+  if (raw === undefined) return empty;
+
+  if (!isRecord(raw)) {
+    report(path, 'error', `${layout.name} must be an object; all ${layout.name} skipped`);
+    return empty;
+  }
+
+  const count = raw.count;
+  if (!Number.isInteger(count) || (count as number) < 0) {
+    report(`${path}.count`, 'error', `count must be a non-negative integer; all ${layout.name} skipped`);
+    return empty;
+  }
+
+  // Entries beyond the shortest required array can't be placed
+  let available = count as number;
+  for (const field of layout.required) {
+    const values = raw[field];
+    if (!Array.isArray(values)) {
+      report(`${path}.${field}`, 'error', `${field} is missing; all ${layout.name} skipped`);
+      return empty;
+    }
+    if (values.length !== count) {
+      report(`${path}.${field}`, 'error', `${field} has ${values.length} entries but count is ${count}`);
+      available = Math.min(available, values.length);
+    }
+  }
+  for (const field of layout.optional) {
+    const values = raw[field];
+    if (values !== undefined && (!Array.isArray(values) || values.length !== count)) {
+      report(`${path}.${field}`, 'warning', `${field} doesn't have ${count} entries; defaults are used where values are missing`);
+    }
+  }
+  if (available < (count as number)) {
+    report(path, 'error', `${(count as number) - available} of ${count} ${layout.name} skipped because their data is incomplete`);
+  }
+
+  const kept: number[] = [];
+  for (let i = 0; i < available; i++) {
+    const wallIndices = raw.wallIndices as unknown[];
+    const widths = raw.widths as unknown[];
+    const positions = raw.positions as unknown[];
+
+    if (!isIndex(wallIndices[i], wallCount)) {
+      report(`${path}.wallIndices[${i}]`, 'error', `Wall index ${JSON.stringify(wallIndices[i])} is out of range (room has ${wallCount} walls)`);
+      continue;
+    }
+    if (!isPositive(widths[i])) {
+      report(`${path}.widths[${i}]`, 'error', `Width ${JSON.stringify(widths[i])} must be a positive number`);
+      continue;
+    }
+    if (!isNumber(positions[i]) || (positions[i] as number) < 0) {
+      report(`${path}.positions[${i}]`, 'error', `Position ${JSON.stringify(positions[i])} must be a non-negative number`);
+      continue;
+    }
+    kept.push(i);
+  }
+
+  const result: RawRecord = { count: kept.length };
+  for (const field of [...layout.required, ...layout.optional]) {
+    const values = Array.isArray(raw[field]) ? raw[field] as unknown[] : [];
+    result[field] = kept.map(i => values[i]);
+  }
+
+  if (layout.name === 'windows') {
+    result.types = (result.types as unknown[]).map((type, i) => {
+      if (type === undefined || WINDOW_TYPES.includes(type as string)) return type;
+      report(`${path}.types[${kept[i]}]`, 'warning', `Unknown window type ${JSON.stringify(type)}; using "single"`);
+      return 'single';
+    });
+  }
+
+  return result;
+};
+
+// First pass over a room: everything that doesn't depend on other rooms
+const validateRoom = (raw: unknown, path: string, report: Report): RawRecord | null => {
+  if (!isRecord(raw)) {
+    report(path, 'error', 'Room must be an object; room skipped');
+    return null;
+  }
+  if (!Number.isInteger(raw.id) || (raw.id as number) < 0) {
+    report(`${path}.id`, 'error', `Room id ${JSON.stringify(raw.id)} must be a non-negative integer; room skipped`);
+    return null;
+  }
+
+  const points = raw.points;
+  if (!isRecord(points) || !Array.isArray(points.x) || !Array.isArray(points.y) ||
+      !points.x.every(isNumber) || !points.y.every(isNumber)) {
+    report(`${path}.points`, 'error', 'Points must have numeric x and y arrays; room skipped');
+    return null;
+  }
+  if (points.x.length !== points.y.length) {
+    report(`${path}.points`, 'error', `points.x has ${points.x.length} entries but points.y has ${points.y.length}; room skipped`);
+    return null;
+  }
+
+  const room: RawRecord = { ...raw, isMain: raw.isMain === true };
+  if (raw.isMain !== undefined && typeof raw.isMain !== 'boolean') {
+    report(`${path}.isMain`, 'warning', 'isMain must be a boolean; treated as false');
+  }
+
+  const pointCount = points.x.length;
+  if (raw.isComplete === true && pointCount < 3) {
+    report(`${path}.isComplete`, 'warning', `A complete room needs at least 3 points but has ${pointCount}; marked incomplete`);
+    room.isComplete = false;
+  }
+
+  for (const field of ['height', 'wall_thickness']) {
+    if (raw[field] !== undefined && !isPositive(raw[field])) {
+      report(`${path}.${field}`, 'warning', `${field} ${JSON.stringify(raw[field])} must be a positive number; default used`);
+      delete room[field];
+    }
+  }
+
+  const wallCount = getWallCount(room);
+  room.doors = validateFeatures(raw.doors, `${path}.doors`, wallCount, DOOR_LAYOUT, report);
+  room.windows = validateFeatures(raw.windows, `${path}.windows`, wallCount, WINDOW_LAYOUT, report);
+  return room;
+};
+
+// Second pass: attachments may only point at walls of rooms that survived validation
+const validateAttachments = (room: RawRecord, path: string, rooms: Map<number, RawRecord>, report: Report) => {
+  if (room.attachments === undefined) return;
+  if (!Array.isArray(room.attachments)) {
+    report(`${path}.attachments`, 'warning', 'attachments must be an array; ignored');
+    delete room.attachments;
+    return;
+  }
+
+  const pointCount = ((room.points as RawRecord).x as number[]).length;
+  room.attachments = room.attachments.filter((attachment, i) => {
+    const attachmentPath = `${path}.attachments[${i}]`;
+    if (!isRecord(attachment) || !isRecord(attachment.attachedTo)) {
+      report(attachmentPath, 'warning', 'Attachment must have an attachedTo object; ignored');
+      return false;
+    }
+    if (!isIndex(attachment.pointIndex, pointCount)) {
+      report(`${attachmentPath}.pointIndex`, 'warning', `Point index ${JSON.stringify(attachment.pointIndex)} is out of range; attachment ignored`);
+      return false;
+    }
+
+    const target = rooms.get(attachment.attachedTo.roomId as number);
+    if (!target) {
+      report(`${attachmentPath}.attachedTo.roomId`, 'warning', `Room ${JSON.stringify(attachment.attachedTo.roomId)} doesn't exist; attachment ignored`);
+      return false;
+    }
+    if (!isIndex(attachment.attachedTo.wallIndex, getWallCount(target))) {
+      report(`${attachmentPath}.attachedTo.wallIndex`, 'warning', `Wall index ${JSON.stringify(attachment.attachedTo.wallIndex)} is out of range; attachment ignored`);
+      return false;
+    }
+    return true;
+  });
+};
+
+const validateRun = (raw: unknown, path: string, report: Report): RawRecord | null => {
+  if (!isRecord(raw)) {
+    report(path, 'error', 'Cabinet run must be an object; run skipped');
+    return null;
+  }
+  if (!Number.isInteger(Number(raw.id))) {
+    report(`${path}.id`, 'error', `Run id ${JSON.stringify(raw.id)} must be an integer; run skipped`);
+    return null;
+  }
+  if (!isRecord(raw.position) || !isNumber(raw.position.x) || !isNumber(raw.position.y)) {
+    report(`${path}.position`, 'error', 'Position must have numeric x and y; run skipped');
+    return null;
+  }
+
+  const run: RawRecord = { ...raw, id: Number(raw.id) };
+  if (raw.type !== 'Base' && raw.type !== 'Upper') {
+    report(`${path}.type`, 'warning', `Unknown run type ${JSON.stringify(raw.type)}; using "Base"`);
+    run.type = 'Base';
+  }
+  if (raw.rotation_z !== undefined && !isNumber(raw.rotation_z)) {
+    report(`${path}.rotation_z`, 'warning', 'rotation_z must be a number; using 0');
+    run.rotation_z = 0;
+  }
+  if (raw.dimensions !== undefined) {
+    const dimensions = isRecord(raw.dimensions) ? { ...raw.dimensions } : {};
+    for (const field of ['length', 'depth']) {
+      if (dimensions[field] !== undefined && !isPositive(dimensions[field])) {
+        report(`${path}.dimensions.${field}`, 'warning', `${field} ${JSON.stringify(dimensions[field])} must be a positive number; default used`);
+        delete dimensions[field];
+      }
+    }
+    run.dimensions = dimensions;
+  }
+  if (isRecord(raw.properties)) {
+    const properties = { ...raw.properties };
+    if (properties.fit_mode !== undefined && !RUN_FIT_MODES.some(({ mode }) => mode === properties.fit_mode)) {
+      report(`${path}.properties.fit_mode`, 'warning', `Unknown fit mode ${JSON.stringify(properties.fit_mode)}; using "flag"`);
+      delete properties.fit_mode;
+    }
+    const fillers = properties.filler_widths;
+    if (fillers !== undefined && !(isRecord(fillers) && isNumber(fillers.start) && fillers.start >= 0 && isNumber(fillers.end) && fillers.end >= 0)) {
+      report(`${path}.properties.filler_widths`, 'warning', 'filler_widths must have start and end of at least 0; standard fillers used');
+      delete properties.filler_widths;
+    }
+    run.properties = properties;
+  }
+  return run;
+};
+
+// Second pass: connections and wall snaps must refer to runs/rooms that survived validation
+const validateRunReferences = (run: RawRecord, path: string, runIds: Set<number>, rooms: Map<number, RawRecord>, report: Report) => {
+  if (isRecord(run.properties)) {
+    const properties = { ...run.properties };
+    for (const field of ['start_connect', 'end_connect']) {
+      const target = properties[field];
+      if (target === undefined || target === 'None' || target === null) continue;
+      if (!runIds.has(Number(target)) || Number(target) === run.id) {
+        report(`${path}.properties.${field}`, 'warning', `Run ${JSON.stringify(target)} doesn't exist; connection removed`);
+        properties[field] = 'None';
+      }
+    }
+    run.properties = properties;
+  }
+
+  if (isRecord(run.snapInfo)) {
+    const wall = run.snapInfo.snappedToWall;
+    const room = isRecord(wall) ? rooms.get(wall.roomId as number) : undefined;
+    const wallCount = room ? getWallCount(room) : 0;
+    if (!isRecord(wall) || !room || !isIndex(wall.wallIndex, wallCount)) {
+      report(`${path}.snapInfo.snappedToWall`, 'warning', "Snapped wall doesn't exist; run is no longer snapped");
+      delete run.snapInfo;
+    }
+  }
+};
+
+const validateCabinet = (raw: unknown, path: string, runIds: Set<number>, report: Report): RawRecord | null => {
+  if (!isRecord(raw)) {
+    report(path, 'error', 'Cabinet must be an object; cabinet skipped');
+    return null;
+  }
+  if (typeof raw.id !== 'string' || raw.id === '') {
+    report(`${path}.id`, 'error', `Cabinet id ${JSON.stringify(raw.id)} must be a non-empty string; cabinet skipped`);
+    return null;
+  }
+  if (!runIds.has(Number(raw.cabinet_run_id))) {
+    report(`${path}.cabinet_run_id`, 'error', `Run ${JSON.stringify(raw.cabinet_run_id)} doesn't exist; cabinet skipped`);
+    return null;
+  }
+  if (typeof raw.cabinet_type !== 'string' || raw.cabinet_type === '') {
+    report(`${path}.cabinet_type`, 'error', 'cabinet_type must be a non-empty string; cabinet skipped');
+    return null;
+  }
+  if (!isPositive(raw.cabinet_width)) {
+    report(`${path}.cabinet_width`, 'error', `Width ${JSON.stringify(raw.cabinet_width)} must be a positive number; cabinet skipped`);
+    return null;
+  }
+
+  const cabinet: RawRecord = { ...raw };
+  if (!isNumber(raw.position) || raw.position < 0) {
+    report(`${path}.position`, 'warning', `Position ${JSON.stringify(raw.position)} must be a non-negative number; using 0`);
+    cabinet.position = 0;
+  }
+  return cabinet;
+};
+
+const validatePlacement = (raw: unknown, path: string, name: string, report: Report): RawRecord | null => {
+  if (raw === undefined || raw === null) return null;
+  if (!isRecord(raw) || !isRecord(raw.position) || !isNumber(raw.position.x) || !isNumber(raw.position.y)) {
+    report(`${path}.position`, 'error', `${name} position must have numeric x and y; ${name.toLowerCase()} skipped`);
+    return null;
+  }
+  return raw;
+};
+
+const asArray = (value: unknown, path: string, report: Report): unknown[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    report(path, 'error', 'Must be an array; all entries skipped');
+    return [];
+  }
+  return value;
+};
+
+// Check a (migrated) projectData object and build the importable subset of it
+export const validateProjectData = (input: unknown): ValidationResult => {
+  const issues: ValidationIssue[] = [];
+  const report: Report = (path, severity, message) => {
+    issues.push({ path, severity, message });
+  };
+
+  if (!isRecord(input)) {
+    report('$', 'error', 'Project data must be an object');
+    return {
+      issues,
+      canImport: false,
+      data: {
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        address: '',
+        rooms: [],
+        cabinetRuns: [],
+        cabinets: [],
+        camera: null,
+        focalPoint: null,
+        cameras: [],
+        activeCamera: null,
+        cameraPath: null,
+        customCabinetTypes: [],
+        countertopSettings: { ...DEFAULT_COUNTERTOP_SETTINGS },
+        countertops: [],
+        backsplashes: [],
+        exportDate: ''
+      }
+    };
+  }
+
+  let address = input.address;
+  if (address !== undefined && typeof address !== 'string') {
+    report('$.address', 'warning', 'Address must be a string; ignored');
+    address = '';
+  }
+
+  // Rooms
+  const rooms = new Map<number, RawRecord>();
+  const roomPaths = new Map<number, string>();
+  let hasMainRoom = false;
+  asArray(input.rooms, '$.rooms', report).forEach((raw, i) => {
+    const path = `$.rooms[${i}]`;
+    const room = validateRoom(raw, path, report);
+    if (!room) return;
+
+    const id = room.id as number;
+    if (rooms.has(id)) {
+      report(`${path}.id`, 'error', `Duplicate room id ${id}; room skipped`);
+      return;
+    }
+    if (room.isMain) {
+      if (hasMainRoom) {
+        report(`${path}.isMain`, 'error', 'Only one room can be the main room; room skipped');
+        return;
+      }
+      hasMainRoom = true;
+    }
+    rooms.set(id, room);
+    roomPaths.set(id, path);
+  });
+  rooms.forEach((room, id) => validateAttachments(room, roomPaths.get(id) as string, rooms, report));
+
+  if (!hasMainRoom) {
+    report('$.rooms', 'error', 'The project has no valid main room');
+  }
+
+  // Cabinet runs
+  const runs: RawRecord[] = [];
+  const runPaths: string[] = [];
+  const runIds = new Set<number>();
+  asArray(input.cabinetRuns, '$.cabinetRuns', report).forEach((raw, i) => {
+    const path = `$.cabinetRuns[${i}]`;
+    const run = validateRun(raw, path, report);
+    if (!run) return;
+
+    if (runIds.has(run.id as number)) {
+      report(`${path}.id`, 'error', `Duplicate run id ${run.id}; run skipped`);
+      return;
+    }
+    runIds.add(run.id as number);
+    runs.push(run);
+    runPaths.push(path);
+  });
+  runs.forEach((run, i) => validateRunReferences(run, runPaths[i], runIds, rooms, report));
+
+  // Cabinets
+  const cabinets: RawRecord[] = [];
+  const cabinetIds = new Set<string>();
+  asArray(input.cabinets, '$.cabinets', report).forEach((raw, i) => {
+    const path = `$.cabinets[${i}]`;
+    const cabinet = validateCabinet(raw, path, runIds, report);
+    if (!cabinet) return;
+
+    if (cabinetIds.has(cabinet.id as string)) {
+      report(`${path}.id`, 'error', `Duplicate cabinet id ${JSON.stringify(cabinet.id)}; cabinet skipped`);
+      return;
+    }
+    cabinetIds.add(cabinet.id as string);
+    cabinets.push(cabinet);
+  });
+
+  // Cameras
+  const cameras: RawRecord[] = [];
+  asArray(input.cameras, '$.cameras', report).forEach((raw, i) => {
+    const path = `$.cameras[${i}]`;
+    if (!isRecord(raw)) {
+      report(path, 'error', 'Camera must be an object; camera skipped');
+      return;
+    }
+    const camera = validatePlacement(raw.camera, `${path}.camera`, 'Camera', report);
+    if (!camera) {
+      if (raw.camera === undefined || raw.camera === null) {
+        report(`${path}.camera`, 'error', 'Camera is missing; camera skipped');
+      }
+      return;
+    }
+    let name = raw.name;
+    if (typeof name !== 'string') {
+      name = `Camera ${cameras.length + 1}`;
+      report(`${path}.name`, 'warning', `Name must be a string; using "${name}"`);
+    }
+    const focalPoint = validatePlacement(raw.focalPoint, `${path}.focalPoint`, 'Focal point', report);
+    let aimAtFocalPoint = raw.aimAtFocalPoint ?? true;
+    if (typeof aimAtFocalPoint !== 'boolean') {
+      report(`${path}.aimAtFocalPoint`, 'warning', 'aimAtFocalPoint must be a boolean; treated as true');
+      aimAtFocalPoint = true;
+    }
+    cameras.push({ name, camera, focalPoint, aimAtFocalPoint });
+  });
+
+  let activeCamera = input.activeCamera ?? null;
+  if (activeCamera !== null && (!Number.isInteger(activeCamera) || (activeCamera as number) < 0 || (activeCamera as number) >= cameras.length)) {
+    report('$.activeCamera', 'warning', `Active camera ${JSON.stringify(activeCamera)} isn't a camera index; using the first camera`);
+    activeCamera = null;
+  }
+  if (activeCamera === null && cameras.length > 0) activeCamera = 0;
+
+  // Camera path
+  let cameraPath: RawRecord | null = null;
+  if (input.cameraPath !== undefined && input.cameraPath !== null) {
+    if (!isRecord(input.cameraPath)) {
+      report('$.cameraPath', 'error', 'Camera path must be an object; path skipped');
+    } else {
+      cameraPath = { ...input.cameraPath };
+      if (!isNumber(cameraPath.frameRate) || cameraPath.frameRate <= 0) {
+        report('$.cameraPath.frameRate', 'warning', `Frame rate ${JSON.stringify(cameraPath.frameRate)} must be a positive number; using 30`);
+        cameraPath.frameRate = 30;
+      }
+      cameraPath.keyframes = asArray(cameraPath.keyframes, '$.cameraPath.keyframes', report).filter((raw, i) => {
+        const path = `$.cameraPath.keyframes[${i}]`;
+        if (!validatePlacement(raw, path, 'Keyframe', report)) {
+          if (raw === undefined || raw === null) report(path, 'error', 'Keyframe is missing; keyframe skipped');
+          return false;
+        }
+        if (!isNumber((raw as RawRecord).time) || ((raw as RawRecord).time as number) < 0) {
+          report(`${path}.time`, 'error', 'Time must be a non-negative number; keyframe skipped');
+          return false;
+        }
+        return true;
+      });
+      const lastTime = Math.max(0, ...(cameraPath.keyframes as RawRecord[]).map(keyframe => keyframe.time as number));
+      if (!isNumber(cameraPath.duration) || cameraPath.duration < lastTime) {
+        report('$.cameraPath.duration', 'warning', `Duration ${JSON.stringify(cameraPath.duration)} must cover all keyframes; using ${lastTime}`);
+        cameraPath.duration = lastTime;
+      }
+    }
+  }
+
+  // Custom cabinet types
+  const { types: customCabinetTypes, issues: typeIssues } = loadCabinetTypes(input.customCabinetTypes, '$.customCabinetTypes');
+  issues.push(...typeIssues);
+
+  // Countertop settings, defaults for anything missing
+  const countertopSettings = { ...DEFAULT_COUNTERTOP_SETTINGS };
+  if (input.countertopSettings !== undefined && !isRecord(input.countertopSettings)) {
+    report('$.countertopSettings', 'warning', 'countertopSettings must be an object; defaults used');
+  } else if (isRecord(input.countertopSettings)) {
+    const rawSettings = input.countertopSettings;
+    const numberFields = (Object.keys(DEFAULT_COUNTERTOP_SETTINGS) as (keyof CountertopSettings)[])
+      .filter((field): field is Exclude<keyof CountertopSettings, 'backsplashToUppers'> => field !== 'backsplashToUppers');
+    numberFields.forEach(field => {
+      const value = rawSettings[field];
+      if (value === undefined) return;
+      if (isNumber(value) && value >= 0) {
+        countertopSettings[field] = value;
+      } else {
+        report(`$.countertopSettings.${field}`, 'warning', `${field} must be a number of at least 0; using ${DEFAULT_COUNTERTOP_SETTINGS[field]}`);
+      }
+    });
+    if (typeof rawSettings.backsplashToUppers === 'boolean') {
+      countertopSettings.backsplashToUppers = rawSettings.backsplashToUppers;
+    } else if (rawSettings.backsplashToUppers !== undefined) {
+      report('$.countertopSettings.backsplashToUppers', 'warning', `backsplashToUppers must be true or false; using ${DEFAULT_COUNTERTOP_SETTINGS.backsplashToUppers}`);
+    }
+  }
+
+  // Countertops and backsplashes aren't imported, they're worked out again from the runs
+  const data: ProjectData = {
+    schemaVersion: isNumber(input.schemaVersion) ? input.schemaVersion : CURRENT_SCHEMA_VERSION,
+    address: (address as string | undefined) || '',
+    rooms: asValidated<ExportedRoom>(Array.from(rooms.values())),
+    cabinetRuns: asValidated<ExportedCabinetRun>(runs),
+    cabinets: asValidated<ExportedCabinet>(cabinets),
+    camera: validatePlacement(input.camera, '$.camera', 'Camera', report) as ExportedCamera | null,
+    focalPoint: validatePlacement(input.focalPoint, '$.focalPoint', 'Focal point', report) as ExportedFocalPoint | null,
+    cameras: asValidated<ExportedCameraShot>(cameras),
+    activeCamera: activeCamera as number | null,
+    cameraPath: cameraPath as ExportedCameraPath | null,
+    customCabinetTypes,
+    countertopSettings,
+    countertops: [],
+    backsplashes: [],
+    exportDate: typeof input.exportDate === 'string' ? input.exportDate : ''
+  };
+
+  return { issues, canImport: hasMainRoom, data };
+};
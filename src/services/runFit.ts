@@ -0,0 +1,110 @@
+// How a cabinet run's cabinets fill its length. Lengths in mm
+
+// What to do when the run length and the cabinets don't add up:
+// fillers - put the leftover space into the fillers at wall ends
+// scale - resize the cabinets that can be resized
+// flag - leave everything as it is and only report the mismatch
+export type RunFitMode = 'fillers' | 'scale' | 'flag';
+
+export const RUN_FIT_MODES: { mode: RunFitMode, label: string }[] = [
+  { mode: 'flag', label: 'Flag mismatches' },
+  { mode: 'fillers', label: 'Widen end fillers' },
+  { mode: 'scale', label: 'Scale cabinets' }
+];
+
+// Differences up to this count as a fit, since widths are rounded to whole mm
+const FIT_TOLERANCE = 1;
+
+export interface FillerWidths {
+  start: number;
+  end: number;
+}
+
+export interface FitCabinet {
+  id: string;
+  width: number;
+  minWidth: number;
+  maxWidth: number; // Infinity if there's no limit
+  fixed: boolean;
+}
+
+export type RunFitState = 'fits' | 'gap' | 'overLength' | 'empty';
+
+export interface RunFitStatus {
+  state: RunFitState;
+  difference: number; // Run length minus what the fillers and cabinets take up
+}
+
+export const getRunFitStatus = (length: number, fillers: FillerWidths, cabinetWidths: number[]): RunFitStatus => {
+  if (cabinetWidths.length === 0) return { state: 'empty', difference: 0 };
+
+  const difference = length - fillers.start - fillers.end - cabinetWidths.reduce((sum, width) => sum + width, 0);
+  if (Math.abs(difference) <= FIT_TOLERANCE) return { state: 'fits', difference: 0 };
+  return { state: difference > 0 ? 'gap' : 'overLength', difference };
+};
+
+// Fillers that take up all the space the cabinets leave, split evenly between the wall
+// ends. null if there's no wall end or the cabinets don't fit even with standard fillers
+export const getFittedFillers = (
+  length: number,
+  standard: FillerWidths,
+  wallEnds: { start: boolean, end: boolean },
+  cabinetWidths: number[]
+): FillerWidths | null => {
+  const cabinetTotal = cabinetWidths.reduce((sum, width) => sum + width, 0);
+  const leftover = length - standard.start - standard.end - cabinetTotal;
+  const endCount = (wallEnds.start ? 1 : 0) + (wallEnds.end ? 1 : 0);
+  if (endCount === 0 || leftover < -FIT_TOLERANCE) return null;
+
+  const share = Math.max(0, leftover) / endCount;
+  const start = wallEnds.start ? Math.round(standard.start + share) : standard.start;
+  // The end filler takes the rounding remainder
+  const end = wallEnds.end ? Math.max(0, Math.round(length - start - cabinetTotal)) : standard.end;
+  return { start, end };
+};
+
+// New widths for the resizable cabinets so the run is filled exactly. Cabinets are scaled
+// in proportion to their width; those that hit their min or max keep it and the rest take
+// up the difference. Fixed-width cabinets don't change. If the limits don't allow an exact
+// fit, the result comes as close as they allow
+export const getScaledCabinetWidths = (available: number, cabinets: FitCabinet[]): Map<string, number> => {
+  const widths = new Map(cabinets.map(cabinet => [cabinet.id, cabinet.width]));
+  const fixedTotal = cabinets.filter(cabinet => cabinet.fixed).reduce((sum, cabinet) => sum + cabinet.width, 0);
+  let free = cabinets.filter(cabinet => !cabinet.fixed);
+  let target = available - fixedTotal;
+
+  // Each pass pins at least one cabinet at a limit, or finishes
+  while (free.length > 0) {
+    const freeTotal = free.reduce((sum, cabinet) => sum + cabinet.width, 0);
+    const scale = freeTotal > 0 ? target / freeTotal : 0;
+    const pinned = free.filter(cabinet => {
+      const scaled = cabinet.width * scale;
+      return scaled < cabinet.minWidth || scaled > cabinet.maxWidth;
+    });
+
+    if (pinned.length === 0) {
+      free.forEach(cabinet => widths.set(cabinet.id, cabinet.width * scale));
+      break;
+    }
+    pinned.forEach(cabinet => {
+      const width = cabinet.width * scale < cabinet.minWidth ? cabinet.minWidth : cabinet.maxWidth;
+      widths.set(cabinet.id, width);
+      target -= width;
+    });
+    free = free.filter(cabinet => !pinned.includes(cabinet));
+  }
+
+  // Whole mm, with the rounding remainder on the last cabinet that was scaled freely
+  let remainder = 0;
+  let last: string | null = null;
+  cabinets.filter(cabinet => !cabinet.fixed).forEach(cabinet => {
+    const width = widths.get(cabinet.id) as number;
+    const rounded = Math.round(width);
+    remainder += width - rounded;
+    widths.set(cabinet.id, rounded);
+    if (rounded > cabinet.minWidth && rounded < cabinet.maxWidth) last = cabinet.id;
+  });
+  if (last !== null) widths.set(last, (widths.get(last) as number) + Math.round(remainder));
+
+  return widths;
+};
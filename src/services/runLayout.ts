@@ -0,0 +1,205 @@
+// Proposed cabinet layouts that fill a run. Lengths in mm
+
+import { CabinetCatalog, CabinetTypeDefinition, clampCabinetWidth, getCabinetDefinition } from './cabinetCatalog';
+
+export interface LayoutProfile {
+  moduleWidths: number[]; // Preferred widths of the cabinets that fill the run
+  fillType: string; // Cabinet type that fills the run
+  sinkType: string | null; // null for no sink
+  sinkUnderWindow: boolean;
+  dishwasherType: string | null; // Placed next to the sink
+}
+
+export interface LayoutCabinet {
+  type: string;
+  width: number;
+}
+
+export interface RunLayoutProposal {
+  label: string;
+  cabinets: LayoutCabinet[]; // In order from the run start
+  gap: number; // Space the cabinets leave at the end of the run
+  notes: string[];
+}
+
+// How a stretch between fixed cabinets is filled:
+// standard - as close to the preferred widths as possible
+// fewest - as few cabinets as possible, the widest one takes up the rest
+type FillStrategy = 'standard' | 'fewest';
+
+// The sink and the dishwasher next to it, in order from the run start
+interface SinkGroup {
+  side: 'left' | 'right' | null; // Side of the sink the dishwasher is on, null without one
+  cabinets: LayoutCabinet[];
+  sink: LayoutCabinet;
+  sinkOffset: number; // Where the sink starts in the group
+}
+
+const STRATEGY_LABELS: Record<FillStrategy, string> = {
+  standard: 'Standard widths',
+  fewest: 'Fewest cabinets'
+};
+
+const getMaxWidth = (definition: CabinetTypeDefinition) => definition.width.fixed ?? definition.width.max ?? Infinity;
+const getMinWidth = (definition: CabinetTypeDefinition) => definition.width.fixed ?? definition.width.min;
+
+// The preferred widths the type allows, narrowest first
+const getModuleWidths = (definition: CabinetTypeDefinition, preferred: number[]) => {
+  if (definition.width.fixed !== undefined) return [definition.width.fixed];
+  return [...new Set(preferred)]
+    .filter(width => width >= definition.width.min && width <= getMaxWidth(definition))
+    .sort((a, b) => a - b);
+};
+
+// Fill a stretch with cabinets of one type. What the modules don't cover goes into the
+// cabinets furthest from the given end, up to their maximum width, and the rest is the gap
+const fillStretch = (
+  length: number,
+  definition: CabinetTypeDefinition,
+  modules: number[],
+  strategy: FillStrategy,
+  absorbAtStart: boolean
+): { widths: number[], gap: number } => {
+  const stretch = Math.floor(length);
+  if (stretch < getMinWidth(definition)) return { widths: [], gap: Math.max(0, length) };
+
+  // Fewest modules that add up to each length
+  const counts: number[] = new Array(stretch + 1).fill(Infinity);
+  const lastModule: number[] = new Array(stretch + 1).fill(0);
+  counts[0] = 0;
+  for (let sum = 1; sum <= stretch; sum++) {
+    modules.forEach(module => {
+      if (module <= sum && counts[sum - module] + 1 < counts[sum]) {
+        counts[sum] = counts[sum - module] + 1;
+        lastModule[sum] = module;
+      }
+    });
+  }
+
+  // Sums that leave less than the narrowest module over
+  const narrowest = modules.length > 0 ? modules[0] : Infinity;
+  const candidates: number[] = [];
+  for (let sum = stretch; sum > 0 && stretch - sum < narrowest; sum--) {
+    if (counts[sum] !== Infinity) candidates.push(sum);
+  }
+
+  let widths: number[];
+  if (candidates.length === 0) {
+    // No module fits, so one cabinet takes what it can
+    widths = [clampCabinetWidth(definition, stretch)];
+  } else {
+    const best = strategy === 'fewest'
+      ? candidates.reduce((a, b) => counts[b] < counts[a] ? b : a)
+      : candidates[0];
+    widths = [];
+    for (let sum = best; sum > 0; sum -= lastModule[sum]) widths.push(lastModule[sum]);
+    widths.sort((a, b) => b - a);
+  }
+
+  // The widest cabinets sit at the outer end and take up the rest first
+  if (absorbAtStart) widths.reverse();
+  let rest = stretch - widths.reduce((sum, width) => sum + width, 0);
+  const order = widths.map((_, i) => absorbAtStart ? i : widths.length - 1 - i);
+  order.forEach(i => {
+    const added = Math.min(rest, getMaxWidth(definition) - widths[i]);
+    widths[i] += added;
+    rest -= added;
+  });
+  return { widths, gap: rest + (length - stretch) };
+};
+
+// Layouts for a run whose cabinets go between start and end (the run without its fillers).
+// windowCentre is where the window behind the run is centred, or null if there's none
+export const proposeRunLayouts = (
+  catalog: CabinetCatalog,
+  profile: LayoutProfile,
+  span: { start: number, end: number },
+  windowCentre: number | null
+): RunLayoutProposal[] => {
+  const fillDefinition = getCabinetDefinition(catalog, profile.fillType);
+  const modules = getModuleWidths(fillDefinition, profile.moduleWidths);
+  const minFill = getMinWidth(fillDefinition);
+  const spanLength = span.end - span.start;
+  const preferredWidth = (type: string) =>
+    clampCabinetWidth(getCabinetDefinition(catalog, type), Math.max(0, ...profile.moduleWidths));
+
+  const sink = profile.sinkType !== null ? { type: profile.sinkType, width: preferredWidth(profile.sinkType) } : null;
+  const dishwasher = sink && profile.dishwasherType !== null
+    ? { type: profile.dishwasherType, width: preferredWidth(profile.dishwasherType) }
+    : null;
+  const strategies: FillStrategy[] = ['standard', 'fewest'];
+
+  const groups: SinkGroup[] = !sink ? [] : dishwasher
+    ? [
+      { side: 'left', cabinets: [dishwasher, sink], sink, sinkOffset: dishwasher.width },
+      { side: 'right', cabinets: [sink, dishwasher], sink, sinkOffset: 0 }
+    ]
+    : [{ side: null, cabinets: [sink], sink, sinkOffset: 0 }];
+
+  const proposals: RunLayoutProposal[] = [];
+  const seen = new Set<string>();
+  const add = (proposal: RunLayoutProposal) => {
+    const key = JSON.stringify(proposal.cabinets);
+    if (seen.has(key)) return;
+    seen.add(key);
+    proposals.push(proposal);
+  };
+
+  const fillWhole = (strategy: FillStrategy, notes: string[]) => {
+    const { widths, gap } = fillStretch(spanLength, fillDefinition, modules, strategy, false);
+    add({ label: STRATEGY_LABELS[strategy], cabinets: widths.map(width => ({ type: profile.fillType, width })), gap, notes });
+  };
+
+  if (groups.length === 0) {
+    strategies.forEach(strategy => fillWhole(strategy, []));
+    return proposals;
+  }
+
+  groups.forEach(group => {
+    strategies.forEach(strategy => {
+      const notes: string[] = [];
+      const groupWidth = group.cabinets.reduce((sum, cabinet) => sum + cabinet.width, 0);
+
+      if (groupWidth > spanLength) {
+        fillWhole(strategy, ['The sink doesn\'t fit in the run, so it was left out']);
+        return;
+      }
+
+      // Centre the sink under the window, or on the run, and keep the group inside the run
+      const useWindow = profile.sinkUnderWindow && windowCentre !== null && windowCentre > span.start && windowCentre < span.end;
+      if (profile.sinkUnderWindow && !useWindow) notes.push('No window behind the run, so the sink is centred on the run');
+      const sinkCentre = useWindow && windowCentre !== null ? windowCentre : (span.start + span.end) / 2;
+      let groupStart = sinkCentre - group.sink.width / 2 - group.sinkOffset;
+      groupStart = Math.min(Math.max(groupStart, span.start), span.end - groupWidth);
+
+      // A stretch too narrow for a cabinet is closed up or widened, whichever moves the sink less
+      const before = groupStart - span.start;
+      if (before > 0 && before < minFill) {
+        const widened = span.start + minFill;
+        groupStart = minFill - before < before && widened + groupWidth <= span.end ? widened : span.start;
+      }
+
+      const first = fillStretch(groupStart - span.start, fillDefinition, modules, strategy, true);
+      const firstWidth = first.widths.reduce((sum, width) => sum + width, 0);
+      const groupEnd = span.start + firstWidth + groupWidth;
+      const second = fillStretch(span.end - groupEnd, fillDefinition, modules, strategy, false);
+
+      const cabinets = [
+        ...first.widths.map(width => ({ type: profile.fillType, width })),
+        ...group.cabinets.map(cabinet => ({ type: cabinet.type, width: cabinet.width })),
+        ...second.widths.map(width => ({ type: profile.fillType, width }))
+      ];
+      const gap = spanLength - cabinets.reduce((sum, cabinet) => sum + cabinet.width, 0);
+
+      if (useWindow && windowCentre !== null) {
+        const offset = span.start + firstWidth + group.sinkOffset + group.sink.width / 2 - windowCentre;
+        if (Math.abs(offset) >= 1) notes.push(`Sink is ${Math.round(Math.abs(offset))}mm ${offset < 0 ? 'left' : 'right'} of the window centre`);
+      }
+
+      const label = STRATEGY_LABELS[strategy] + (group.side ? `, dishwasher ${group.side} of the sink` : '');
+      add({ label, cabinets, gap, notes });
+    });
+  });
+
+  return proposals;
+};
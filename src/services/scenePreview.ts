@@ -0,0 +1,362 @@
+import { Point } from './api';
+import { getOutwardNormal, getSignedArea, getWallParameter } from './planDrawing';
+import { getFillerExtent, getRunCabinetTop, RunElevation } from './cabinetElevation';
+
+// Rough 3D preview of the design as seen from the placed camera. Walls are extruded from
+// the plan and cabinets become boxes. Rendering is done in software with a depth buffer,
+// so it works on plain canvas without WebGL. World coordinates in mm, z up from the floor
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type Rgb = [number, number, number];
+
+export interface SceneFace {
+  points: Vec3[]; // Convex and planar
+  color: Rgb;
+  outline: boolean;
+}
+
+export interface SceneRoom {
+  points: Point[];
+  isComplete: boolean;
+  noClosingWall?: boolean;
+  height: number;
+  wallThickness: number;
+  doors: { wallIndex: number, startPoint: Point, endPoint: Point, height: number }[];
+  windows: { wallIndex: number, startPoint: Point, endPoint: Point, sillHeight: number, height: number }[];
+}
+
+// A cabinet run placed in the room, with its contents described by its elevation
+export interface SceneRun {
+  start: Point; // Rear left corner
+  rotation: number; // Degrees
+  depth: number;
+  elevation: RunElevation;
+}
+
+export interface SceneCamera {
+  position: Point;
+  rotation: number; // Degrees, viewing direction in the plan
+  height: number;
+  focalLength: number;
+  shiftY: number; // Vertical lens shift as a fraction of the image width
+  sensorWidth: number;
+}
+
+const NEAR_PLANE_mm = 50;
+
+const COLORS: Record<string, Rgb> = {
+  wall: [232, 232, 228],
+  floor: [205, 186, 150],
+  ceiling: [250, 250, 250],
+  base: [236, 200, 150],
+  tall: [226, 190, 140],
+  upper: [190, 210, 240],
+  shelf: [210, 180, 140],
+  filler: [200, 200, 200],
+  emptyRun: [225, 225, 225],
+  background: [243, 244, 246],
+  outline: [70, 70, 70]
+};
+
+// Light from above and to the side, so faces pointing different ways get different shades
+const LIGHT = (() => {
+  const length = Math.hypot(0.4, 0.6, 0.7);
+  return { x: 0.4 / length, y: 0.6 / length, z: 0.7 / length };
+})();
+
+const subtract = (a: Vec3, b: Vec3): Vec3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const cross = (a: Vec3, b: Vec3): Vec3 => ({ x: a.y * b.z - a.z * b.y, y: a.z * b.x - a.x * b.z, z: a.x * b.y - a.y * b.x });
+const at = (point: Point, z: number): Vec3 => ({ x: point.x, y: point.y, z });
+
+// Six faces of a prism standing on a four-cornered footprint
+const addBox = (faces: SceneFace[], footprint: Point[], bottom: number, top: number, color: Rgb, outline = true) => {
+  if (top <= bottom) return;
+  faces.push({ points: footprint.map(point => at(point, bottom)), color, outline });
+  faces.push({ points: footprint.map(point => at(point, top)), color, outline });
+  footprint.forEach((point, i) => {
+    const next = footprint[(i + 1) % footprint.length];
+    faces.push({ points: [at(point, bottom), at(next, bottom), at(next, top), at(point, top)], color, outline });
+  });
+};
+
+const isInsideTriangle = (p: Point, a: Point, b: Point, c: Point) => {
+  const d1 = (p.x - b.x) * (a.y - b.y) - (a.x - b.x) * (p.y - b.y);
+  const d2 = (p.x - c.x) * (b.y - c.y) - (b.x - c.x) * (p.y - c.y);
+  const d3 = (p.x - a.x) * (c.y - a.y) - (c.x - a.x) * (p.y - a.y);
+  return !((d1 < 0 || d2 < 0 || d3 < 0) && (d1 > 0 || d2 > 0 || d3 > 0));
+};
+
+// Ear clipping, since rooms are not always convex
+const triangulate = (polygon: Point[]): Point[][] => {
+  const points = getSignedArea(polygon) > 0 ? [...polygon] : [...polygon].reverse();
+  const triangles: Point[][] = [];
+  let guard = points.length * points.length;
+  while (points.length > 3 && guard-- > 0) {
+    const earIndex = points.findIndex((point, i) => {
+      const previous = points[(i - 1 + points.length) % points.length];
+      const next = points[(i + 1) % points.length];
+      const isConvex = (point.x - previous.x) * (next.y - point.y) - (point.y - previous.y) * (next.x - point.x) > 0;
+      return isConvex && !points.some(other =>
+        other !== previous && other !== point && other !== next && isInsideTriangle(other, previous, point, next));
+    });
+    if (earIndex === -1) break;
+    triangles.push([
+      points[(earIndex - 1 + points.length) % points.length],
+      points[earIndex],
+      points[(earIndex + 1) % points.length]
+    ]);
+    points.splice(earIndex, 1);
+  }
+  if (points.length === 3) triangles.push(points);
+  return triangles;
+};
+
+// Solid height ranges of a wall section, given the openings that cross it
+const getSolidRanges = (height: number, holes: { bottom: number, top: number }[]) => {
+  const ranges: { bottom: number, top: number }[] = [];
+  let bottom = 0;
+  [...holes].sort((a, b) => a.bottom - b.bottom).forEach(hole => {
+    if (hole.bottom > bottom) ranges.push({ bottom, top: Math.min(hole.bottom, height) });
+    bottom = Math.max(bottom, hole.top);
+  });
+  if (bottom < height) ranges.push({ bottom, top: height });
+  return ranges;
+};
+
+const addRoomFaces = (faces: SceneFace[], room: SceneRoom) => {
+  const { points } = room;
+  if (!room.isComplete || points.length < 3) return;
+
+  triangulate(points).forEach(triangle => {
+    faces.push({ points: triangle.map(point => at(point, 0)), color: COLORS.floor, outline: false });
+    faces.push({ points: triangle.map(point => at(point, room.height)), color: COLORS.ceiling, outline: false });
+  });
+
+  const counterclockwise = getSignedArea(points) > 0;
+  const wallCount = room.noClosingWall ? points.length - 1 : points.length;
+
+  for (let wallIndex = 0; wallIndex < wallCount; wallIndex++) {
+    const start = points[wallIndex];
+    const end = points[(wallIndex + 1) % points.length];
+    const normal = getOutwardNormal(start, end, counterclockwise);
+    const offset = { x: normal.x * room.wallThickness, y: normal.y * room.wallThickness };
+
+    const openings = [
+      ...room.doors.filter(door => door.wallIndex === wallIndex).map(door => ({ ...door, bottom: 0, top: door.height })),
+      ...room.windows.filter(window => window.wallIndex === wallIndex)
+        .map(window => ({ ...window, bottom: window.sillHeight, top: window.sillHeight + window.height }))
+    ].map(opening => {
+      const t1 = getWallParameter(opening.startPoint, start, end);
+      const t2 = getWallParameter(opening.endPoint, start, end);
+      return { from: Math.max(0, Math.min(t1, t2)), to: Math.min(1, Math.max(t1, t2)), bottom: opening.bottom, top: opening.top };
+    });
+
+    // Split the wall at every opening edge, then build each section from its solid parts
+    const cuts = [...new Set([0, 1, ...openings.flatMap(opening => [opening.from, opening.to])])].sort((a, b) => a - b);
+    for (let i = 1; i < cuts.length; i++) {
+      const from = cuts[i - 1];
+      const to = cuts[i];
+      if (to - from < 1e-6) continue;
+
+      const holes = openings.filter(opening => opening.from <= from + 1e-6 && opening.to >= to - 1e-6);
+      const sectionStart = { x: start.x + (end.x - start.x) * from, y: start.y + (end.y - start.y) * from };
+      const sectionEnd = { x: start.x + (end.x - start.x) * to, y: start.y + (end.y - start.y) * to };
+      const footprint = [
+        sectionStart,
+        sectionEnd,
+        { x: sectionEnd.x + offset.x, y: sectionEnd.y + offset.y },
+        { x: sectionStart.x + offset.x, y: sectionStart.y + offset.y }
+      ];
+      getSolidRanges(room.height, holes).forEach(range => addBox(faces, footprint, range.bottom, range.top, COLORS.wall, false));
+    }
+  }
+};
+
+const addRunFaces = (faces: SceneFace[], run: SceneRun) => {
+  const { elevation } = run;
+  const rotationRad = (run.rotation * Math.PI) / 180;
+  const along = { x: Math.cos(rotationRad), y: Math.sin(rotationRad) };
+  const toFront = { x: Math.sin(rotationRad), y: -Math.cos(rotationRad) };
+
+  // Footprint of a stretch of the run, from the rear edge towards the front
+  const footprint = (position: number, width: number, depth: number): Point[] => {
+    const rearStart = { x: run.start.x + along.x * position, y: run.start.y + along.y * position };
+    const rearEnd = { x: rearStart.x + along.x * width, y: rearStart.y + along.y * width };
+    return [
+      rearStart,
+      rearEnd,
+      { x: rearEnd.x + toFront.x * depth, y: rearEnd.y + toFront.y * depth },
+      { x: rearStart.x + toFront.x * depth, y: rearStart.y + toFront.y * depth }
+    ];
+  };
+
+  if (elevation.cabinets.length === 0) {
+    addBox(faces, footprint(0, elevation.length, run.depth), elevation.bottom, elevation.top, COLORS.emptyRun);
+  }
+
+  elevation.cabinets.forEach(cabinet => {
+    if (cabinet.floatingShelf) {
+      const { depth, thickness, count, spacing } = cabinet.floatingShelf;
+      for (let i = 0; i < count; i++) {
+        const bottom = cabinet.bottom + i * spacing;
+        addBox(faces, footprint(cabinet.position, cabinet.width, depth), bottom, bottom + thickness, COLORS.shelf);
+      }
+      return;
+    }
+    const color = cabinet.category === 'Tall' ? COLORS.tall : cabinet.bottom > 0 ? COLORS.upper : COLORS.base;
+    addBox(faces, footprint(cabinet.position, cabinet.width, run.depth), cabinet.bottom, cabinet.top, color);
+  });
+
+  const addFiller = (start: number, width: number) => {
+    const extent = getFillerExtent(elevation, start);
+    addBox(faces, footprint(start, width, run.depth), extent.bottom, extent.top, COLORS.filler);
+  };
+  if (elevation.startFillerWidth > 0) addFiller(0, elevation.startFillerWidth);
+  if (elevation.endFillerWidth > 0) addFiller(elevation.length - elevation.endFillerWidth, elevation.endFillerWidth);
+
+  if (elevation.topFiller) {
+    addBox(faces, footprint(0, elevation.length, run.depth), getRunCabinetTop(elevation), elevation.ceilingHeight, COLORS.filler);
+  }
+};
+
+export const buildSceneFaces = (rooms: SceneRoom[], runs: SceneRun[]): SceneFace[] => {
+  const faces: SceneFace[] = [];
+  rooms.forEach(room => addRoomFaces(faces, room));
+  runs.forEach(run => addRunFaces(faces, run));
+  return faces;
+};
+
+interface ScreenVertex {
+  x: number;
+  y: number;
+  w: number; // 1 / depth, which interpolates linearly across the screen
+}
+
+// Keeps the part of a polygon in front of the near plane (camera space, depth in y)
+const clipToNearPlane = (points: Vec3[]): Vec3[] => {
+  const result: Vec3[] = [];
+  points.forEach((point, i) => {
+    const next = points[(i + 1) % points.length];
+    const pointInside = point.y >= NEAR_PLANE_mm;
+    const nextInside = next.y >= NEAR_PLANE_mm;
+    if (pointInside) result.push(point);
+    if (pointInside !== nextInside) {
+      const t = (NEAR_PLANE_mm - point.y) / (next.y - point.y);
+      result.push({
+        x: point.x + (next.x - point.x) * t,
+        y: NEAR_PLANE_mm,
+        z: point.z + (next.z - point.z) * t
+      });
+    }
+  });
+  return result;
+};
+
+const shadeColor = (color: Rgb, points: Vec3[]): Rgb => {
+  const normal = cross(subtract(points[1], points[0]), subtract(points[2], points[0]));
+  const length = Math.hypot(normal.x, normal.y, normal.z) || 1;
+  const lambert = Math.abs((normal.x * LIGHT.x + normal.y * LIGHT.y + normal.z * LIGHT.z) / length);
+  const factor = 0.65 + 0.35 * lambert;
+  return [color[0] * factor, color[1] * factor, color[2] * factor];
+};
+
+// Renders the faces into RGBA pixels of the given size
+export const renderScene = (faces: SceneFace[], camera: SceneCamera, width: number, height: number): Uint8ClampedArray => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const depth = new Float32Array(width * height); // Stores 1 / depth, 0 is infinitely far
+  for (let i = 0; i < width * height; i++) {
+    pixels[i * 4] = COLORS.background[0];
+    pixels[i * 4 + 1] = COLORS.background[1];
+    pixels[i * 4 + 2] = COLORS.background[2];
+    pixels[i * 4 + 3] = 255;
+  }
+
+  // Camera frame: x to the right, y along the view, z up. The camera is kept level
+  const rotationRad = (camera.rotation * Math.PI) / 180;
+  const forward = { x: Math.cos(rotationRad), y: Math.sin(rotationRad) };
+  const right = { x: Math.sin(rotationRad), y: -Math.cos(rotationRad) };
+  const toCamera = (point: Vec3): Vec3 => {
+    const dx = point.x - camera.position.x;
+    const dy = point.y - camera.position.y;
+    return { x: dx * right.x + dy * right.y, y: dx * forward.x + dy * forward.y, z: point.z - camera.height };
+  };
+
+  const zoom = (camera.focalLength / camera.sensorWidth) * width;
+  const project = (point: Vec3): ScreenVertex => ({
+    x: width / 2 + (point.x / point.y) * zoom,
+    y: height / 2 - (point.z / point.y) * zoom + camera.shiftY * width,
+    w: 1 / point.y
+  });
+
+  const setPixel = (index: number, color: Rgb) => {
+    pixels[index * 4] = color[0];
+    pixels[index * 4 + 1] = color[1];
+    pixels[index * 4 + 2] = color[2];
+  };
+
+  const fillTriangle = (a: ScreenVertex, b: ScreenVertex, c: ScreenVertex, color: Rgb) => {
+    const area = (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+    if (Math.abs(area) < 1e-9) return;
+
+    const minX = Math.max(0, Math.floor(Math.min(a.x, b.x, c.x)));
+    const maxX = Math.min(width - 1, Math.ceil(Math.max(a.x, b.x, c.x)));
+    const minY = Math.max(0, Math.floor(Math.min(a.y, b.y, c.y)));
+    const maxY = Math.min(height - 1, Math.ceil(Math.max(a.y, b.y, c.y)));
+
+    for (let y = minY; y <= maxY; y++) {
+      const py = y + 0.5;
+      for (let x = minX; x <= maxX; x++) {
+        const px = x + 0.5;
+        const wa = ((b.x - px) * (c.y - py) - (b.y - py) * (c.x - px)) / area;
+        const wb = ((c.x - px) * (a.y - py) - (c.y - py) * (a.x - px)) / area;
+        const wc = 1 - wa - wb;
+        if (wa < 0 || wb < 0 || wc < 0) continue;
+
+        const w = wa * a.w + wb * b.w + wc * c.w;
+        const index = y * width + x;
+        if (w > depth[index]) {
+          depth[index] = w;
+          setPixel(index, color);
+        }
+      }
+    }
+  };
+
+  // Outlines only show where they are not hidden behind other faces
+  const drawLine = (a: ScreenVertex, b: ScreenVertex, color: Rgb) => {
+    const steps = Math.ceil(Math.max(Math.abs(b.x - a.x), Math.abs(b.y - a.y)));
+    if (steps > 4 * (width + height)) return;
+    for (let i = 0; i <= steps; i++) {
+      const t = steps === 0 ? 0 : i / steps;
+      const x = Math.floor(a.x + (b.x - a.x) * t);
+      const y = Math.floor(a.y + (b.y - a.y) * t);
+      if (x < 0 || y < 0 || x >= width || y >= height) continue;
+      const index = y * width + x;
+      if ((a.w + (b.w - a.w) * t) * 1.02 >= depth[index]) setPixel(index, color);
+    }
+  };
+
+  const projected = faces.flatMap(face => {
+    const clipped = clipToNearPlane(face.points.map(toCamera));
+    return clipped.length < 3 ? [] : [{ face, screen: clipped.map(project) }];
+  });
+
+  projected.forEach(({ face, screen }) => {
+    const color = shadeColor(face.color, face.points);
+    for (let i = 1; i < screen.length - 1; i++) {
+      fillTriangle(screen[0], screen[i], screen[i + 1], color);
+    }
+  });
+
+  projected.forEach(({ face, screen }) => {
+    if (!face.outline) return;
+    screen.forEach((point, i) => drawLine(point, screen[(i + 1) % screen.length], COLORS.outline));
+  });
+
+  return pixels;
+};
@@ -0,0 +1,62 @@
+import { getShapeBounds, VectorShape } from './vectorRecorder';
+
+const MARGIN_px = 20;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+// SVG's text-anchor and dominant-baseline for the canvas text settings
+const TEXT_ANCHORS: Record<string, string> = { left: 'start', start: 'start', center: 'middle', right: 'end', end: 'end' };
+const TEXT_BASELINES: Record<string, string> = {
+  top: 'text-before-edge',
+  hanging: 'hanging',
+  middle: 'central',
+  alphabetic: 'alphabetic',
+  ideographic: 'ideographic',
+  bottom: 'text-after-edge'
+};
+
+const shapeToSvg = (shape: VectorShape): string => {
+  if (shape.kind === 'text') {
+    const x = formatNumber(shape.position.x);
+    const y = formatNumber(shape.position.y);
+    const rotation = shape.angle !== 0 ? ` transform="rotate(${formatNumber(shape.angle * 180 / Math.PI)} ${x} ${y})"` : '';
+    return `<text x="${x}" y="${y}" font-family="Arial, Helvetica, sans-serif" font-size="${formatNumber(shape.fontSize)}"` +
+      `${shape.bold ? ' font-weight="bold"' : ''} fill="${escapeXml(shape.color)}"` +
+      ` text-anchor="${TEXT_ANCHORS[shape.align] ?? 'start'}" dominant-baseline="${TEXT_BASELINES[shape.baseline] ?? 'alphabetic'}"` +
+      `${rotation}>${escapeXml(shape.text)}</text>`;
+  }
+
+  const d = shape.subpaths
+    .map(subpath => subpath.points
+      .map((point, i) => `${i === 0 ? 'M' : 'L'}${formatNumber(point.x)} ${formatNumber(point.y)}`)
+      .join(' ') + (subpath.closed ? ' Z' : ''))
+    .join(' ');
+  const stroke = shape.stroke
+    ? ` stroke="${escapeXml(shape.stroke)}" stroke-width="${formatNumber(shape.lineWidth)}"` +
+      (shape.dash.length > 0 ? ` stroke-dasharray="${shape.dash.join(' ')}"` : '')
+    : ' stroke="none"';
+  return `<path d="${d}" fill="${shape.fill ? escapeXml(shape.fill) : 'none'}"${stroke}/>`;
+};
+
+// Standalone SVG document of the recorded shapes, cropped to the drawing
+export const buildSvg = (shapes: VectorShape[], title: string): string => {
+  const bounds = getShapeBounds(shapes) ?? { min: { x: 0, y: 0 }, max: { x: 0, y: 0 } };
+  const x = bounds.min.x - MARGIN_px;
+  const y = bounds.min.y - MARGIN_px;
+  const width = bounds.max.x - bounds.min.x + 2 * MARGIN_px;
+  const height = bounds.max.y - bounds.min.y + 2 * MARGIN_px;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${formatNumber(width)}" height="${formatNumber(height)}"` +
+      ` viewBox="${formatNumber(x)} ${formatNumber(y)} ${formatNumber(width)} ${formatNumber(height)}">`,
+    `<title>${escapeXml(title)}</title>`,
+    `<rect x="${formatNumber(x)}" y="${formatNumber(y)}" width="${formatNumber(width)}" height="${formatNumber(height)}" fill="#fff"/>`,
+    ...shapes.map(shapeToSvg),
+    '</svg>',
+    ''
+  ].join('\n');
+};
@@ -0,0 +1,263 @@
+import { Point } from './api';
+
+// Stand-in for a canvas 2D context that records what is drawn as vector shapes, so the
+// designer's canvas drawing code can be reused for SVG and PDF exports.
+// Only the subset of the canvas API used by the designer is supported. Coordinates are
+// recorded in canvas pixels, with transforms already applied
+
+export interface VectorPath {
+  kind: 'path';
+  subpaths: { points: Point[], closed: boolean }[];
+  fill: string | null;
+  stroke: string | null;
+  lineWidth: number;
+  dash: number[];
+}
+
+export interface VectorText {
+  kind: 'text';
+  text: string;
+  position: Point;
+  angle: number; // Radians, clockwise on the canvas (y down)
+  fontSize: number;
+  bold: boolean;
+  color: string;
+  align: CanvasTextAlign;
+  baseline: CanvasTextBaseline;
+}
+
+export type VectorShape = VectorPath | VectorText;
+
+type Matrix = [number, number, number, number, number, number];
+
+interface DrawingState {
+  matrix: Matrix;
+  fillStyle: string;
+  strokeStyle: string;
+  lineWidth: number;
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+  dash: number[];
+}
+
+// Degrees between points when arcs are flattened into line segments
+const ARC_STEP_DEG = 5;
+
+export class VectorRecorder {
+  shapes: VectorShape[] = [];
+  canvas: { width: number, height: number };
+
+  private state: DrawingState = {
+    matrix: [1, 0, 0, 1, 0, 0],
+    fillStyle: '#000',
+    strokeStyle: '#000',
+    lineWidth: 1,
+    font: '10px sans-serif',
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+    dash: []
+  };
+  private stack: DrawingState[] = [];
+  private subpaths: { points: Point[], closed: boolean }[] = [];
+
+  constructor(width: number, height: number) {
+    this.canvas = { width, height };
+  }
+
+  get fillStyle() { return this.state.fillStyle; }
+  set fillStyle(value: string) { this.state.fillStyle = value; }
+  get strokeStyle() { return this.state.strokeStyle; }
+  set strokeStyle(value: string) { this.state.strokeStyle = value; }
+  get lineWidth() { return this.state.lineWidth; }
+  set lineWidth(value: number) { this.state.lineWidth = value; }
+  get font() { return this.state.font; }
+  set font(value: string) { this.state.font = value; }
+  get textAlign() { return this.state.textAlign; }
+  set textAlign(value: CanvasTextAlign) { this.state.textAlign = value; }
+  get textBaseline() { return this.state.textBaseline; }
+  set textBaseline(value: CanvasTextBaseline) { this.state.textBaseline = value; }
+
+  save() {
+    this.stack.push({ ...this.state, dash: [...this.state.dash] });
+  }
+
+  restore() {
+    const state = this.stack.pop();
+    if (state) this.state = state;
+  }
+
+  translate(x: number, y: number) {
+    this.transform(1, 0, 0, 1, x, y);
+  }
+
+  rotate(angle: number) {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.transform(cos, sin, -sin, cos, 0, 0);
+  }
+
+  scale(x: number, y: number) {
+    this.transform(x, 0, 0, y, 0, 0);
+  }
+
+  transform(a: number, b: number, c: number, d: number, e: number, f: number) {
+    const m = this.state.matrix;
+    this.state.matrix = [
+      m[0] * a + m[2] * b,
+      m[1] * a + m[3] * b,
+      m[0] * c + m[2] * d,
+      m[1] * c + m[3] * d,
+      m[0] * e + m[2] * f + m[4],
+      m[1] * e + m[3] * f + m[5]
+    ];
+  }
+
+  setLineDash(segments: number[]) {
+    this.state.dash = [...segments];
+  }
+
+  beginPath() {
+    this.subpaths = [];
+  }
+
+  moveTo(x: number, y: number) {
+    this.subpaths.push({ points: [this.apply(x, y)], closed: false });
+  }
+
+  lineTo(x: number, y: number) {
+    if (this.subpaths.length === 0) {
+      this.moveTo(x, y);
+      return;
+    }
+    this.subpaths[this.subpaths.length - 1].points.push(this.apply(x, y));
+  }
+
+  closePath() {
+    const current = this.subpaths[this.subpaths.length - 1];
+    if (current) current.closed = true;
+  }
+
+  rect(x: number, y: number, width: number, height: number) {
+    this.subpaths.push({
+      points: [this.apply(x, y), this.apply(x + width, y), this.apply(x + width, y + height), this.apply(x, y + height)],
+      closed: true
+    });
+  }
+
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false) {
+    this.ellipse(x, y, radius, radius, 0, startAngle, endAngle, counterclockwise);
+  }
+
+  ellipse(
+    x: number, y: number, radiusX: number, radiusY: number, rotation: number,
+    startAngle: number, endAngle: number, counterclockwise = false
+  ) {
+    // Same sweep rules as the canvas: full turns draw a full ellipse
+    let sweep = endAngle - startAngle;
+    if (!counterclockwise && sweep < 0) sweep = sweep % (2 * Math.PI) + 2 * Math.PI;
+    if (counterclockwise && sweep > 0) sweep = sweep % (2 * Math.PI) - 2 * Math.PI;
+    if (Math.abs(endAngle - startAngle) >= 2 * Math.PI) sweep = counterclockwise ? -2 * Math.PI : 2 * Math.PI;
+
+    const steps = Math.max(2, Math.ceil(Math.abs(sweep) / (ARC_STEP_DEG * Math.PI / 180)));
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    for (let i = 0; i <= steps; i++) {
+      const angle = startAngle + (sweep * i) / steps;
+      const px = radiusX * Math.cos(angle);
+      const py = radiusY * Math.sin(angle);
+      const pointX = x + px * cos - py * sin;
+      const pointY = y + px * sin + py * cos;
+      // Like the canvas, an arc continues the current subpath (lineTo starts one if there is none)
+      this.lineTo(pointX, pointY);
+    }
+  }
+
+  fill() {
+    this.recordPath(this.state.fillStyle, null);
+  }
+
+  stroke() {
+    this.recordPath(null, this.state.strokeStyle);
+  }
+
+  fillRect(x: number, y: number, width: number, height: number) {
+    const subpaths = this.subpaths;
+    this.beginPath();
+    this.rect(x, y, width, height);
+    this.fill();
+    this.subpaths = subpaths;
+  }
+
+  strokeRect(x: number, y: number, width: number, height: number) {
+    const subpaths = this.subpaths;
+    this.beginPath();
+    this.rect(x, y, width, height);
+    this.stroke();
+    this.subpaths = subpaths;
+  }
+
+  clearRect() {
+    // Exports start from a blank page
+  }
+
+  drawImage() {
+    // Raster images are not part of vector exports
+  }
+
+  fillText(text: string, x: number, y: number) {
+    const m = this.state.matrix;
+    const fontSize = parseFloat(this.state.font.match(/([\d.]+)px/)?.[1] ?? '10');
+    this.shapes.push({
+      kind: 'text',
+      text,
+      position: this.apply(x, y),
+      angle: Math.atan2(m[1], m[0]),
+      fontSize: fontSize * Math.hypot(m[0], m[1]),
+      bold: /\bbold\b/.test(this.state.font),
+      color: this.state.fillStyle,
+      align: this.state.textAlign,
+      baseline: this.state.textBaseline
+    });
+  }
+
+  // Rough width, good enough for the layout decisions the drawing code makes
+  measureText(text: string) {
+    const fontSize = parseFloat(this.state.font.match(/([\d.]+)px/)?.[1] ?? '10');
+    return { width: text.length * fontSize * 0.55 };
+  }
+
+  private apply(x: number, y: number): Point {
+    const m = this.state.matrix;
+    return { x: m[0] * x + m[2] * y + m[4], y: m[1] * x + m[3] * y + m[5] };
+  }
+
+  private recordPath(fill: string | null, stroke: string | null) {
+    const subpaths = this.subpaths
+      .filter(subpath => subpath.points.length > 1)
+      .map(subpath => ({ points: [...subpath.points], closed: subpath.closed }));
+    if (subpaths.length === 0) return;
+
+    const m = this.state.matrix;
+    this.shapes.push({
+      kind: 'path',
+      subpaths,
+      fill,
+      stroke,
+      lineWidth: this.state.lineWidth * Math.hypot(m[0], m[1]),
+      dash: this.state.dash
+    });
+  }
+}
+
+// Bounding box of the recorded shapes, in canvas pixels. Text counts by its anchor point
+export const getShapeBounds = (shapes: VectorShape[]): { min: Point, max: Point } | null => {
+  const points = shapes.flatMap(shape =>
+    shape.kind === 'path' ? shape.subpaths.flatMap(subpath => subpath.points) : [shape.position]);
+  if (points.length === 0) return null;
+
+  return {
+    min: { x: Math.min(...points.map(p => p.x)), y: Math.min(...points.map(p => p.y)) },
+    max: { x: Math.max(...points.map(p => p.x)), y: Math.max(...points.map(p => p.y)) }
+  };
+};